@@ -0,0 +1,324 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Form,
+  Input,
+  Button,
+  Card,
+  Alert,
+  Tag,
+  Typography,
+  message,
+} from "antd";
+import { LockOutlined, SafetyOutlined } from "@ant-design/icons";
+import {
+  chefApi,
+  type TwoFactorStatus,
+  type TwoFactorEnrollment,
+} from "@/lib/api-client";
+
+// Null when the status could not be loaded, the error is shown
+async function loadTwoFactorStatus(): Promise<TwoFactorStatus | null> {
+  try {
+    const response = await chefApi.getTwoFactorStatus();
+    if (response.success && response.data) {
+      return response.data;
+    }
+    message.error(
+      response.error?.message || "Failed to fetch two-factor status"
+    );
+  } catch {
+    message.error("Failed to fetch two-factor status");
+  }
+  return null;
+}
+
+export default function AccountPage() {
+  const [passwordForm] = Form.useForm();
+  const [verifyForm] = Form.useForm();
+  const [disableForm] = Form.useForm();
+  const [changingPassword, setChangingPassword] = useState(false);
+  const [twoFactorStatus, setTwoFactorStatus] =
+    useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(
+    null
+  );
+  // Recovery codes are only returned once, right after enabling
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [twoFactorLoading, setTwoFactorLoading] = useState(false);
+
+  const fetchTwoFactorStatus = async () => {
+    const status = await loadTwoFactorStatus();
+    if (status) setTwoFactorStatus(status);
+  };
+
+  useEffect(() => {
+    loadTwoFactorStatus().then((status) => {
+      if (status) setTwoFactorStatus(status);
+    });
+  }, []);
+
+  const handleStartEnrollment = async () => {
+    setTwoFactorLoading(true);
+    try {
+      const response = await chefApi.enrollTwoFactor();
+      if (response.success && response.data) {
+        setEnrollment(response.data);
+        setRecoveryCodes([]);
+        verifyForm.resetFields();
+      } else {
+        message.error(
+          response.error?.message || "Failed to start two-factor enrollment"
+        );
+      }
+    } catch {
+      message.error("Failed to start two-factor enrollment");
+    } finally {
+      setTwoFactorLoading(false);
+    }
+  };
+
+  const handleVerifyEnrollment = async (values: { code: string }) => {
+    setTwoFactorLoading(true);
+    try {
+      const response = await chefApi.verifyTwoFactor(values.code);
+      if (response.success && response.data) {
+        message.success("Two-factor authentication enabled");
+        setEnrollment(null);
+        setRecoveryCodes(response.data.recoveryCodes);
+        fetchTwoFactorStatus();
+      } else {
+        message.error(response.error?.message || "Invalid verification code");
+      }
+    } catch {
+      message.error("Failed to verify code");
+    } finally {
+      setTwoFactorLoading(false);
+    }
+  };
+
+  const handleDisableTwoFactor = async (values: { password: string }) => {
+    setTwoFactorLoading(true);
+    try {
+      const response = await chefApi.disableTwoFactor(values.password);
+      if (response.success) {
+        message.success("Two-factor authentication disabled");
+        disableForm.resetFields();
+        setRecoveryCodes([]);
+        fetchTwoFactorStatus();
+      } else {
+        message.error(
+          response.error?.message || "Failed to disable two-factor"
+        );
+      }
+    } catch {
+      message.error("Failed to disable two-factor");
+    } finally {
+      setTwoFactorLoading(false);
+    }
+  };
+
+  const handleChangePassword = async (values: {
+    currentPassword: string;
+    newPassword: string;
+  }) => {
+    setChangingPassword(true);
+    try {
+      const response = await chefApi.changePassword(
+        values.currentPassword,
+        values.newPassword
+      );
+      if (response.success) {
+        message.success("Password changed successfully");
+        passwordForm.resetFields();
+      } else {
+        message.error(response.error?.message || "Failed to change password");
+      }
+    } catch {
+      message.error("Failed to change password");
+    } finally {
+      setChangingPassword(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        maxWidth: 600,
+        display: "flex",
+        flexDirection: "column",
+        gap: 16,
+      }}
+    >
+      <Card title="Change Password">
+        <Form
+          form={passwordForm}
+          layout="vertical"
+          onFinish={handleChangePassword}
+          autoComplete="off"
+        >
+          <Form.Item
+            name="currentPassword"
+            label="Current Password"
+            rules={[
+              { required: true, message: "Please enter your current password" },
+            ]}
+          >
+            <Input.Password prefix={<LockOutlined />} />
+          </Form.Item>
+          <Form.Item
+            name="newPassword"
+            label="New Password"
+            rules={[
+              { required: true, message: "Please enter a new password" },
+              { min: 6, message: "Password must be at least 6 characters" },
+            ]}
+          >
+            <Input.Password prefix={<LockOutlined />} />
+          </Form.Item>
+          <Form.Item
+            name="confirmPassword"
+            label="Confirm New Password"
+            dependencies={["newPassword"]}
+            rules={[
+              { required: true, message: "Please confirm the new password" },
+              ({ getFieldValue }) => ({
+                validator(_, value) {
+                  if (!value || getFieldValue("newPassword") === value) {
+                    return Promise.resolve();
+                  }
+                  return Promise.reject(
+                    new Error("The two passwords do not match")
+                  );
+                },
+              }),
+            ]}
+          >
+            <Input.Password prefix={<LockOutlined />} />
+          </Form.Item>
+          <Form.Item>
+            <Button type="primary" htmlType="submit" loading={changingPassword}>
+              Change Password
+            </Button>
+          </Form.Item>
+        </Form>
+      </Card>
+
+      <Card
+        title="Two-Factor Authentication"
+        extra={
+          twoFactorStatus &&
+          (twoFactorStatus.enabled ? (
+            <Tag color="green">Enabled</Tag>
+          ) : (
+            <Tag>Disabled</Tag>
+          ))
+        }
+      >
+        {recoveryCodes.length > 0 && (
+          <Alert
+            type="warning"
+            showIcon
+            style={{ marginBottom: 16 }}
+            title="Save your recovery codes"
+            description={
+              <div>
+                <p>
+                  Each code can be used once to log in if you lose access to
+                  your authenticator app. They will not be shown again.
+                </p>
+                <Typography.Paragraph copyable={{ text: recoveryCodes.join("\n") }}>
+                  <pre style={{ margin: 0 }}>{recoveryCodes.join("\n")}</pre>
+                </Typography.Paragraph>
+              </div>
+            }
+          />
+        )}
+
+        {twoFactorStatus?.enabled ? (
+          <Form
+            form={disableForm}
+            layout="vertical"
+            onFinish={handleDisableTwoFactor}
+            autoComplete="off"
+          >
+            <p>
+              Recovery codes remaining: {twoFactorStatus.recoveryCodesRemaining}
+            </p>
+            <Form.Item
+              name="password"
+              label="Password"
+              rules={[{ required: true, message: "Please enter your password" }]}
+            >
+              <Input.Password prefix={<LockOutlined />} />
+            </Form.Item>
+            <Form.Item>
+              <Button danger htmlType="submit" loading={twoFactorLoading}>
+                Disable Two-Factor
+              </Button>
+            </Form.Item>
+          </Form>
+        ) : enrollment ? (
+          <Form
+            form={verifyForm}
+            layout="vertical"
+            onFinish={handleVerifyEnrollment}
+            autoComplete="off"
+          >
+            <p>
+              Add this account to your authenticator app using the secret key
+              or the setup URI, then enter the code it shows.
+            </p>
+            <Form.Item label="Secret Key">
+              <Typography.Text code copyable>
+                {enrollment.secret}
+              </Typography.Text>
+            </Form.Item>
+            <Form.Item label="Setup URI">
+              <Typography.Text copyable style={{ wordBreak: "break-all" }}>
+                {enrollment.otpauthUri}
+              </Typography.Text>
+            </Form.Item>
+            <Form.Item
+              name="code"
+              label="Verification Code"
+              rules={[
+                { required: true, message: "Please enter the verification code" },
+                { pattern: /^\d{6}$/, message: "Code must be 6 digits" },
+              ]}
+            >
+              <Input prefix={<SafetyOutlined />} maxLength={6} />
+            </Form.Item>
+            <Form.Item>
+              <Button type="primary" htmlType="submit" loading={twoFactorLoading}>
+                Verify and Enable
+              </Button>
+              <Button
+                style={{ marginLeft: 8 }}
+                onClick={() => setEnrollment(null)}
+              >
+                Cancel
+              </Button>
+            </Form.Item>
+          </Form>
+        ) : (
+          <div>
+            <p>
+              Require a code from an authenticator app in addition to your
+              password when logging in.
+            </p>
+            <Button
+              type="primary"
+              onClick={handleStartEnrollment}
+              loading={twoFactorLoading}
+              disabled={!twoFactorStatus}
+            >
+              Enable Two-Factor
+            </Button>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
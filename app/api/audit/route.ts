@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { AUDIT_ENTITY_TYPES, type AuditEntityType } from "@/lib/audit";
+import { AppError, ValidationError } from "@/lib/errors";
+
+function parseDateParam(value: string | null, name: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid ${name} date`);
+  }
+  return date;
+}
+
+/**
+ * GET /api/audit
+ *
+ * Get audit log entries (admin only), newest first
+ *
+ * Query parameters:
+ * - entityType: chef | ingredient | category | dish | supplier (optional)
+ * - entityId: entity ID (optional)
+ * - actorChefId: chef who made the change (optional)
+ * - from / to: ISO date range on createdAt (optional)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "audit:read");
+
+    const { searchParams } = new URL(request.url);
+    const current = parseInt(searchParams.get("current") || "1", 10);
+    const pageSize = parseInt(searchParams.get("pageSize") || "10", 10);
+    const skip = (current - 1) * pageSize;
+
+    const entityType = searchParams.get("entityType");
+    if (
+      entityType &&
+      !AUDIT_ENTITY_TYPES.includes(entityType as AuditEntityType)
+    ) {
+      throw new ValidationError("Invalid entity type");
+    }
+
+    const entityIdParam = searchParams.get("entityId");
+    const entityId = entityIdParam ? parseInt(entityIdParam, 10) : undefined;
+    if (entityId !== undefined && (isNaN(entityId) || entityId <= 0)) {
+      throw new ValidationError("Invalid entity ID");
+    }
+
+    const actorParam = searchParams.get("actorChefId");
+    const actorChefId = actorParam ? parseInt(actorParam, 10) : undefined;
+    if (actorChefId !== undefined && (isNaN(actorChefId) || actorChefId <= 0)) {
+      throw new ValidationError("Invalid actor chef ID");
+    }
+
+    const from = parseDateParam(searchParams.get("from"), "from");
+    const to = parseDateParam(searchParams.get("to"), "to");
+
+    const where = {
+      ...(entityType ? { entityType } : {}),
+      ...(entityId !== undefined ? { entityId } : {}),
+      ...(actorChefId !== undefined ? { actorChefId } : {}),
+      ...(from || to
+        ? {
+            createdAt: {
+              ...(from ? { gte: from } : {}),
+              ...(to ? { lte: to } : {}),
+            },
+          }
+        : {}),
+    };
+
+    const [total, entries] = await Promise.all([
+      prisma.auditlog.count({ where }),
+      prisma.auditlog.findMany({
+        where,
+        include: {
+          chef: {
+            select: { name: true },
+          },
+        },
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        skip,
+        take: pageSize,
+      }),
+    ]);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: entries.map((entry) => ({
+          id: entry.id,
+          actorChefId: entry.actorChefId,
+          actorName: entry.chef?.name ?? null,
+          entityType: entry.entityType,
+          entityId: entry.entityId,
+          action: entry.action,
+          before: entry.before,
+          after: entry.after,
+          createdAt: entry.createdAt,
+        })),
+        total,
+        current,
+        pageSize,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
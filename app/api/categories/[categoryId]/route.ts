@@ -0,0 +1,348 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { updateCategorySchema } from "@/lib/validations";
+import {
+  assertUniqueSiblingName,
+  assertValidParent,
+  buildCategoryPath,
+  loadCategories,
+} from "@/lib/categories";
+import {
+  AppError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+} from "@/lib/errors";
+
+/**
+ * GET /api/categories/[categoryId]
+ *
+ * Get a specific category by ID, with its full path from the top level
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ categoryId: string }> }
+) {
+  try {
+    await requireChef(request);
+
+    const { categoryId: categoryIdParam } = await context.params;
+    const categoryId = parseInt(categoryIdParam, 10);
+    if (isNaN(categoryId) || categoryId <= 0) {
+      throw new ValidationError("Invalid category ID");
+    }
+
+    const category = await prisma.ingredientcategory.findUnique({
+      where: { id: categoryId },
+      select: {
+        id: true,
+        name: true,
+        parentId: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+
+    if (!category) {
+      throw new NotFoundError("Category not found");
+    }
+
+    const categories = await loadCategories(prisma);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { ...category, path: buildCategoryPath(categories, categoryId) },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/categories/[categoryId]
+ *
+ * Rename a category or move it below another one (admins and head chefs only).
+ * A category cannot be moved below itself or one of its subcategories.
+ *
+ * Request body:
+ * {
+ *   "name": "Hard Cheese",
+ *   "parentId": 1  // optional, null moves the category to the top level
+ * }
+ */
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ categoryId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "ingredient:manage");
+
+    const { categoryId: categoryIdParam } = await context.params;
+    const categoryId = parseInt(categoryIdParam, 10);
+    if (isNaN(categoryId) || categoryId <= 0) {
+      throw new ValidationError("Invalid category ID");
+    }
+
+    const body = await request.json();
+    const validatedData = updateCategorySchema.parse(body);
+
+    const existingCategory = await prisma.ingredientcategory.findUnique({
+      where: { id: categoryId },
+    });
+
+    if (!existingCategory) {
+      throw new NotFoundError("Category not found");
+    }
+
+    const name = validatedData.name ?? existingCategory.name;
+    const parentId =
+      validatedData.parentId !== undefined
+        ? validatedData.parentId
+        : existingCategory.parentId;
+
+    await assertValidParent(prisma, categoryId, parentId);
+    await assertUniqueSiblingName(prisma, name, parentId, categoryId);
+
+    const category = await prisma.$transaction(async (tx) => {
+      const updatedCategory = await tx.ingredientcategory.update({
+        where: { id: categoryId },
+        data: { name, parentId, updatedAt: new Date() },
+      });
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "category",
+        entityId: categoryId,
+        action: "update",
+        before: existingCategory,
+        after: updatedCategory,
+      });
+
+      return updatedCategory;
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: category,
+        message: "Category updated successfully",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error && typeof error === "object" && "issues" in error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request data validation failed",
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/categories/[categoryId]
+ *
+ * Delete a category (admins and head chefs only). Rejected with a CONFLICT
+ * error while it still has subcategories or ingredients, move or delete those
+ * first.
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ categoryId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "ingredient:manage");
+
+    const { categoryId: categoryIdParam } = await context.params;
+    const categoryId = parseInt(categoryIdParam, 10);
+    if (isNaN(categoryId) || categoryId <= 0) {
+      throw new ValidationError("Invalid category ID");
+    }
+
+    const existingCategory = await prisma.ingredientcategory.findUnique({
+      where: { id: categoryId },
+    });
+
+    if (!existingCategory) {
+      throw new NotFoundError("Category not found");
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const [childCount, ingredientCount] = await Promise.all([
+        tx.ingredientcategory.count({ where: { parentId: categoryId } }),
+        tx.ingredient.count({ where: { categoryId, deletedAt: null } }),
+      ]);
+
+      if (childCount > 0 || ingredientCount > 0) {
+        throw new ConflictError(
+          `Category still has ${childCount} subcategory(ies) and ${ingredientCount} ingredient(s)`,
+          { childCount, ingredientCount }
+        );
+      }
+
+      // Deleted ingredients kept for dish history simply lose the category
+      await tx.ingredientcategory.delete({ where: { id: categoryId } });
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "category",
+        entityId: categoryId,
+        action: "delete",
+        before: existingCategory,
+      });
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { id: categoryId },
+        message: "Category deleted successfully",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error && typeof error === "object" && "issues" in error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request data validation failed",
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,185 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { createCategorySchema } from "@/lib/validations";
+import {
+  assertUniqueSiblingName,
+  assertValidParent,
+  buildCategoryTree,
+  loadCategories,
+} from "@/lib/categories";
+import { AppError, ValidationError } from "@/lib/errors";
+
+/**
+ * POST /api/categories
+ *
+ * Create a new ingredient category (admins and head chefs only)
+ *
+ * Request body:
+ * {
+ *   "name": "Cheese",
+ *   "parentId": 1  // optional, omit or null for a top-level category
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "ingredient:manage");
+
+    const body = await request.json();
+    const validatedData = createCategorySchema.parse(body);
+
+    await assertValidParent(prisma, null, validatedData.parentId);
+    await assertUniqueSiblingName(
+      prisma,
+      validatedData.name,
+      validatedData.parentId,
+      null
+    );
+
+    const now = new Date();
+    const category = await prisma.$transaction(async (tx) => {
+      const newCategory = await tx.ingredientcategory.create({
+        data: {
+          name: validatedData.name,
+          parentId: validatedData.parentId,
+          createdAt: now,
+          updatedAt: now,
+        },
+      });
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "category",
+        entityId: newCategory.id,
+        action: "create",
+        after: newCategory,
+      });
+
+      return newCategory;
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: category,
+        message: "Category created successfully",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error && typeof error === "object" && "issues" in error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request data validation failed",
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/categories
+ *
+ * Get all ingredient categories as a tree, each node has its subcategories in
+ * "children" and the number of ingredients directly in it in "ingredientCount"
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireChef(request);
+
+    const [categories, counts] = await Promise.all([
+      loadCategories(prisma),
+      prisma.ingredient.groupBy({
+        by: ["categoryId"],
+        where: { categoryId: { not: null }, deletedAt: null },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const ingredientCounts = new Map(
+      counts.map((count) => [count.categoryId!, count._count._all])
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: buildCategoryTree(categories, ingredientCounts),
+        total: categories.length,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
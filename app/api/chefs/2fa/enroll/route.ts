@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { generateTotpSecret, buildOtpauthUri } from "@/lib/totp";
+import { AppError, ConflictError } from "@/lib/errors";
+
+/**
+ * POST /api/chefs/2fa/enroll
+ *
+ * Start two-factor enrollment for the authenticated chef. A new TOTP secret
+ * is generated and returned together with an otpauth:// URI for
+ * authenticator apps. Two-factor stays disabled until a code generated from
+ * the secret is confirmed via POST /api/chefs/2fa/verify.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const currentChef = await requireChef(request);
+
+    const chef = await prisma.chef.findUnique({
+      where: { id: currentChef.id },
+      select: { totpEnabled: true },
+    });
+
+    if (chef?.totpEnabled) {
+      throw new ConflictError("Two-factor authentication is already enabled");
+    }
+
+    const secret = generateTotpSecret();
+
+    await prisma.chef.update({
+      where: { id: currentChef.id },
+      data: {
+        totpSecret: secret,
+        totpLastUsedStep: null,
+        updatedAt: new Date(),
+      },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          secret,
+          otpauthUri: buildOtpauthUri(secret, currentChef.username),
+        },
+        message: "Scan the secret with an authenticator app and confirm a code",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
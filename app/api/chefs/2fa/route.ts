@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { disableTwoFactorSchema } from "@/lib/validations";
+import { requireChef } from "@/lib/session";
+import { recordAudit } from "@/lib/audit";
+import { AppError, ValidationError, UnauthorizedError } from "@/lib/errors";
+import bcrypt from "bcryptjs";
+
+/**
+ * GET /api/chefs/2fa
+ *
+ * Two-factor authentication status of the authenticated chef
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const currentChef = await requireChef(request);
+
+    const chef = await prisma.chef.findUnique({
+      where: { id: currentChef.id },
+      select: { totpEnabled: true },
+    });
+
+    const recoveryCodesRemaining = await prisma.recoverycode.count({
+      where: { chefId: currentChef.id, usedAt: null },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          enabled: chef?.totpEnabled ?? false,
+          recoveryCodesRemaining: chef?.totpEnabled ? recoveryCodesRemaining : 0,
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/chefs/2fa
+ *
+ * Disable two-factor authentication for the authenticated chef. The secret
+ * and all recovery codes are removed.
+ *
+ * Request body:
+ * {
+ *   "password": "123456"
+ * }
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const currentChef = await requireChef(request);
+
+    const body = await request.json();
+    const validatedData = disableTwoFactorSchema.parse(body);
+
+    const chef = await prisma.chef.findUnique({
+      where: { id: currentChef.id },
+      select: { id: true, password: true, totpEnabled: true },
+    });
+
+    const isPasswordValid =
+      chef && (await bcrypt.compare(validatedData.password, chef.password));
+    if (!isPasswordValid) {
+      throw new UnauthorizedError("Password is incorrect");
+    }
+
+    const now = new Date();
+
+    await prisma.$transaction(async (tx) => {
+      await tx.chef.update({
+        where: { id: currentChef.id },
+        data: {
+          totpEnabled: false,
+          totpSecret: null,
+          totpLastUsedStep: null,
+          updatedAt: now,
+        },
+      });
+      await tx.recoverycode.deleteMany({ where: { chefId: currentChef.id } });
+
+      if (chef.totpEnabled) {
+        await recordAudit(tx, {
+          actorChefId: currentChef.id,
+          entityType: "chef",
+          entityId: currentChef.id,
+          action: "two_factor_disable",
+        });
+      }
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Two-factor authentication disabled",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error && typeof error === "object" && "issues" in error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request data validation failed",
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { verifyTwoFactorSchema } from "@/lib/validations";
+import { requireChef } from "@/lib/session";
+import { recordAudit } from "@/lib/audit";
+import { verifyTotp } from "@/lib/totp";
+import { generateRecoveryCodes, replaceRecoveryCodes } from "@/lib/two-factor";
+import { AppError, ValidationError, ConflictError } from "@/lib/errors";
+
+/**
+ * POST /api/chefs/2fa/verify
+ *
+ * Confirm two-factor enrollment with a code from the authenticator app.
+ * On success two-factor is enabled and a fresh set of single-use recovery
+ * codes is returned. The recovery codes are only shown this once.
+ *
+ * Request body:
+ * {
+ *   "code": "123456"
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const currentChef = await requireChef(request);
+
+    const body = await request.json();
+    const validatedData = verifyTwoFactorSchema.parse(body);
+
+    const chef = await prisma.chef.findUnique({
+      where: { id: currentChef.id },
+      select: { totpEnabled: true, totpSecret: true },
+    });
+
+    if (chef?.totpEnabled) {
+      throw new ConflictError("Two-factor authentication is already enabled");
+    }
+
+    if (!chef?.totpSecret) {
+      throw new ValidationError("Two-factor enrollment has not been started");
+    }
+
+    const step = verifyTotp(chef.totpSecret, validatedData.code);
+    if (step === null) {
+      throw new ValidationError("Invalid verification code");
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    const now = new Date();
+
+    await prisma.$transaction(async (tx) => {
+      await tx.chef.update({
+        where: { id: currentChef.id },
+        data: {
+          totpEnabled: true,
+          totpLastUsedStep: step,
+          updatedAt: now,
+        },
+      });
+      await replaceRecoveryCodes(tx, currentChef.id, recoveryCodes);
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "chef",
+        entityId: currentChef.id,
+        action: "two_factor_enable",
+      });
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { recoveryCodes },
+        message: "Two-factor authentication enabled",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error && typeof error === "object" && "issues" in error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request data validation failed",
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import {
+  AppError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+} from "@/lib/errors";
+
+/**
+ * POST /api/chefs/[chefId]/deactivate
+ *
+ * Deactivate a chef (admin only). Deactivated chefs can no longer log in,
+ * their sessions end immediately and they are hidden from the chef list.
+ * Their dishes and recipe history are kept and stay readable.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ chefId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "chef:manage");
+
+    const { chefId: chefIdParam } = await context.params;
+    const chefId = parseInt(chefIdParam, 10);
+    if (isNaN(chefId) || chefId <= 0) {
+      throw new ValidationError("Invalid chef ID");
+    }
+
+    if (chefId === currentChef.id) {
+      throw new ConflictError("You cannot deactivate your own account");
+    }
+
+    const chef = await prisma.chef.findUnique({
+      where: { id: chefId },
+      select: { id: true, role: true, active: true },
+    });
+
+    if (!chef) {
+      throw new NotFoundError("Chef not found");
+    }
+
+    if (!chef.active) {
+      throw new ConflictError("Chef is already deactivated");
+    }
+
+    // Make sure the system always keeps at least one active admin
+    if (chef.role === "admin") {
+      const adminCount = await prisma.chef.count({
+        where: { role: "admin", active: true },
+      });
+      if (adminCount <= 1) {
+        throw new ConflictError("Cannot deactivate the last admin");
+      }
+    }
+
+    const now = new Date();
+
+    const deactivatedChef = await prisma.$transaction(async (tx) => {
+      const updated = await tx.chef.update({
+        where: { id: chefId },
+        data: {
+          active: false,
+          deactivatedAt: now,
+          updatedAt: now,
+        },
+        select: {
+          id: true,
+          name: true,
+          username: true,
+          role: true,
+          active: true,
+          deactivatedAt: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      });
+
+      // Pending password reset links must not reactivate access
+      await tx.passwordresettoken.updateMany({
+        where: { chefId, usedAt: null },
+        data: { usedAt: now },
+      });
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "chef",
+        entityId: chefId,
+        action: "deactivate",
+        before: { active: true },
+        after: { active: false, deactivatedAt: now },
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: deactivatedChef,
+        message: "Chef deactivated successfully",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
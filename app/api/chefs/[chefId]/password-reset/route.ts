@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { generateToken, hashToken } from "@/lib/tokens";
+import { getNotifier } from "@/lib/notifier";
+import {
+  AppError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+} from "@/lib/errors";
+
+const DEFAULT_RESET_TOKEN_TTL_MINUTES = 60;
+
+function getResetTokenTtlMinutes() {
+  const ttl = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || "", 10);
+  return isNaN(ttl) || ttl <= 0 ? DEFAULT_RESET_TOKEN_TTL_MINUTES : ttl;
+}
+
+/**
+ * POST /api/chefs/[chefId]/password-reset
+ *
+ * Issue a one-time password reset token for a chef (admin only). The token is
+ * delivered to the chef through the configured notifier and never returned.
+ * Any previously issued, unused tokens of the chef are revoked.
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ chefId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "chef:manage");
+
+    const { chefId: chefIdParam } = await context.params;
+    const chefId = parseInt(chefIdParam, 10);
+    if (isNaN(chefId) || chefId <= 0) {
+      throw new ValidationError("Invalid chef ID");
+    }
+
+    const chef = await prisma.chef.findUnique({
+      where: { id: chefId },
+      select: { id: true, name: true, username: true, active: true },
+    });
+
+    if (!chef) {
+      throw new NotFoundError("Chef not found");
+    }
+
+    if (!chef.active) {
+      throw new ConflictError("Cannot reset the password of a deactivated chef");
+    }
+
+    const token = generateToken();
+    const now = new Date();
+    const expiresAt = new Date(
+      now.getTime() + getResetTokenTtlMinutes() * 60 * 1000
+    );
+
+    await prisma.$transaction(async (tx) => {
+      await tx.passwordresettoken.updateMany({
+        where: { chefId, usedAt: null },
+        data: { usedAt: now },
+      });
+
+      await tx.passwordresettoken.create({
+        data: {
+          chefId,
+          tokenHash: hashToken(token),
+          expiresAt,
+          createdById: currentChef.id,
+          createdAt: now,
+        },
+      });
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "chef",
+        entityId: chefId,
+        action: "password_reset_request",
+        after: { expiresAt },
+      });
+    });
+
+    const resetUrl = `${
+      new URL(request.url).origin
+    }/reset-password?token=${encodeURIComponent(token)}`;
+    await getNotifier().send({
+      to: { chefId: chef.id, username: chef.username, name: chef.name },
+      subject: "Reset your Dish Management System password",
+      body: `Hello ${chef.name},\n\nAn administrator has started a password reset for your account. Open the link below to choose a new password:\n\n${resetUrl}\n\nThe link can be used once and expires at ${expiresAt.toISOString()}.`,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { expiresAt },
+        message: "Password reset link sent",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import {
+  AppError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+} from "@/lib/errors";
+
+/**
+ * POST /api/chefs/[chefId]/reactivate
+ *
+ * Reactivate a previously deactivated chef (admin only)
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ chefId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "chef:manage");
+
+    const { chefId: chefIdParam } = await context.params;
+    const chefId = parseInt(chefIdParam, 10);
+    if (isNaN(chefId) || chefId <= 0) {
+      throw new ValidationError("Invalid chef ID");
+    }
+
+    const chef = await prisma.chef.findUnique({
+      where: { id: chefId },
+      select: { id: true, active: true, deactivatedAt: true },
+    });
+
+    if (!chef) {
+      throw new NotFoundError("Chef not found");
+    }
+
+    if (chef.active) {
+      throw new ConflictError("Chef is already active");
+    }
+
+    const reactivatedChef = await prisma.$transaction(async (tx) => {
+      const updated = await tx.chef.update({
+        where: { id: chefId },
+        data: {
+          active: true,
+          deactivatedAt: null,
+          updatedAt: new Date(),
+        },
+        select: {
+          id: true,
+          name: true,
+          username: true,
+          role: true,
+          active: true,
+          deactivatedAt: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      });
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "chef",
+        entityId: chefId,
+        action: "reactivate",
+        before: { active: false, deactivatedAt: chef.deactivatedAt },
+        after: { active: true },
+      });
+
+      return updated;
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: reactivatedChef,
+        message: "Chef reactivated successfully",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
 import { updateChefSchema } from "@/lib/validations";
-import { AppError, NotFoundError, ValidationError } from "@/lib/errors";
+import {
+  AppError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+} from "@/lib/errors";
 
 /**
  * GET /api/chefs/[chefId]
@@ -13,6 +21,8 @@ export async function GET(
   context: { params: Promise<{ chefId: string }> }
 ) {
   try {
+    await requireChef(request);
+
     const { chefId: chefIdParam } = await context.params;
     const chefId = parseInt(chefIdParam, 10);
     if (isNaN(chefId) || chefId <= 0) {
@@ -25,6 +35,9 @@ export async function GET(
         id: true,
         name: true,
         username: true,
+        role: true,
+        active: true,
+        deactivatedAt: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -72,11 +85,12 @@ export async function GET(
 /**
  * PUT /api/chefs/[chefId]
  *
- * Update a specific chef by ID
+ * Update a specific chef by ID (admin only)
  *
  * Request body:
  * {
- *   "name": "Updated Chef Name"
+ *   "name": "Updated Chef Name",
+ *   "role": "head_chef"  // optional
  * }
  */
 export async function PUT(
@@ -84,6 +98,9 @@ export async function PUT(
   context: { params: Promise<{ chefId: string }> }
 ) {
   try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "chef:manage");
+
     const { chefId: chefIdParam } = await context.params;
     const chefId = parseInt(chefIdParam, 10);
     if (isNaN(chefId) || chefId <= 0) {
@@ -96,13 +113,34 @@ export async function PUT(
     // Check if chef exists
     const existingChef = await prisma.chef.findUnique({
       where: { id: chefId },
-      select: { id: true },
+      select: {
+        id: true,
+        name: true,
+        username: true,
+        role: true,
+        active: true,
+      },
     });
 
     if (!existingChef) {
       throw new NotFoundError("Chef not found");
     }
 
+    // Make sure the system always keeps at least one active admin
+    if (
+      existingChef.role === "admin" &&
+      existingChef.active &&
+      validatedData.role &&
+      validatedData.role !== "admin"
+    ) {
+      const adminCount = await prisma.chef.count({
+        where: { role: "admin", active: true },
+      });
+      if (adminCount <= 1) {
+        throw new ConflictError("Cannot change the role of the last admin");
+      }
+    }
+
     // Check if another chef with the same name exists
     // const duplicateChef = await prisma.chef.findFirst({
     //   where: {
@@ -116,19 +154,42 @@ export async function PUT(
     //   throw new ConflictError(`A chef with the name "${validatedData.name}" already exists`)
     // }
 
-    const updatedChef = await prisma.chef.update({
-      where: { id: chefId },
-      data: {
-        name: validatedData.name,
-        updatedAt: new Date(),
-      },
-      select: {
-        id: true,
-        name: true,
-        username: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+    const updatedChef = await prisma.$transaction(async (tx) => {
+      const chef = await tx.chef.update({
+        where: { id: chefId },
+        data: {
+          name: validatedData.name,
+          ...(validatedData.role ? { role: validatedData.role } : {}),
+          updatedAt: new Date(),
+        },
+        select: {
+          id: true,
+          name: true,
+          username: true,
+          role: true,
+          active: true,
+          deactivatedAt: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      });
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "chef",
+        entityId: chefId,
+        action: "update",
+        before: existingChef,
+        after: {
+          id: chef.id,
+          name: chef.name,
+          username: chef.username,
+          role: chef.role,
+          active: chef.active,
+        },
+      });
+
+      return chef;
     });
 
     return NextResponse.json(
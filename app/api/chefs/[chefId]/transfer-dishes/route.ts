@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { transferDishSchema } from "@/lib/validations";
+import { transferDishes } from "@/lib/dish-transfer";
+import {
+  AppError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+} from "@/lib/errors";
+
+/**
+ * POST /api/chefs/[chefId]/transfer-dishes
+ *
+ * Transfer all dishes of a chef to another chef (admin and head chef only),
+ * e.g. before deactivating a chef who left. Name collisions are handled with
+ * onConflict like POST /api/dishes/[dishId]/transfer, with "fail" nothing is
+ * transferred and every collision is reported.
+ *
+ * Request body:
+ * {
+ *   "toChefId": 2,
+ *   "onConflict": "fail"  // optional, "fail" or "rename"
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ chefId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "dish:transfer");
+
+    const { chefId: chefIdParam } = await context.params;
+    const chefId = parseInt(chefIdParam, 10);
+    if (isNaN(chefId) || chefId <= 0) {
+      throw new ValidationError("Invalid chef ID");
+    }
+
+    const body = await request.json();
+    const validatedData = transferDishSchema.parse(body);
+
+    if (validatedData.toChefId === chefId) {
+      throw new ValidationError("Source and target chef must be different");
+    }
+
+    const chef = await prisma.chef.findUnique({
+      where: { id: chefId },
+      select: { id: true },
+    });
+
+    if (!chef) {
+      throw new NotFoundError("Chef not found");
+    }
+
+    const transferred = await prisma.$transaction(async (tx) => {
+      const dishes = await tx.dish.findMany({
+        where: { chefId },
+        select: { id: true },
+      });
+
+      if (dishes.length === 0) {
+        return [];
+      }
+
+      return transferDishes(tx, {
+        dishIds: dishes.map((dish) => dish.id),
+        toChefId: validatedData.toChefId,
+        onConflict: validatedData.onConflict,
+        actorChefId: currentChef.id,
+      });
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          fromChefId: chefId,
+          toChefId: validatedData.toChefId,
+          transferred,
+        },
+        message: `${transferred.length} dish(es) transferred successfully`,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error && typeof error === "object" && "issues" in error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request data validation failed",
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
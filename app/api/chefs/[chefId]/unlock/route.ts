@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { clearLoginFailures } from "@/lib/login-throttle";
+import { AppError, NotFoundError, ValidationError } from "@/lib/errors";
+
+/**
+ * POST /api/chefs/[chefId]/unlock
+ *
+ * Clear the failed login attempts and lockout of a chef (admin only)
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ chefId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "chef:manage");
+
+    const { chefId: chefIdParam } = await context.params;
+    const chefId = parseInt(chefIdParam, 10);
+    if (isNaN(chefId) || chefId <= 0) {
+      throw new ValidationError("Invalid chef ID");
+    }
+
+    const chef = await prisma.chef.findUnique({
+      where: { id: chefId },
+      select: { id: true, username: true },
+    });
+
+    if (!chef) {
+      throw new NotFoundError("Chef not found");
+    }
+
+    await clearLoginFailures(chef.username);
+    await recordAudit(prisma, {
+      actorChefId: currentChef.id,
+      entityType: "chef",
+      entityId: chef.id,
+      action: "unlock",
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Chef unlocked successfully",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,24 +1,66 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
-import { loginChefSchema } from "@/lib/validations";
-import { AppError, ValidationError, UnauthorizedError } from "@/lib/errors";
+import { loginChefSchema, loginTwoFactorSchema } from "@/lib/validations";
+import {
+  AppError,
+  ValidationError,
+  UnauthorizedError,
+  LockedError,
+} from "@/lib/errors";
+import {
+  createSessionToken,
+  createTwoFactorChallenge,
+  setSessionCookie,
+  verifyTwoFactorChallenge,
+} from "@/lib/session";
+import {
+  assertLoginAllowed,
+  clearLoginFailures,
+  getClientIp,
+  recordLoginFailure,
+} from "@/lib/login-throttle";
+import { verifySecondFactor } from "@/lib/two-factor";
 import bcrypt from "bcryptjs";
 
 /**
  * POST /api/chefs/login
  *
- * Login a chef with username and password
+ * Login a chef with username and password. On success a signed session
+ * cookie is issued which authenticates all subsequent API requests.
+ * Repeated failures lock the username (and the client IP when TRUST_PROXY is
+ * set) for a cooldown period, during which a LOCKED error with the remaining
+ * seconds is returned.
+ *
+ * When the chef has two-factor authentication enabled, the password step
+ * returns { twoFactorRequired: true, challengeToken } instead of a session.
+ * The client then posts the challenge token together with a TOTP code or
+ * a recovery code to complete the login.
  *
  * Request body:
  * {
  *   "username": "chef_john",
  *   "password": "password123"
  * }
+ *
+ * Second step request body:
+ * {
+ *   "challengeToken": "...",
+ *   "code": "123456"
+ * }
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
+
+    if (body && typeof body === "object" && "challengeToken" in body) {
+      return await completeTwoFactorLogin(request, body);
+    }
+
     const validatedData = loginChefSchema.parse(body);
+    const clientIp = getClientIp(request);
+
+    // Reject early while the username or IP is locked out
+    await assertLoginAllowed(validatedData.username, clientIp);
 
     // Find chef by username
     const chef = await prisma.chef.findUnique({
@@ -29,11 +71,15 @@ export async function POST(request: NextRequest) {
         id: true,
         name: true,
         username: true,
+        role: true,
         password: true,
+        active: true,
+        totpEnabled: true,
       },
     });
 
     if (!chef) {
+      await recordLoginFailure(validatedData.username, clientIp);
       throw new UnauthorizedError("Invalid username or password");
     }
 
@@ -44,23 +90,50 @@ export async function POST(request: NextRequest) {
     );
 
     if (!isPasswordValid) {
+      await recordLoginFailure(validatedData.username, clientIp);
       throw new UnauthorizedError("Invalid username or password");
     }
 
-    // Return chef info (without password)
-    return NextResponse.json(
-      {
-        success: true,
-        data: {
-          id: chef.id,
-          name: chef.name,
-          username: chef.username,
+    if (!chef.active) {
+      throw new UnauthorizedError("This account has been deactivated");
+    }
+
+    // Password is correct, but the session is only issued after the second factor
+    if (chef.totpEnabled) {
+      return NextResponse.json(
+        {
+          success: true,
+          data: {
+            twoFactorRequired: true,
+            challengeToken: createTwoFactorChallenge(chef.id),
+          },
+          message: "Two-factor authentication required",
         },
-        message: "Login successful",
-      },
-      { status: 200 }
-    );
+        { status: 200 }
+      );
+    }
+
+    await clearLoginFailures(validatedData.username);
+
+    return createLoginResponse(chef);
   } catch (error) {
+    if (error instanceof LockedError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: { retryAfterSeconds: error.retryAfterSeconds },
+          },
+        },
+        {
+          status: error.statusCode,
+          headers: { "Retry-After": error.retryAfterSeconds.toString() },
+        }
+      );
+    }
+
     if (error instanceof ValidationError) {
       return NextResponse.json(
         {
@@ -115,3 +188,74 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+// Second login step, the challenge token proves the password was already verified
+async function completeTwoFactorLogin(request: NextRequest, body: unknown) {
+  const validatedData = loginTwoFactorSchema.parse(body);
+  const clientIp = getClientIp(request);
+
+  const payload = verifyTwoFactorChallenge(validatedData.challengeToken);
+  if (!payload) {
+    throw new UnauthorizedError(
+      "Two-factor challenge has expired, please log in again"
+    );
+  }
+
+  const chef = await prisma.chef.findUnique({
+    where: { id: payload.chefId },
+    select: {
+      id: true,
+      name: true,
+      username: true,
+      role: true,
+      active: true,
+      totpEnabled: true,
+      totpSecret: true,
+      totpLastUsedStep: true,
+    },
+  });
+
+  if (!chef || !chef.active || !chef.totpEnabled) {
+    throw new UnauthorizedError(
+      "Two-factor challenge has expired, please log in again"
+    );
+  }
+
+  await assertLoginAllowed(chef.username, clientIp);
+
+  const isCodeValid = await verifySecondFactor(chef, validatedData.code);
+  if (!isCodeValid) {
+    await recordLoginFailure(chef.username, clientIp);
+    throw new UnauthorizedError("Invalid verification code");
+  }
+
+  await clearLoginFailures(chef.username);
+
+  return createLoginResponse(chef);
+}
+
+// Return chef info (without password) and issue the session cookie
+function createLoginResponse(chef: {
+  id: number;
+  name: string;
+  username: string;
+  role: string;
+}) {
+  const response = NextResponse.json(
+    {
+      success: true,
+      data: {
+        id: chef.id,
+        name: chef.name,
+        username: chef.username,
+        role: chef.role,
+      },
+      message: "Login successful",
+    },
+    { status: 200 }
+  );
+  const { token, expiresAt } = createSessionToken(chef.id);
+  setSessionCookie(response, token, expiresAt);
+
+  return response;
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { clearSessionCookie } from "@/lib/session";
+
+/**
+ * POST /api/chefs/logout
+ *
+ * Logout the current chef by clearing the session cookie
+ */
+export async function POST() {
+  const response = NextResponse.json(
+    {
+      success: true,
+      message: "Logout successful",
+    },
+    { status: 200 }
+  );
+  clearSessionCookie(response);
+
+  return response;
+}
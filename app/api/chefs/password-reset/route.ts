@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { resetPasswordSchema } from "@/lib/validations";
+import { recordAudit } from "@/lib/audit";
+import { hashToken } from "@/lib/tokens";
+import { clearLoginFailures } from "@/lib/login-throttle";
+import { AppError, ValidationError } from "@/lib/errors";
+import bcrypt from "bcryptjs";
+
+/**
+ * POST /api/chefs/password-reset
+ *
+ * Redeem a one-time password reset token and set a new password.
+ * Existing sessions of the chef are invalidated and any login lockout is cleared.
+ *
+ * Request body:
+ * {
+ *   "token": "reset-token-from-the-notification",
+ *   "newPassword": "654321"
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const validatedData = resetPasswordSchema.parse(body);
+
+    const resetToken = await prisma.passwordresettoken.findUnique({
+      where: { tokenHash: hashToken(validatedData.token) },
+      include: {
+        chef: { select: { id: true, username: true, active: true } },
+      },
+    });
+
+    const now = new Date();
+    if (
+      !resetToken ||
+      resetToken.usedAt ||
+      resetToken.expiresAt <= now ||
+      !resetToken.chef.active
+    ) {
+      throw new ValidationError("Reset link is invalid or has expired");
+    }
+
+    const hashedPassword = await bcrypt.hash(validatedData.newPassword, 10);
+
+    await prisma.$transaction(async (tx) => {
+      // Mark the token used first so it can only be redeemed once
+      const { count } = await tx.passwordresettoken.updateMany({
+        where: { id: resetToken.id, usedAt: null },
+        data: { usedAt: now },
+      });
+      if (count === 0) {
+        throw new ValidationError("Reset link is invalid or has expired");
+      }
+
+      await tx.chef.update({
+        where: { id: resetToken.chefId },
+        data: {
+          password: hashedPassword,
+          passwordChangedAt: now,
+          updatedAt: now,
+        },
+      });
+
+      await recordAudit(tx, {
+        actorChefId: resetToken.chefId,
+        entityType: "chef",
+        entityId: resetToken.chefId,
+        action: "password_reset",
+      });
+    });
+
+    await clearLoginFailures(resetToken.chef.username);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: "Password reset successfully",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error && typeof error === "object" && "issues" in error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request data validation failed",
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { changePasswordSchema } from "@/lib/validations";
+import {
+  requireChef,
+  createSessionToken,
+  setSessionCookie,
+} from "@/lib/session";
+import { recordAudit } from "@/lib/audit";
+import { AppError, ValidationError, UnauthorizedError } from "@/lib/errors";
+import bcrypt from "bcryptjs";
+
+/**
+ * PUT /api/chefs/password
+ *
+ * Change the password of the authenticated chef. Other sessions of the chef
+ * are invalidated and a fresh session cookie is issued for this one.
+ *
+ * Request body:
+ * {
+ *   "currentPassword": "123456",
+ *   "newPassword": "654321"
+ * }
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const currentChef = await requireChef(request);
+
+    const body = await request.json();
+    const validatedData = changePasswordSchema.parse(body);
+
+    const chef = await prisma.chef.findUnique({
+      where: { id: currentChef.id },
+      select: { id: true, password: true },
+    });
+
+    const isPasswordValid =
+      chef &&
+      (await bcrypt.compare(validatedData.currentPassword, chef.password));
+    if (!isPasswordValid) {
+      throw new UnauthorizedError("Current password is incorrect");
+    }
+
+    const hashedPassword = await bcrypt.hash(validatedData.newPassword, 10);
+    const now = new Date();
+
+    await prisma.$transaction(async (tx) => {
+      await tx.chef.update({
+        where: { id: currentChef.id },
+        data: {
+          password: hashedPassword,
+          passwordChangedAt: now,
+          updatedAt: now,
+        },
+      });
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "chef",
+        entityId: currentChef.id,
+        action: "password_change",
+      });
+    });
+
+    const response = NextResponse.json(
+      {
+        success: true,
+        message: "Password changed successfully",
+      },
+      { status: 200 }
+    );
+    const { token, expiresAt } = createSessionToken(currentChef.id);
+    setSessionCookie(response, token, expiresAt);
+
+    return response;
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error && typeof error === "object" && "issues" in error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request data validation failed",
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
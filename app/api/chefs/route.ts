@@ -1,23 +1,52 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { getUsernameLocks } from "@/lib/login-throttle";
 import { createChefSchema } from "@/lib/validations";
 import { AppError, ValidationError, ConflictError } from "@/lib/errors";
+import { Prisma } from "@prisma/client";
 import bcrypt from "bcryptjs";
 
+const BOOTSTRAP_TAKEN_MESSAGE =
+  "The first chef has already been created, sign in as an admin to add chefs";
+
+// The serializable transaction of one of two first registrations at once fails
+function isWriteConflictError(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2034"
+  );
+}
+
 /**
  * POST /api/chefs
  *
- * Create a new chef
+ * Create a new chef. Only admins can create chefs, except for the very first
+ * chef which is created as an admin to bootstrap an empty system. Of two
+ * first registrations at once only one becomes the admin, the other is
+ * rejected with a CONFLICT error.
  *
  * Request body:
  * {
  *   "name": "Chef John"
  *   "username": "ChefJohn1",
- *   "password": "123456"
+ *   "password": "123456",
+ *   "role": "cook"  // optional: admin | head_chef | cook, defaults to cook
  * }
  */
 export async function POST(request: NextRequest) {
   try {
+    const chefCount = await prisma.chef.count();
+    const isBootstrap = chefCount === 0;
+    let actorChefId: number | null = null;
+    if (!isBootstrap) {
+      const currentChef = await requireChef(request);
+      requirePermission(currentChef, "chef:manage");
+      actorChefId = currentChef.id;
+    }
+
     const body = await request.json();
     const validatedData = createChefSchema.parse(body);
 
@@ -39,15 +68,52 @@ export async function POST(request: NextRequest) {
     const hashedPassword = await bcrypt.hash(validatedData.password, 10);
     const now = new Date();
 
-    const chef = await prisma.chef.create({
-      data: {
-        name: validatedData.name,
-        username: validatedData.username,
-        password: hashedPassword,
-        createdAt: now,
-        updatedAt: now,
-      },
-    });
+    const chef = await prisma
+      .$transaction(
+        async (tx) => {
+          // Serializable reads lock the range they counted, so a chef created
+          // since the check above makes one of the transactions fail
+          if (isBootstrap && (await tx.chef.count()) > 0) {
+            throw new ConflictError(BOOTSTRAP_TAKEN_MESSAGE);
+          }
+
+          const newChef = await tx.chef.create({
+            data: {
+              name: validatedData.name,
+              username: validatedData.username,
+              password: hashedPassword,
+              role: isBootstrap ? "admin" : validatedData.role ?? "cook",
+              createdAt: now,
+              updatedAt: now,
+            },
+            select: {
+              id: true,
+              name: true,
+              username: true,
+              role: true,
+            },
+          });
+
+          await recordAudit(tx, {
+            actorChefId,
+            entityType: "chef",
+            entityId: newChef.id,
+            action: "create",
+            after: newChef,
+          });
+
+          return newChef;
+        },
+        isBootstrap
+          ? { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+          : undefined
+      )
+      .catch((error) => {
+        if (isBootstrap && isWriteConflictError(error)) {
+          throw new ConflictError(BOOTSTRAP_TAKEN_MESSAGE);
+        }
+        throw error;
+      });
 
     return NextResponse.json(
       {
@@ -56,6 +122,7 @@ export async function POST(request: NextRequest) {
           id: chef.id,
           name: chef.name,
           username: chef.username,
+          role: chef.role,
           createdAt: now,
           updatedAt: now,
         },
@@ -122,24 +189,33 @@ export async function POST(request: NextRequest) {
 /**
  * GET /api/chefs
  *
- * Get all chefs
+ * Get all chefs, including the lockout expiry of chefs locked out after
+ * failed login attempts. Deactivated chefs are only included when
+ * includeInactive=true is passed.
  */
 export async function GET(request: NextRequest) {
   try {
+    await requireChef(request);
+
     const { searchParams } = new URL(request.url);
     const current = parseInt(searchParams.get("current") || "1", 10);
     const pageSize = parseInt(searchParams.get("pageSize") || "10", 10);
     const skip = (current - 1) * pageSize;
 
     const search = searchParams.get("search")?.trim();
-    const where = search
-      ? {
-          OR: [
-            { name: { contains: search } },
-            { username: { contains: search } },
-          ],
-        }
-      : undefined;
+    // Deactivated chefs are hidden unless explicitly requested
+    const includeInactive = searchParams.get("includeInactive") === "true";
+    const where = {
+      ...(includeInactive ? {} : { active: true }),
+      ...(search
+        ? {
+            OR: [
+              { name: { contains: search } },
+              { username: { contains: search } },
+            ],
+          }
+        : {}),
+    };
 
     const [total, chefs] = await Promise.all([
       prisma.chef.count({ where }),
@@ -149,6 +225,9 @@ export async function GET(request: NextRequest) {
           id: true,
           name: true,
           username: true,
+          role: true,
+          active: true,
+          deactivatedAt: true,
           createdAt: true,
           updatedAt: true,
         },
@@ -160,10 +239,15 @@ export async function GET(request: NextRequest) {
       }),
     ]);
 
+    const locks = await getUsernameLocks(chefs.map((chef) => chef.username));
+
     return NextResponse.json(
       {
         success: true,
-        data: chefs,
+        data: chefs.map((chef) => ({
+          ...chef,
+          lockedUntil: locks[chef.username] ?? null,
+        })),
         total,
         current,
         pageSize,
@@ -171,6 +255,19 @@ export async function GET(request: NextRequest) {
       { status: 200 }
     );
   } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
     console.error("Unexpected error:", error);
     return NextResponse.json(
       {
@@ -1,5 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import {
+  formatHistoricalDishIngredient,
+  toNutritionLine,
+  toCostLine,
+} from "@/lib/dish-ingredients";
+import { NUTRITION_SELECT, computeDishNutrition } from "@/lib/nutrition";
+import { computeDishCost } from "@/lib/costing";
+import {
+  loadCostPrices,
+  parseAsOf,
+  parsePriceSource,
+} from "@/lib/ingredient-prices";
+import { ALLERGEN_SELECT, combineAllergens } from "@/lib/allergens";
 import {
   AppError,
   NotFoundError,
@@ -11,19 +25,31 @@ import {
  * GET /api/dishes/[dishId]/ingredients/history
  *
  * Get all versioned ingredient histories for a specific dish, grouped by versionNumber.
- *
- * Headers:
- * - X-Chef-Id: Chef ID (optional, for authorization)
+ * Each line shows the ingredient name and unit recorded with the version, the
+ * live ingredient is linked in "ingredient". "allergens" of each version are
+ * those currently flagged on the ingredients the version used, "nutrition" is
+ * computed from the amounts, units and servings recorded with the version.
+ * Versions recorded before servings were snapshotted use the dish's current
+ * servings. "cost" of
+ * each version uses the same amounts with the ingredient prices effective at
+ * the asOf query parameter (ISO date, defaults to now), or the supplier
+ * prices selected by priceSource ("preferred" or "cheapest").
+ * Ownership transfers of the dish are returned unpaged in "transfers", each
+ * with the version that was current when the dish was transferred.
  */
 export async function GET(
   request: NextRequest,
   context: { params: Promise<{ dishId: string }> }
 ) {
   try {
+    await requireChef(request);
+
     const { searchParams } = new URL(request.url);
     const current = parseInt(searchParams.get("current") || "1", 10);
     const pageSize = parseInt(searchParams.get("pageSize") || "10", 10);
     const offset = (current - 1) * pageSize;
+    const asOf = parseAsOf(searchParams.get("asOf"));
+    const priceSource = parsePriceSource(searchParams.get("priceSource"));
 
     const { dishId: dishIdParam } = await context.params;
     const dishId = parseInt(dishIdParam, 10);
@@ -31,8 +57,6 @@ export async function GET(
       throw new ValidationError("Invalid dish ID");
     }
 
-    const chefIdHeader = request.headers.get("x-chef-id");
-
     const dish = await prisma.dish.findUnique({
       where: { id: dishId },
       select: {
@@ -40,6 +64,7 @@ export async function GET(
         name: true,
         chefId: true,
         versionNumber: true,
+        servings: true,
         updatedAt: true,
         createdAt: true,
       },
@@ -49,74 +74,117 @@ export async function GET(
       throw new NotFoundError("Dish not found");
     }
 
-    if (chefIdHeader) {
-      const chefId = parseInt(chefIdHeader, 10);
-      if (isNaN(chefId) || chefId <= 0) {
-        throw new ValidationError("Invalid chef ID");
-      }
-      // if (dish.chefId !== chefId) {
-      //   throw new UnauthorizedError('You do not have permission to view this dish')
-      // }
-    }
+    // if (dish.chefId !== chef.id) {
+    //   throw new UnauthorizedError('You do not have permission to view this dish')
+    // }
 
     const rows = await prisma.dishingredient.findMany({
       where: { dishId },
       include: {
-        ingredient: { select: { id: true, name: true, unit: true } },
+        ingredient: {
+          select: {
+            id: true,
+            name: true,
+            unit: true,
+            density: true,
+            ...ALLERGEN_SELECT,
+            ...NUTRITION_SELECT,
+          },
+        },
       },
       orderBy: [{ versionNumber: "desc" }, { ingredientId: "asc" }],
     });
 
+    const prices = await loadCostPrices(
+      prisma,
+      rows.map((row) => row.ingredientId),
+      asOf,
+      priceSource
+    );
+
     const grouped: Array<{
       versionNumber: number;
-      ingredients: Array<{
-        ingredientId: number;
-        ingredientName: string;
-        ingredientUnit: string;
-        ingredientAmount: number;
-      }>;
+      ingredients: Array<ReturnType<typeof formatHistoricalDishIngredient>>;
+      allergens: ReturnType<typeof combineAllergens>;
+      nutrition: ReturnType<typeof computeDishNutrition>;
+      cost: ReturnType<typeof computeDishCost>;
     }> = [];
 
     let currentVersion = -1;
-    let bucket: Array<{
-      ingredientId: number;
-      ingredientName: string;
-      ingredientUnit: string;
-      ingredientAmount: number;
-    }> = [];
+    let bucket: Array<ReturnType<typeof formatHistoricalDishIngredient>> = [];
+    let bucketRows: typeof rows = [];
+
+    const pushVersion = () => {
+      grouped.push({
+        versionNumber: currentVersion,
+        ingredients: bucket,
+        allergens: combineAllergens(bucketRows.map((row) => row.ingredient)),
+        nutrition: computeDishNutrition(
+          bucketRows.map((row) => toNutritionLine(row, true)),
+          bucketRows[0].servings ?? dish.servings
+        ),
+        cost: computeDishCost(
+          bucketRows.map((row) => toCostLine(row, true)),
+          prices,
+          asOf,
+          priceSource
+        ),
+      });
+    };
 
     for (const row of rows as Array<any>) {
       if (row.versionNumber !== currentVersion) {
         if (bucket.length > 0) {
-          grouped.push({ versionNumber: currentVersion, ingredients: bucket });
+          pushVersion();
         }
         currentVersion = row.versionNumber;
         bucket = [];
+        bucketRows = [];
       }
-      bucket.push({
-        ingredientId: row.ingredientId,
-        ingredientName: row.ingredient.name,
-        ingredientUnit: row.ingredient.unit,
-        ingredientAmount: row.ingredientAmount,
-      });
+      bucket.push(formatHistoricalDishIngredient(row));
+      bucketRows.push(row);
     }
     if (bucket.length > 0) {
-      grouped.push({ versionNumber: currentVersion, ingredients: bucket });
+      pushVersion();
     }
 
     const total = grouped.length;
     const pagedHistories = grouped.slice(offset, offset + pageSize);
 
+    const transfers = await prisma.dishtransfer.findMany({
+      where: { dishId },
+      include: {
+        fromChef: { select: { name: true } },
+        toChef: { select: { name: true } },
+        transferredBy: { select: { name: true } },
+      },
+      orderBy: { createdAt: "desc" },
+    });
+
     const response = {
       dish: {
         id: dish.id,
         name: dish.name,
         chefId: dish.chefId,
         currentVersionNumber: dish.versionNumber,
+        servings: dish.servings,
         createdAt: dish.createdAt,
         updatedAt: dish.updatedAt,
       },
       histories: pagedHistories,
+      transfers: transfers.map((transfer) => ({
+        id: transfer.id,
+        fromChefId: transfer.fromChefId,
+        fromChefName: transfer.fromChef.name,
+        toChefId: transfer.toChefId,
+        toChefName: transfer.toChef.name,
+        previousName: transfer.previousName,
+        newName: transfer.newName,
+        versionNumber: transfer.versionNumber,
+        transferredById: transfer.transferredById,
+        transferredByName: transfer.transferredBy?.name ?? null,
+        createdAt: transfer.createdAt,
+      })),
     };
 
     return NextResponse.json(
@@ -1,6 +1,24 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { updateDishIngredientsSchema } from "@/lib/validations";
+import { requireChef } from "@/lib/session";
+import { canEditDish } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import {
+  resolveDishIngredients,
+  formatDishIngredient,
+  snapshotLegacyDishServings,
+  toNutritionLine,
+  toCostLine,
+} from "@/lib/dish-ingredients";
+import { NUTRITION_SELECT, computeDishNutrition } from "@/lib/nutrition";
+import { computeDishCost } from "@/lib/costing";
+import {
+  loadCostPrices,
+  parseAsOf,
+  parsePriceSource,
+} from "@/lib/ingredient-prices";
+import { ALLERGEN_SELECT, combineAllergens } from "@/lib/allergens";
 import {
   AppError,
   NotFoundError,
@@ -12,7 +30,8 @@ import {
 /**
  * PUT /api/dishes/[dishId]/ingredients
  *
- * Update ingredients and optionally dish name for a specific chef's dish
+ * Update ingredients and optionally dish name for a dish. Cooks can only
+ * update their own dishes, head chefs and admins can update any dish.
  *
  * Request body:
  * {
@@ -20,12 +39,13 @@ import {
  *   "ingredients": [
  *     { "ingredientId": 1, "ingredientAmount": 30.5 },
  *     { "ingredientId": 2, "ingredientAmount": 40.2 },
- *     { "ingredientId": 3, "ingredientAmount": 29.3 }
- *   ]
+ *     { "ingredientId": 3, "ingredientAmount": 2, "unit": "tbsp" }
+ *   ],
+ *   "servings": 4  // optional
  * }
  *
- * Headers:
- * - X-Chef-Id: Chef ID (required, for authorization)
+ * "unit" is optional and may be any unit compatible with the ingredient's
+ * unit, the amount is stored converted to the ingredient's unit.
  */
 export async function PUT(
   request: NextRequest,
@@ -39,16 +59,8 @@ export async function PUT(
       throw new ValidationError("Invalid dish ID");
     }
 
-    // Get chefId from headers
-    const chefIdHeader = request.headers.get("x-chef-id");
-    if (!chefIdHeader) {
-      throw new ValidationError("Missing required header: X-Chef-Id");
-    }
-
-    const chefId = parseInt(chefIdHeader, 10);
-    if (isNaN(chefId) || chefId <= 0) {
-      throw new ValidationError("Invalid chef ID");
-    }
+    // Resolve the chef from the session
+    const chef = await requireChef(request);
 
     // Parse and validate request body
     const body = await request.json();
@@ -56,9 +68,10 @@ export async function PUT(
       dishId,
       name: body.name,
       ingredients: body.ingredients,
+      servings: body.servings,
     });
 
-    // Verify dish exists and belongs to the chef
+    // Verify dish exists and the chef is allowed to modify it
     const dish = await prisma.dish.findUnique({
       where: { id: dishId },
       select: {
@@ -66,6 +79,7 @@ export async function PUT(
         chefId: true,
         name: true,
         versionNumber: true,
+        servings: true,
       },
     });
 
@@ -73,17 +87,17 @@ export async function PUT(
       throw new NotFoundError("Dish not found");
     }
 
-    if (dish.chefId !== chefId) {
+    if (!canEditDish(chef, dish)) {
       throw new UnauthorizedError(
         "You do not have permission to modify this dish"
       );
     }
 
-    // If name is provided, check if it conflicts with another dish for this chef
+    // If name is provided, check if it conflicts with another dish of the owner
     if (validatedData.name && validatedData.name !== dish.name) {
       const existingDish = await prisma.dish.findFirst({
         where: {
-          chefId,
+          chefId: dish.chefId,
           name: validatedData.name,
           id: { not: dishId }, // Exclude current dish
         },
@@ -97,46 +111,25 @@ export async function PUT(
       }
     }
 
-    // Verify all ingredients exist
-    const ingredientIds = validatedData.ingredients.map(
-      (ing) => ing.ingredientId
-    );
-    const existingIngredients = await prisma.ingredient.findMany({
-      where: {
-        id: { in: ingredientIds },
-      },
-      select: { id: true },
-    });
-
-    const existingIngredientIds = new Set(
-      existingIngredients.map((ing: { id: number }) => ing.id)
-    );
-    const missingIngredientIds = ingredientIds.filter(
-      (id) => !existingIngredientIds.has(id)
-    );
-
-    if (missingIngredientIds.length > 0) {
-      throw new NotFoundError(
-        `The following ingredients do not exist: ${missingIngredientIds.join(
-          ", "
-        )}`
+    const result = await prisma.$transaction(async (tx) => {
+      const now = new Date();
+      // Verify all ingredients exist and normalize amounts to each ingredient's unit
+      const ingredients = await resolveDishIngredients(
+        tx,
+        validatedData.ingredients
       );
-    }
 
-    // Check for duplicate ingredient IDs
-    const uniqueIngredientIds = new Set(ingredientIds);
-    if (uniqueIngredientIds.size !== ingredientIds.length) {
-      throw new ValidationError(
-        "Duplicate ingredient IDs found in the ingredients list"
-      );
-    }
+      const previousIngredients = await tx.dishingredient.findMany({
+        where: { dishId, versionNumber: dish.versionNumber },
+        select: { ingredientId: true, ingredientAmount: true },
+        orderBy: { ingredientId: "asc" },
+      });
 
-    const result = await prisma.$transaction(async (tx) => {
-      const now = new Date();
       // Prepare update data
       const updateData: {
         versionNumber: { increment: number };
         name?: string;
+        servings?: number;
         updatedAt: Date;
       } = {
         versionNumber: { increment: 1 },
@@ -147,6 +140,11 @@ export async function PUT(
       if (validatedData.name) {
         updateData.name = validatedData.name;
       }
+      if (validatedData.servings) {
+        updateData.servings = validatedData.servings;
+        // Earlier versions keep the servings they were made for
+        await snapshotLegacyDishServings(tx, dish);
+      }
 
       // Increment version number and optionally update name
       const updatedDish = await tx.dish.update({
@@ -157,16 +155,22 @@ export async function PUT(
           name: true,
           chefId: true,
           versionNumber: true,
+          servings: true,
           updatedAt: true,
         },
       });
 
       // Create new ingredient associations for the new version (keep history)
       await tx.dishingredient.createMany({
-        data: validatedData.ingredients.map((ing) => ({
+        data: ingredients.map((ing) => ({
           dishId,
           ingredientId: ing.ingredientId,
           ingredientAmount: ing.ingredientAmount,
+          enteredAmount: ing.enteredAmount,
+          enteredUnit: ing.enteredUnit,
+          ingredientName: ing.ingredientName,
+          ingredientUnit: ing.ingredientUnit,
+          servings: updatedDish.servings,
           versionNumber: updatedDish.versionNumber,
           createdAt: now,
           updatedAt: now,
@@ -177,7 +181,9 @@ export async function PUT(
       const allIngredients = await tx.dishingredient.findMany({
         where: { dishId },
         include: {
-          ingredient: { select: { id: true, name: true, unit: true } },
+          ingredient: {
+            select: { id: true, name: true, unit: true, ...ALLERGEN_SELECT },
+          },
         },
         orderBy: { ingredientId: "asc" },
       });
@@ -186,6 +192,21 @@ export async function PUT(
         (di) => di.versionNumber === updatedDish.versionNumber
       );
 
+      await recordAudit(tx, {
+        actorChefId: chef.id,
+        entityType: "dish",
+        entityId: dishId,
+        action: "update",
+        before: { ...dish, ingredients: previousIngredients },
+        after: {
+          id: updatedDish.id,
+          name: updatedDish.name,
+          chefId: updatedDish.chefId,
+          versionNumber: updatedDish.versionNumber,
+          ingredients,
+        },
+      });
+
       return { dish: updatedDish, ingredients: currentIngredients };
     });
 
@@ -195,12 +216,11 @@ export async function PUT(
       name: result.dish.name,
       chefId: result.dish.chefId,
       versionNumber: result.dish.versionNumber,
-      ingredients: result.ingredients.map((di) => ({
-        ingredientId: di.ingredientId,
-        ingredientName: di.ingredient.name,
-        ingredientUnit: di.ingredient.unit,
-        ingredientAmount: di.ingredientAmount,
-      })),
+      servings: result.dish.servings,
+      ingredients: result.ingredients.map(formatDishIngredient),
+      allergens: combineAllergens(
+        result.ingredients.map((di) => di.ingredient)
+      ),
       updatedAt: result.dish.updatedAt,
     };
 
@@ -275,10 +295,20 @@ export async function PUT(
 /**
  * GET /api/dishes/[dishId]/ingredients
  *
- * Get ingredient information for a specific dish
+ * Get ingredient information for a dish. Cooks can only view their own
+ * dishes, head chefs and admins can view any dish.
+ *
+ * "nutrition" holds the totals and per-serving values of the current version.
+ * Lines without nutrition data or whose amount cannot be converted to the
+ * ingredient's nutrition basis are listed in skippedLines and not counted.
+ * Mass and volume convert with the ingredient's density, lines that only
+ * lack a density are reported with reason "density_required", in skippedLines
+ * as well as in the cost lines.
  *
- * Headers:
- * - X-Chef-Id: Chef ID (optional, for authorization)
+ * "cost" holds the cost of each line and the total, using the ingredient
+ * prices effective at the asOf query parameter (ISO date, defaults to now).
+ * priceSource "preferred" or "cheapest" uses the ingredient's preferred or
+ * cheapest supplier instead, falling back to the recorded price.
  */
 export async function GET(
   request: NextRequest,
@@ -291,7 +321,11 @@ export async function GET(
       throw new ValidationError("Invalid dish ID");
     }
 
-    const chefIdHeader = request.headers.get("x-chef-id");
+    const chef = await requireChef(request);
+    const { searchParams } = new URL(request.url);
+    const asOf = parseAsOf(searchParams.get("asOf"));
+    const priceSource = parsePriceSource(searchParams.get("priceSource"));
+
     // Fetch dish metadata first
     const dish = await prisma.dish.findUnique({
       where: { id: dishId },
@@ -300,6 +334,7 @@ export async function GET(
         name: true,
         chefId: true,
         versionNumber: true,
+        servings: true,
         updatedAt: true,
       },
     });
@@ -308,17 +343,11 @@ export async function GET(
       throw new NotFoundError("Dish not found");
     }
 
-    // If chefId is provided, verify authorization
-    if (chefIdHeader) {
-      const chefId = parseInt(chefIdHeader, 10);
-      if (isNaN(chefId) || chefId <= 0) {
-        throw new ValidationError("Invalid chef ID");
-      }
-      if (dish.chefId !== chefId) {
-        throw new UnauthorizedError(
-          "You do not have permission to view this dish"
-        );
-      }
+    // Verify authorization
+    if (!canEditDish(chef, dish)) {
+      throw new UnauthorizedError(
+        "You do not have permission to view this dish"
+      );
     }
 
     // Fetch only current version ingredients
@@ -326,7 +355,14 @@ export async function GET(
       where: { dishId },
       include: {
         ingredient: {
-          select: { id: true, name: true, unit: true },
+          select: {
+            id: true,
+            name: true,
+            unit: true,
+            density: true,
+            ...ALLERGEN_SELECT,
+            ...NUTRITION_SELECT,
+          },
         },
       },
       orderBy: { ingredientId: "asc" },
@@ -336,17 +372,33 @@ export async function GET(
       (di) => di.versionNumber === dish.versionNumber
     );
 
+    const prices = await loadCostPrices(
+      prisma,
+      currentIngredients.map((di) => di.ingredientId),
+      asOf,
+      priceSource
+    );
+
     const response = {
       id: dish.id,
       name: dish.name,
       chefId: dish.chefId,
       versionNumber: dish.versionNumber,
-      ingredients: currentIngredients.map((di) => ({
-        ingredientId: di.ingredientId,
-        ingredientName: di.ingredient.name,
-        ingredientUnit: di.ingredient.unit,
-        ingredientAmount: di.ingredientAmount,
-      })),
+      servings: dish.servings,
+      ingredients: currentIngredients.map(formatDishIngredient),
+      allergens: combineAllergens(
+        currentIngredients.map((di) => di.ingredient)
+      ),
+      nutrition: computeDishNutrition(
+        currentIngredients.map((di) => toNutritionLine(di)),
+        dish.servings
+      ),
+      cost: computeDishCost(
+        currentIngredients.map((di) => toCostLine(di)),
+        prices,
+        asOf,
+        priceSource
+      ),
       updatedAt: dish.updatedAt,
     };
 
@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { canEditDish } from "@/lib/permissions";
+import {
+  ALLERGEN_SELECT,
+  combineAllergens,
+  getAllergenLabel,
+} from "@/lib/allergens";
+import {
+  SHELF_LIFE_SELECT,
+  computeBatchShelfLife,
+  computeUseBy,
+  formatShelfLife,
+  getStorageLabel,
+} from "@/lib/shelf-life";
+import { parseLabelOptions, renderLabelPage } from "@/lib/labels";
+import {
+  AppError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from "@/lib/errors";
+
+/**
+ * GET /api/dishes/[dishId]/label
+ *
+ * Render a printable HTML prep label for a batch of a dish. The batch keeps as
+ * long as the most perishable ingredient of the current version: the use-by
+ * time is preparedAt plus the shortest shelf life among them under the storage
+ * condition. No label is printed while any ingredient has no shelf life for the
+ * condition, as the use-by time could be later than it keeps. Cooks can only
+ * print labels for their own dishes, head chefs and admins for any dish.
+ *
+ * Query parameters:
+ *   storage     ambient, chilled (default) or frozen
+ *   preparedAt  ISO date, defaults to now
+ *   timeZone    IANA time zone the times are printed in, e.g. Europe/Berlin
+ *   copies      number of labels on the page, 1 to 100, defaults to 1
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ dishId: string }> }
+) {
+  try {
+    const { dishId: dishIdParam } = await context.params;
+    const dishId = parseInt(dishIdParam, 10);
+    if (isNaN(dishId) || dishId <= 0) {
+      throw new ValidationError("Invalid dish ID");
+    }
+
+    const chef = await requireChef(request);
+    const { searchParams } = new URL(request.url);
+    const options = parseLabelOptions(searchParams);
+
+    const dish = await prisma.dish.findUnique({
+      where: { id: dishId },
+      select: {
+        id: true,
+        name: true,
+        chefId: true,
+        versionNumber: true,
+        servings: true,
+      },
+    });
+
+    if (!dish) {
+      throw new NotFoundError("Dish not found");
+    }
+
+    if (!canEditDish(chef, dish)) {
+      throw new UnauthorizedError(
+        "You do not have permission to view this dish"
+      );
+    }
+
+    const currentIngredients = await prisma.dishingredient.findMany({
+      where: { dishId, versionNumber: dish.versionNumber },
+      select: {
+        ingredientId: true,
+        ingredient: {
+          select: { name: true, ...ALLERGEN_SELECT, ...SHELF_LIFE_SELECT },
+        },
+      },
+      orderBy: { ingredientId: "asc" },
+    });
+
+    const shelfLife = computeBatchShelfLife(
+      currentIngredients.map((row) => ({
+        ingredientId: row.ingredientId,
+        ingredientName: row.ingredient.name,
+        shelfLife: row.ingredient,
+      })),
+      options.storage
+    );
+    const namesOf = (ingredients: Array<{ ingredientName: string }>) =>
+      ingredients.map((ingredient) => ingredient.ingredientName).join(", ");
+    const storedAs = getStorageLabel(options.storage).toLowerCase();
+    if (shelfLife.unknownIngredients.length > 0) {
+      throw new ValidationError(
+        `No shelf life recorded when stored ${storedAs} for: ${namesOf(shelfLife.unknownIngredients)}`
+      );
+    }
+    if (shelfLife.hours === null) {
+      throw new ValidationError(
+        `No ingredient of "${dish.name}" has a shelf life recorded when stored ${storedAs}`
+      );
+    }
+
+    const allergens = combineAllergens(
+      currentIngredients.map((row) => row.ingredient)
+    );
+    const html = renderLabelPage(
+      {
+        title: dish.name,
+        subtitle: `Version ${dish.versionNumber}, ${dish.servings} ${dish.servings === 1 ? "serving" : "servings"}`,
+        storage: options.storage,
+        preparedAt: options.preparedAt,
+        useBy: computeUseBy(options.preparedAt, shelfLife.hours),
+        preparedBy: chef.name,
+        details: [
+          {
+            label: "Shelf life",
+            value: `${formatShelfLife(shelfLife.hours)} (${namesOf(shelfLife.limitingIngredients)})`,
+          },
+          {
+            label: "Allergens",
+            value:
+              allergens.length > 0
+                ? allergens.map(getAllergenLabel).join(", ")
+                : "None",
+          },
+        ],
+      },
+      options
+    );
+
+    return new NextResponse(html, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
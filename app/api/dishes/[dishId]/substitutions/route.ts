@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { canEditDish } from "@/lib/permissions";
+import { formatDishIngredient } from "@/lib/dish-ingredients";
+import { buildSubstitutionLines } from "@/lib/ingredient-substitutes";
+import { applySubstitutions } from "@/lib/substitutes";
+import {
+  AppError,
+  NotFoundError,
+  UnauthorizedError,
+  ValidationError,
+} from "@/lib/errors";
+
+/**
+ * GET /api/dishes/[dishId]/substitutions
+ *
+ * Propose an ingredient list for a dish with substitutes applied. Nothing is
+ * saved, the proposed "ingredients" can be sent as is to
+ * PUT /api/dishes/[dishId]/ingredients to create a new version.
+ *
+ * Every line lists its substitute options, ingredients in stock first. The
+ * first option is proposed for the lines in the replace query parameter
+ * (comma separated ingredient IDs), or when it is omitted for the lines whose
+ * stock does not cover the amount. Ingredients whose stock is not tracked are
+ * never replaced by default. An option whose amount cannot be worked out, a
+ * mass and a volume while the substitute has no density, has a null amount
+ * with reason "density_required" and is never proposed.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ dishId: string }> }
+) {
+  try {
+    const { dishId: dishIdParam } = await context.params;
+    const dishId = parseInt(dishIdParam, 10);
+    if (isNaN(dishId) || dishId <= 0) {
+      throw new ValidationError("Invalid dish ID");
+    }
+
+    const chef = await requireChef(request);
+    const { searchParams } = new URL(request.url);
+
+    const replaceParam = searchParams.get("replace");
+    const replaceIds = replaceParam
+      ? replaceParam.split(",").map((value) => parseInt(value.trim(), 10))
+      : null;
+    if (replaceIds?.some((id) => isNaN(id) || id <= 0)) {
+      throw new ValidationError("Invalid ingredient ID in replace");
+    }
+
+    const dish = await prisma.dish.findUnique({
+      where: { id: dishId },
+      select: { id: true, name: true, chefId: true, versionNumber: true },
+    });
+
+    if (!dish) {
+      throw new NotFoundError("Dish not found");
+    }
+
+    if (!canEditDish(chef, dish)) {
+      throw new UnauthorizedError(
+        "You do not have permission to view this dish"
+      );
+    }
+
+    const currentIngredients = await prisma.dishingredient.findMany({
+      where: { dishId, versionNumber: dish.versionNumber },
+      include: { ingredient: { select: { name: true, unit: true } } },
+      orderBy: { ingredientId: "asc" },
+    });
+
+    const missingIds = (replaceIds ?? []).filter(
+      (id) => !currentIngredients.some((row) => row.ingredientId === id)
+    );
+    if (missingIds.length > 0) {
+      throw new ValidationError(
+        `The current version of the dish does not use the ingredients: ${missingIds.join(", ")}`
+      );
+    }
+
+    const lines = await buildSubstitutionLines(
+      prisma,
+      currentIngredients.map((row) => {
+        const line = formatDishIngredient(row);
+        return {
+          ingredientId: line.ingredientId,
+          ingredientName: line.ingredientName,
+          amount: line.ingredientAmount,
+          unit: line.ingredientUnit,
+          enteredAmount: line.enteredAmount,
+          enteredUnit: line.enteredUnit,
+        };
+      }),
+      replaceIds
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          dishId: dish.id,
+          dishName: dish.name,
+          versionNumber: dish.versionNumber,
+          lines,
+          ingredients: applySubstitutions(
+            lines,
+            new Map(lines.map((line) => [line.ingredientId, line.substituteId]))
+          ),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
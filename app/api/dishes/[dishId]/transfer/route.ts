@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { transferDishSchema } from "@/lib/validations";
+import { transferDishes } from "@/lib/dish-transfer";
+import {
+  AppError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+} from "@/lib/errors";
+
+/**
+ * POST /api/dishes/[dishId]/transfer
+ *
+ * Transfer a dish to another chef (admin and head chef only). When the target
+ * chef already has a dish with the same name, onConflict "fail" (default)
+ * returns a CONFLICT error listing the collision, "rename" appends the
+ * previous owner's name to the transferred dish.
+ *
+ * Request body:
+ * {
+ *   "toChefId": 2,
+ *   "onConflict": "rename"  // optional, "fail" or "rename"
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ dishId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "dish:transfer");
+
+    const { dishId: dishIdParam } = await context.params;
+    const dishId = parseInt(dishIdParam, 10);
+    if (isNaN(dishId) || dishId <= 0) {
+      throw new ValidationError("Invalid dish ID");
+    }
+
+    const body = await request.json();
+    const validatedData = transferDishSchema.parse(body);
+
+    const dish = await prisma.dish.findUnique({
+      where: { id: dishId },
+      select: { id: true },
+    });
+
+    if (!dish) {
+      throw new NotFoundError("Dish not found");
+    }
+
+    const [result] = await prisma.$transaction((tx) =>
+      transferDishes(tx, {
+        dishIds: [dishId],
+        toChefId: validatedData.toChefId,
+        onConflict: validatedData.onConflict,
+        actorChefId: currentChef.id,
+      })
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result,
+        message: "Dish transferred successfully",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error && typeof error === "object" && "issues" in error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request data validation failed",
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
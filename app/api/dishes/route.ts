@@ -1,20 +1,39 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
 import { createDishSchema } from "@/lib/validations";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
 import {
-  AppError,
-  NotFoundError,
-  ValidationError,
-  ConflictError,
-} from "@/lib/errors";
+  resolveDishIngredients,
+  formatDishIngredient,
+  toCostLine,
+} from "@/lib/dish-ingredients";
+import { computeDishCost } from "@/lib/costing";
+import {
+  loadCostPrices,
+  parseAsOf,
+  parsePriceSource,
+} from "@/lib/ingredient-prices";
+import {
+  ALLERGEN_SELECT,
+  combineAllergens,
+  containsAnyAllergen,
+  isAllergenCode,
+  type AllergenCode,
+} from "@/lib/allergens";
+import {
+  computeDishAvailability,
+  findOutOfSeasonIngredientIds,
+  loadIngredientSeasons,
+  parseAvailableOn,
+} from "@/lib/ingredient-seasons";
+import { AppError, ValidationError, ConflictError } from "@/lib/errors";
 
 /**
  * POST /api/dishes
  *
- * Create a new dish with ingredients for a specific chef
- *
- * Headers:
- * - X-Chef-Id: Chef ID (required, for authorization)
+ * Create a new dish with ingredients for the authenticated chef
  *
  * Request body:
  * {
@@ -22,37 +41,25 @@ import {
  *   "ingredients": [
  *     { "ingredientId": 1, "ingredientAmount": 300 },
  *     { "ingredientId": 2, "ingredientAmount": 2 },
- *     { "ingredientId": 3, "ingredientAmount": 150 }
- *   ]
+ *     { "ingredientId": 3, "ingredientAmount": 0.15, "unit": "kg" }
+ *   ],
+ *   "servings": 4  // optional, defaults to 1
  * }
+ *
+ * "unit" is optional and may be any unit compatible with the ingredient's
+ * unit, the amount is stored converted to the ingredient's unit.
  */
 export async function POST(request: NextRequest) {
   try {
-    // Extract chefId from headers
-    const chefIdHeader = request.headers.get("x-chef-id");
-    if (!chefIdHeader) {
-      throw new ValidationError("Missing required header: X-Chef-Id");
-    }
-
-    const chefId = parseInt(chefIdHeader, 10);
-    if (isNaN(chefId) || chefId <= 0) {
-      throw new ValidationError("Invalid chef ID");
-    }
+    // Resolve the chef from the session
+    const chef = await requireChef(request);
+    requirePermission(chef, "dish:create");
+    const chefId = chef.id;
 
     // Parse and validate request body
     const body = await request.json();
     const validatedData = createDishSchema.parse(body);
 
-    // Verify chef exists
-    const chef = await prisma.chef.findUnique({
-      where: { id: chefId },
-      select: { id: true },
-    });
-
-    if (!chef) {
-      throw new NotFoundError("Chef not found");
-    }
-
     // Check if dish with same name already exists for this chef
     const existingDish = await prisma.dish.findFirst({
       where: {
@@ -68,49 +75,22 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Verify all ingredients exist
-    const ingredientIds = validatedData.ingredients.map(
-      (ing) => ing.ingredientId
-    );
-    const existingIngredients = await prisma.ingredient.findMany({
-      where: {
-        id: { in: ingredientIds },
-      },
-      select: { id: true },
-    });
-
-    const existingIngredientIds = new Set(
-      existingIngredients.map((ing: { id: number }) => ing.id)
-    );
-    const missingIngredientIds = ingredientIds.filter(
-      (id) => !existingIngredientIds.has(id)
-    );
-
-    if (missingIngredientIds.length > 0) {
-      throw new NotFoundError(
-        `The following ingredients do not exist: ${missingIngredientIds.join(
-          ", "
-        )}`
-      );
-    }
-
-    // Check for duplicate ingredient IDs
-    const uniqueIngredientIds = new Set(ingredientIds);
-    if (uniqueIngredientIds.size !== ingredientIds.length) {
-      throw new ValidationError(
-        "Duplicate ingredient IDs found in the ingredients list"
-      );
-    }
-
     const now = new Date();
     // Use transaction to create dish and ingredients
     const result = await prisma.$transaction(async (tx) => {
+      // Verify all ingredients exist and normalize amounts to each ingredient's unit
+      const ingredients = await resolveDishIngredients(
+        tx,
+        validatedData.ingredients
+      );
+
       // Create new dish with version number 1
       const newDish = await tx.dish.create({
         data: {
           chefId,
           name: validatedData.name,
           versionNumber: 1,
+          servings: validatedData.servings ?? 1,
           createdAt: now,
           updatedAt: now,
         },
@@ -118,10 +98,15 @@ export async function POST(request: NextRequest) {
 
       // Create ingredient associations
       await tx.dishingredient.createMany({
-        data: validatedData.ingredients.map((ing) => ({
+        data: ingredients.map((ing) => ({
           dishId: newDish.id,
           ingredientId: ing.ingredientId,
           ingredientAmount: ing.ingredientAmount,
+          enteredAmount: ing.enteredAmount,
+          enteredUnit: ing.enteredUnit,
+          ingredientName: ing.ingredientName,
+          ingredientUnit: ing.ingredientUnit,
+          servings: newDish.servings,
           versionNumber: 1,
           createdAt: now,
           updatedAt: now,
@@ -140,6 +125,7 @@ export async function POST(request: NextRequest) {
                   id: true,
                   name: true,
                   unit: true,
+                  ...ALLERGEN_SELECT,
                 },
               },
             },
@@ -150,6 +136,20 @@ export async function POST(request: NextRequest) {
         },
       });
 
+      await recordAudit(tx, {
+        actorChefId: chefId,
+        entityType: "dish",
+        entityId: newDish.id,
+        action: "create",
+        after: {
+          id: newDish.id,
+          name: newDish.name,
+          chefId: newDish.chefId,
+          versionNumber: newDish.versionNumber,
+          ingredients,
+        },
+      });
+
       return dishWithIngredients!;
     });
 
@@ -159,17 +159,10 @@ export async function POST(request: NextRequest) {
       name: result.name,
       chefId: result.chefId,
       versionNumber: result.versionNumber,
-      ingredients: result.dishingredient.map(
-        (di: {
-          ingredientId: number;
-          ingredient: { name: string; unit: string };
-          ingredientAmount: number;
-        }) => ({
-          ingredientId: di.ingredientId,
-          ingredientName: di.ingredient.name,
-          ingredientUnit: di.ingredient.unit,
-          ingredientAmount: di.ingredientAmount,
-        })
+      servings: result.servings,
+      ingredients: result.dishingredient.map(formatDishIngredient),
+      allergens: combineAllergens(
+        result.dishingredient.map((di) => di.ingredient)
       ),
       createdAt: now,
       updatedAt: now,
@@ -246,10 +239,22 @@ export async function POST(request: NextRequest) {
 /**
  * GET /api/dishes
  *
- * Get all dishes
+ * Get all dishes, each with the allergens of the ingredients of its current
+ * version. excludeAllergens (comma separated codes, e.g. "peanuts,tree_nuts")
+ * leaves out dishes whose current version contains any of them.
+ * "cost" of each dish uses the ingredient prices effective at asOf (ISO date,
+ * defaults to now), lines without such a price are not counted. priceSource
+ * "preferred" or "cheapest" prices ingredients by their preferred or cheapest
+ * supplier instead, falling back to the recorded price.
+ * "availability" of each dish lists the ingredients of its current version
+ * that are out of season on availableOn (YYYY-MM-DD, defaults to today), for
+ * the region query parameter when given. With availableOn, dishes that are
+ * not available are left out unless includeUnavailable=true.
  */
 export async function GET(request: NextRequest) {
   try {
+    await requireChef(request);
+
     const { searchParams } = new URL(request.url);
     const current = parseInt(searchParams.get("current") || "1", 10);
     const pageSize = parseInt(searchParams.get("pageSize") || "10", 10);
@@ -257,13 +262,87 @@ export async function GET(request: NextRequest) {
     const search = searchParams.get("search")?.trim();
     const versionSearch = search ? Number(search) : NaN;
     const hasVersionFilter = Number.isInteger(versionSearch);
+    const asOf = parseAsOf(searchParams.get("asOf"));
+    const priceSource = parsePriceSource(searchParams.get("priceSource"));
+    const availableOn = parseAvailableOn(searchParams.get("availableOn"));
+    const region = searchParams.get("region")?.trim() || null;
+    const includeUnavailable =
+      searchParams.get("includeUnavailable") === "true";
     const orConditions = search
       ? [
           { name: { contains: search } },
           ...(hasVersionFilter ? [{ versionNumber: versionSearch }] : []),
         ]
       : undefined;
-    const where = orConditions ? { OR: orConditions } : undefined;
+
+    const excludeAllergens = (searchParams.get("excludeAllergens") || "")
+      .split(",")
+      .map((code) => code.trim())
+      .filter(Boolean);
+    const unknownAllergens = excludeAllergens.filter(
+      (code) => !isAllergenCode(code)
+    );
+    if (unknownAllergens.length > 0) {
+      throw new ValidationError(
+        `Unknown allergens: ${unknownAllergens.join(", ")}`
+      );
+    }
+
+    // Dishes whose current version contains one of the excluded allergens
+    let excludedDishIds: number[] = [];
+    if (excludeAllergens.length > 0) {
+      const allergenRows = await prisma.dishingredient.findMany({
+        where: {
+          ingredient: containsAnyAllergen(excludeAllergens as AllergenCode[]),
+        },
+        select: {
+          dishId: true,
+          versionNumber: true,
+          dish: { select: { versionNumber: true } },
+        },
+      });
+      excludedDishIds = [
+        ...new Set(
+          allergenRows
+            .filter((row) => row.versionNumber === row.dish.versionNumber)
+            .map((row) => row.dishId)
+        ),
+      ];
+    }
+
+    // Dishes whose current version uses an ingredient out of season on availableOn
+    if (availableOn && !includeUnavailable) {
+      const outOfSeasonIds = await findOutOfSeasonIngredientIds(
+        prisma,
+        availableOn,
+        region
+      );
+      const seasonRows = outOfSeasonIds.length
+        ? await prisma.dishingredient.findMany({
+            where: { ingredientId: { in: outOfSeasonIds } },
+            select: {
+              dishId: true,
+              versionNumber: true,
+              dish: { select: { versionNumber: true } },
+            },
+          })
+        : [];
+      excludedDishIds = [
+        ...new Set([
+          ...excludedDishIds,
+          ...seasonRows
+            .filter((row) => row.versionNumber === row.dish.versionNumber)
+            .map((row) => row.dishId),
+        ]),
+      ];
+    }
+
+    const where = {
+      ...(orConditions ? { OR: orConditions } : {}),
+      ...(excludedDishIds.length > 0
+        ? { id: { notIn: excludedDishIds } }
+        : {}),
+    };
 
     const [total, dishes] = await Promise.all([
       prisma.dish.count({ where }),
@@ -274,10 +353,11 @@ export async function GET(request: NextRequest) {
           chefId: true,
           name: true,
           versionNumber: true,
+          servings: true,
           createdAt: true,
           updatedAt: true,
           chef: {
-            select: { name: true },
+            select: { name: true, active: true },
           },
         },
         orderBy: {
@@ -304,9 +384,16 @@ export async function GET(request: NextRequest) {
             dishId: true,
             ingredientId: true,
             ingredientAmount: true,
+            enteredAmount: true,
+            enteredUnit: true,
             versionNumber: true,
             ingredient: {
-              select: { name: true, unit: true },
+              select: {
+                name: true,
+                unit: true,
+                density: true,
+                ...ALLERGEN_SELECT,
+              },
             },
           },
           orderBy: {
@@ -317,25 +404,26 @@ export async function GET(request: NextRequest) {
 
     const dishIdToIngredients: Record<
       number,
-      Array<{
-        ingredientId: number;
-        ingredientName: string;
-        ingredientUnit: string;
-        ingredientAmount: number;
-      }>
+      Array<ReturnType<typeof formatDishIngredient>>
     > = {};
+    const dishIdToRows: Record<number, typeof dishingredient> = {};
     for (const di of dishingredient) {
       const currentVersion = dishIdToVersion[di.dishId];
       if (di.versionNumber !== currentVersion) continue;
       if (!dishIdToIngredients[di.dishId]) dishIdToIngredients[di.dishId] = [];
-      dishIdToIngredients[di.dishId].push({
-        ingredientId: di.ingredientId,
-        ingredientName: di.ingredient.name,
-        ingredientUnit: di.ingredient.unit,
-        ingredientAmount: di.ingredientAmount,
-      });
+      dishIdToIngredients[di.dishId].push(formatDishIngredient(di));
+      if (!dishIdToRows[di.dishId]) dishIdToRows[di.dishId] = [];
+      dishIdToRows[di.dishId].push(di);
     }
 
+    const currentIngredientIds = Object.values(dishIdToRows).flatMap((rows) =>
+      rows.map((di) => di.ingredientId)
+    );
+    const [prices, seasons] = await Promise.all([
+      loadCostPrices(prisma, currentIngredientIds, asOf, priceSource),
+      loadIngredientSeasons(prisma, currentIngredientIds),
+    ]);
+
     return NextResponse.json(
       {
         success: true,
@@ -343,11 +431,31 @@ export async function GET(request: NextRequest) {
           id: d.id,
           chefId: d.chefId,
           chefName: d.chef?.name ?? null,
+          chefActive: d.chef?.active ?? false,
           name: d.name,
           versionNumber: d.versionNumber,
+          servings: d.servings,
           createdAt: d.createdAt,
           updatedAt: d.updatedAt,
           ingredients: dishIdToIngredients[d.id] || [],
+          allergens: combineAllergens(
+            (dishIdToRows[d.id] || []).map((di) => di.ingredient)
+          ),
+          cost: computeDishCost(
+            (dishIdToRows[d.id] || []).map((di) => toCostLine(di)),
+            prices,
+            asOf,
+            priceSource
+          ),
+          availability: computeDishAvailability(
+            (dishIdToRows[d.id] || []).map((di) => ({
+              ingredientId: di.ingredientId,
+              ingredientName: di.ingredient.name,
+            })),
+            seasons,
+            availableOn ?? new Date(),
+            region
+          ),
         })),
         total,
         current,
@@ -356,6 +464,19 @@ export async function GET(request: NextRequest) {
       { status: 200 }
     );
   } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
     console.error("Unexpected error:", error);
     return NextResponse.json(
       {
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import {
+  ALLERGEN_SELECT,
+  getAllergenCodes,
+  getAllergenLabel,
+} from "@/lib/allergens";
+import {
+  SHELF_LIFE_SELECT,
+  computeUseBy,
+  formatShelfLife,
+  getShelfLifeHours,
+  getStorageLabel,
+} from "@/lib/shelf-life";
+import { parseLabelOptions, renderLabelPage } from "@/lib/labels";
+import { AppError, NotFoundError, ValidationError } from "@/lib/errors";
+
+/**
+ * GET /api/ingredients/[ingredientId]/label
+ *
+ * Render a printable HTML prep label for an opened or prepared ingredient.
+ * The use-by time is preparedAt plus the ingredient's shelf life under the
+ * storage condition. Errors are returned as JSON like the other endpoints.
+ *
+ * Query parameters:
+ *   storage     ambient, chilled (default) or frozen
+ *   preparedAt  ISO date, defaults to now
+ *   timeZone    IANA time zone the times are printed in, e.g. Europe/Berlin
+ *   copies      number of labels on the page, 1 to 100, defaults to 1
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ ingredientId: string }> }
+) {
+  try {
+    const { ingredientId: ingredientIdParam } = await context.params;
+    const ingredientId = parseInt(ingredientIdParam, 10);
+    if (isNaN(ingredientId) || ingredientId <= 0) {
+      throw new ValidationError("Invalid ingredient ID");
+    }
+
+    const chef = await requireChef(request);
+    const { searchParams } = new URL(request.url);
+    const options = parseLabelOptions(searchParams);
+
+    const ingredient = await prisma.ingredient.findUnique({
+      where: { id: ingredientId },
+      select: {
+        id: true,
+        name: true,
+        deletedAt: true,
+        ...ALLERGEN_SELECT,
+        ...SHELF_LIFE_SELECT,
+        storageNotes: true,
+      },
+    });
+
+    if (!ingredient || ingredient.deletedAt) {
+      throw new NotFoundError("Ingredient not found");
+    }
+
+    const hours = getShelfLifeHours(ingredient, options.storage);
+    if (hours === null) {
+      throw new ValidationError(
+        `No shelf life is recorded for "${ingredient.name}" when stored ${getStorageLabel(options.storage).toLowerCase()}`
+      );
+    }
+
+    const allergens = getAllergenCodes(ingredient);
+    const html = renderLabelPage(
+      {
+        title: ingredient.name,
+        storage: options.storage,
+        preparedAt: options.preparedAt,
+        useBy: computeUseBy(options.preparedAt, hours),
+        preparedBy: chef.name,
+        details: [
+          { label: "Shelf life", value: formatShelfLife(hours) },
+          {
+            label: "Allergens",
+            value:
+              allergens.length > 0
+                ? allergens.map(getAllergenLabel).join(", ")
+                : "None",
+          },
+        ],
+        notes: ingredient.storageNotes,
+      },
+      options
+    );
+
+    return new NextResponse(html, {
+      status: 200,
+      headers: {
+        "Content-Type": "text/html; charset=utf-8",
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
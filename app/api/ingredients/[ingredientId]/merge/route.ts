@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { mergeIngredientSchema } from "@/lib/validations";
+import { mergeIngredients } from "@/lib/ingredient-merge";
+import { lockIngredient, type LockedIngredient } from "@/lib/ingredient-locks";
+import {
+  AppError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+} from "@/lib/errors";
+
+/**
+ * POST /api/ingredients/[ingredientId]/merge
+ *
+ * Merge a duplicate ingredient into this one (admins and head chefs only).
+ * Dish lines of the source ingredient are re-pointed to this ingredient with
+ * the amount converted to its unit. Dishes whose current version uses both
+ * get a new version with the amounts combined. The source ingredient is kept
+ * as a redirect, so its ID still resolves to this ingredient. Packs move to
+ * this ingredient, a pack it has by the same name must hold the same quantity,
+ * otherwise the merge is rejected with a CONFLICT error listing the packs.
+ *
+ * Request body:
+ * {
+ *   "sourceIngredientId": 7
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ ingredientId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "ingredient:manage");
+
+    const { ingredientId: ingredientIdParam } = await context.params;
+    const ingredientId = parseInt(ingredientIdParam, 10);
+    if (isNaN(ingredientId) || ingredientId <= 0) {
+      throw new ValidationError("Invalid ingredient ID");
+    }
+
+    const body = await request.json();
+    const validatedData = mergeIngredientSchema.parse(body);
+
+    if (validatedData.sourceIngredientId === ingredientId) {
+      throw new ValidationError("An ingredient cannot be merged into itself");
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Lock both ingredients before anything else is read, in ascending ID order
+      // so two merges of the same pair cannot deadlock. Unit changes and dish
+      // writes wait for the merge, the amounts are converted with the locked units.
+      const locked = new Map<number, LockedIngredient | null>();
+      for (const id of [ingredientId, validatedData.sourceIngredientId].sort(
+        (a, b) => a - b
+      )) {
+        locked.set(id, await lockIngredient(tx, id));
+      }
+      const target = locked.get(ingredientId);
+      const source = locked.get(validatedData.sourceIngredientId);
+
+      if (!target || target.deletedAt) {
+        throw new NotFoundError("Ingredient not found");
+      }
+      if (!source || source.deletedAt) {
+        throw new NotFoundError("Source ingredient not found");
+      }
+
+      return mergeIngredients(
+        tx,
+        {
+          id: target.id,
+          name: target.name,
+          unit: target.unit,
+          density: target.density,
+        },
+        {
+          id: source.id,
+          name: source.name,
+          unit: source.unit,
+          density: source.density,
+        },
+        currentChef.id
+      );
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result,
+        message: "Ingredients merged successfully",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error && typeof error === "object" && "issues" in error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request data validation failed",
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,333 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { updateIngredientPackSchema } from "@/lib/validations";
+import {
+  assertPackNesting,
+  countPackReferences,
+  loadIngredientPacks,
+  renamePackReferences,
+} from "@/lib/ingredient-packs";
+import { lockIngredient } from "@/lib/ingredient-locks";
+import {
+  AppError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+} from "@/lib/errors";
+
+/**
+ * PUT /api/ingredients/[ingredientId]/packs/[packId]
+ *
+ * Update a pack of an ingredient (admins and head chefs only). Prices and
+ * supplier listings quoted in a renamed pack follow the new name.
+ *
+ * Request body:
+ * {
+ *   "name": "case",
+ *   "quantity": 6,
+ *   "containsPackId": null  // optional, null makes quantity a quantity of the ingredient's unit
+ * }
+ */
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ ingredientId: string; packId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "ingredient:manage");
+
+    const { ingredientId: ingredientIdParam, packId: packIdParam } =
+      await context.params;
+    const ingredientId = parseInt(ingredientIdParam, 10);
+    if (isNaN(ingredientId) || ingredientId <= 0) {
+      throw new ValidationError("Invalid ingredient ID");
+    }
+    const packId = parseInt(packIdParam, 10);
+    if (isNaN(packId) || packId <= 0) {
+      throw new ValidationError("Invalid pack ID");
+    }
+
+    const body = await request.json();
+    const validatedData = updateIngredientPackSchema.parse(body);
+
+    // The quantity is in the ingredient's unit, read it under the row lock so a
+    // unit change rescales the pack or waits until it is updated
+    const pack = await prisma.$transaction(async (tx) => {
+      const ingredient = await lockIngredient(tx, ingredientId);
+      const existingPack = await tx.ingredientpack.findFirst({
+        where: { id: packId, ingredientId },
+      });
+
+      if (!ingredient || !existingPack) {
+        throw new NotFoundError("The ingredient has no such pack");
+      }
+
+      const renamed =
+        validatedData.name !== undefined &&
+        validatedData.name !== existingPack.name;
+      if (renamed) {
+        if (
+          validatedData.name!.toLowerCase() ===
+          ingredient.unit.toLowerCase()
+        ) {
+          throw new ValidationError("Pack name cannot be the ingredient's unit");
+        }
+
+        const duplicatePack = await tx.ingredientpack.findFirst({
+          where: { ingredientId, name: validatedData.name, id: { not: packId } },
+          select: { id: true },
+        });
+
+        if (duplicatePack) {
+          throw new ConflictError(
+            `The ingredient already has a pack named "${validatedData.name}"`
+          );
+        }
+      }
+
+      if (validatedData.containsPackId) {
+        const packs = (await loadIngredientPacks(tx, [ingredientId])).get(
+          ingredientId
+        );
+        assertPackNesting(packs ?? [], packId, validatedData.containsPackId);
+      }
+
+      const updatedPack = await tx.ingredientpack.update({
+        where: { id: packId },
+        data: {
+          name: validatedData.name,
+          quantity: validatedData.quantity,
+          containsPackId: validatedData.containsPackId,
+          updatedAt: new Date(),
+        },
+      });
+      if (renamed) {
+        await renamePackReferences(
+          tx,
+          ingredientId,
+          existingPack.name,
+          updatedPack.name
+        );
+      }
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "ingredient",
+        entityId: ingredientId,
+        action: "pack_update",
+        before: existingPack,
+        after: updatedPack,
+      });
+
+      return updatedPack;
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: pack,
+        message: "Pack updated successfully",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error && typeof error === "object" && "issues" in error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request data validation failed",
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/ingredients/[ingredientId]/packs/[packId]
+ *
+ * Remove a pack from an ingredient (admins and head chefs only). Rejected
+ * with a CONFLICT error while another pack contains it or prices or supplier
+ * listings are quoted in it. Stock movements entered in the pack keep its
+ * name for display.
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ ingredientId: string; packId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "ingredient:manage");
+
+    const { ingredientId: ingredientIdParam, packId: packIdParam } =
+      await context.params;
+    const ingredientId = parseInt(ingredientIdParam, 10);
+    if (isNaN(ingredientId) || ingredientId <= 0) {
+      throw new ValidationError("Invalid ingredient ID");
+    }
+    const packId = parseInt(packIdParam, 10);
+    if (isNaN(packId) || packId <= 0) {
+      throw new ValidationError("Invalid pack ID");
+    }
+
+    const existingPack = await prisma.ingredientpack.findFirst({
+      where: { id: packId, ingredientId },
+      include: { containedIn: { select: { id: true, name: true } } },
+    });
+
+    if (!existingPack) {
+      throw new NotFoundError("The ingredient has no such pack");
+    }
+
+    const { containedIn, ...pack } = existingPack;
+    const references = await countPackReferences(
+      prisma,
+      ingredientId,
+      pack.name
+    );
+    if (
+      containedIn.length > 0 ||
+      references.priceCount > 0 ||
+      references.supplierCount > 0
+    ) {
+      throw new ConflictError(`The pack "${pack.name}" is still in use`, {
+        containedIn,
+        ...references,
+      });
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.ingredientpack.delete({ where: { id: packId } });
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "ingredient",
+        entityId: ingredientId,
+        action: "pack_remove",
+        before: pack,
+      });
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { id: packId },
+        message: "Pack removed successfully",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error && typeof error === "object" && "issues" in error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request data validation failed",
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,242 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { createIngredientPackSchema } from "@/lib/validations";
+import { packBaseQuantities } from "@/lib/packs";
+import { assertPackNesting, loadIngredientPacks } from "@/lib/ingredient-packs";
+import { lockIngredient } from "@/lib/ingredient-locks";
+import {
+  AppError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+} from "@/lib/errors";
+
+/**
+ * GET /api/ingredients/[ingredientId]/packs
+ *
+ * Get the packs an ingredient is bought and counted in. baseQuantity is the
+ * contents of a pack in the ingredient's unit, following nested packs.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ ingredientId: string }> }
+) {
+  try {
+    await requireChef(request);
+
+    const { ingredientId: ingredientIdParam } = await context.params;
+    const ingredientId = parseInt(ingredientIdParam, 10);
+    if (isNaN(ingredientId) || ingredientId <= 0) {
+      throw new ValidationError("Invalid ingredient ID");
+    }
+
+    const ingredient = await prisma.ingredient.findUnique({
+      where: { id: ingredientId },
+      select: { id: true, unit: true },
+    });
+
+    if (!ingredient) {
+      throw new NotFoundError("Ingredient not found");
+    }
+
+    const packs = await prisma.ingredientpack.findMany({
+      where: { ingredientId },
+      orderBy: { id: "asc" },
+    });
+    const baseQuantities = packBaseQuantities(packs);
+    const names = new Map(packs.map((pack) => [pack.id, pack.name]));
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: packs.map((pack) => ({
+          ...pack,
+          containsPackName:
+            pack.containsPackId !== null
+              ? names.get(pack.containsPackId) ?? null
+              : null,
+          baseQuantity: baseQuantities.get(pack.id) ?? null,
+          unit: ingredient.unit,
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/ingredients/[ingredientId]/packs
+ *
+ * Add a pack to an ingredient (admins and head chefs only). A pack holds
+ * quantity of the pack it contains, or of the ingredient's unit when it
+ * contains no pack. Its name can then be used as a unit for stock movements,
+ * dish amounts, prices and supplier listings.
+ *
+ * Request body:
+ * {
+ *   "name": "case",
+ *   "quantity": 12,
+ *   "containsPackId": 1  // optional, a case of 12 bottles
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ ingredientId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "ingredient:manage");
+
+    const { ingredientId: ingredientIdParam } = await context.params;
+    const ingredientId = parseInt(ingredientIdParam, 10);
+    if (isNaN(ingredientId) || ingredientId <= 0) {
+      throw new ValidationError("Invalid ingredient ID");
+    }
+
+    const body = await request.json();
+    const validatedData = createIngredientPackSchema.parse(body);
+
+    const now = new Date();
+    // The quantity is in the ingredient's unit, read it under the row lock so a
+    // unit change rescales the pack or waits until it is added
+    const pack = await prisma.$transaction(async (tx) => {
+      const ingredient = await lockIngredient(tx, ingredientId);
+
+      if (!ingredient || ingredient.deletedAt) {
+        throw new NotFoundError("Ingredient not found");
+      }
+      if (validatedData.name.toLowerCase() === ingredient.unit.toLowerCase()) {
+        throw new ValidationError("Pack name cannot be the ingredient's unit");
+      }
+
+      const existingPack = await tx.ingredientpack.findFirst({
+        where: { ingredientId, name: validatedData.name },
+        select: { id: true },
+      });
+
+      if (existingPack) {
+        throw new ConflictError(
+          `The ingredient already has a pack named "${validatedData.name}"`
+        );
+      }
+
+      if (validatedData.containsPackId !== null) {
+        const packs = (await loadIngredientPacks(tx, [ingredientId])).get(
+          ingredientId
+        );
+        assertPackNesting(packs ?? [], null, validatedData.containsPackId);
+      }
+
+      const newPack = await tx.ingredientpack.create({
+        data: {
+          ingredientId,
+          name: validatedData.name,
+          quantity: validatedData.quantity,
+          containsPackId: validatedData.containsPackId,
+          createdAt: now,
+          updatedAt: now,
+        },
+      });
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "ingredient",
+        entityId: ingredientId,
+        action: "pack_add",
+        after: newPack,
+      });
+
+      return newPack;
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: pack,
+        message: "Pack added successfully",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error && typeof error === "object" && "issues" in error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request data validation failed",
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { AppError, NotFoundError, ValidationError } from "@/lib/errors";
+
+/**
+ * DELETE /api/ingredients/[ingredientId]/prices/[priceId]
+ *
+ * Delete a recorded price (admins and head chefs only), the previous price
+ * of the ingredient applies again from that date
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ ingredientId: string; priceId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "ingredient:manage");
+
+    const { ingredientId: ingredientIdParam, priceId: priceIdParam } =
+      await context.params;
+    const ingredientId = parseInt(ingredientIdParam, 10);
+    if (isNaN(ingredientId) || ingredientId <= 0) {
+      throw new ValidationError("Invalid ingredient ID");
+    }
+    const priceId = parseInt(priceIdParam, 10);
+    if (isNaN(priceId) || priceId <= 0) {
+      throw new ValidationError("Invalid price ID");
+    }
+
+    const price = await prisma.ingredientprice.findUnique({
+      where: { id: priceId },
+    });
+
+    if (!price || price.ingredientId !== ingredientId) {
+      throw new NotFoundError("Price not found");
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.ingredientprice.delete({ where: { id: priceId } });
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "ingredient",
+        entityId: ingredientId,
+        action: "price_delete",
+        before: price,
+      });
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { id: priceId },
+        message: "Price deleted successfully",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
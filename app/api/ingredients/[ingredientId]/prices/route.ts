@@ -0,0 +1,258 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { createIngredientPriceSchema } from "@/lib/validations";
+import { resolvePriceUnit } from "@/lib/ingredient-prices";
+import { PACK_SELECT } from "@/lib/ingredient-packs";
+import {
+  AppError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+} from "@/lib/errors";
+
+/**
+ * GET /api/ingredients/[ingredientId]/prices
+ *
+ * Get the price history of an ingredient, latest effectiveFrom first.
+ * "effective" marks the price that applies now, prices with a future
+ * effectiveFrom are listed before it.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ ingredientId: string }> }
+) {
+  try {
+    await requireChef(request);
+
+    const { searchParams } = new URL(request.url);
+    const current = parseInt(searchParams.get("current") || "1", 10);
+    const pageSize = parseInt(searchParams.get("pageSize") || "10", 10);
+    const skip = (current - 1) * pageSize;
+
+    const { ingredientId: ingredientIdParam } = await context.params;
+    const ingredientId = parseInt(ingredientIdParam, 10);
+    if (isNaN(ingredientId) || ingredientId <= 0) {
+      throw new ValidationError("Invalid ingredient ID");
+    }
+
+    const ingredient = await prisma.ingredient.findUnique({
+      where: { id: ingredientId },
+      select: { id: true },
+    });
+
+    if (!ingredient) {
+      throw new NotFoundError("Ingredient not found");
+    }
+
+    const now = new Date();
+    const [total, prices, effectivePrice] = await Promise.all([
+      prisma.ingredientprice.count({ where: { ingredientId } }),
+      prisma.ingredientprice.findMany({
+        where: { ingredientId },
+        orderBy: { effectiveFrom: "desc" },
+        skip,
+        take: pageSize,
+      }),
+      prisma.ingredientprice.findFirst({
+        where: { ingredientId, effectiveFrom: { lte: now } },
+        select: { id: true },
+        orderBy: { effectiveFrom: "desc" },
+      }),
+    ]);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: prices.map((price) => ({
+          ...price,
+          effective: price.id === effectivePrice?.id,
+        })),
+        total,
+        current,
+        pageSize,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/ingredients/[ingredientId]/prices
+ *
+ * Record a price of an ingredient (admins and head chefs only). The price
+ * applies from effectiveFrom until the next recorded price, dish costs use
+ * the price effective at the date they are calculated for.
+ *
+ * Request body:
+ * {
+ *   "price": 4.5,
+ *   "unit": "kg",                       // optional, defaults to the ingredient unit, may be one of its packs
+ *   "effectiveFrom": "2026-07-01"       // optional, defaults to now
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ ingredientId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "ingredient:manage");
+
+    const { ingredientId: ingredientIdParam } = await context.params;
+    const ingredientId = parseInt(ingredientIdParam, 10);
+    if (isNaN(ingredientId) || ingredientId <= 0) {
+      throw new ValidationError("Invalid ingredient ID");
+    }
+
+    const body = await request.json();
+    const validatedData = createIngredientPriceSchema.parse(body);
+
+    const ingredient = await prisma.ingredient.findUnique({
+      where: { id: ingredientId },
+      select: {
+        id: true,
+        unit: true,
+        density: true,
+        deletedAt: true,
+        ...PACK_SELECT,
+      },
+    });
+
+    if (!ingredient || ingredient.deletedAt) {
+      throw new NotFoundError("Ingredient not found");
+    }
+
+    const unit = resolvePriceUnit(
+      ingredient.unit,
+      validatedData.unit,
+      ingredient.packs,
+      ingredient.density
+    );
+    const effectiveFrom = validatedData.effectiveFrom ?? new Date();
+
+    // Only one price can take effect at the same moment
+    const existingPrice = await prisma.ingredientprice.findUnique({
+      where: { ingredientId_effectiveFrom: { ingredientId, effectiveFrom } },
+      select: { id: true },
+    });
+
+    if (existingPrice) {
+      throw new ConflictError(
+        "A price with the same effective date already exists for this ingredient"
+      );
+    }
+
+    const price = await prisma.$transaction(async (tx) => {
+      const created = await tx.ingredientprice.create({
+        data: {
+          ingredientId,
+          price: validatedData.price,
+          unit,
+          effectiveFrom,
+          createdById: currentChef.id,
+          createdAt: new Date(),
+        },
+      });
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "ingredient",
+        entityId: ingredientId,
+        action: "price_create",
+        after: created,
+      });
+
+      return created;
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: price,
+        message: "Price recorded successfully",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error && typeof error === "object" && "issues" in error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request data validation failed",
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,50 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
 import { updateIngredientSchema } from "@/lib/validations";
+import {
+  applyUnitChange,
+  assertUnitChangeAllowed,
+  buildUnitChangeReport,
+  isUnitChange,
+} from "@/lib/ingredient-unit-change";
+import { snapshotLegacyDishIngredients } from "@/lib/dish-ingredients";
+import { assertCategoryExists } from "@/lib/categories";
+import {
+  ALLERGEN_SELECT,
+  getAllergenCodes,
+  toAllergenFlags,
+  withAllergens,
+  type AllergenFlags,
+} from "@/lib/allergens";
+import { NUTRITION_SELECT, pickNutrientValues } from "@/lib/nutrition";
+import {
+  SHELF_LIFE_SELECT,
+  pickShelfLifeValues,
+  type ShelfLifeField,
+} from "@/lib/shelf-life";
+import { rescaleSubstituteRatios } from "@/lib/ingredient-substitutes";
+import { PACK_SELECT, rescalePackQuantities } from "@/lib/ingredient-packs";
+import { lockIngredient } from "@/lib/ingredient-locks";
+import {
+  SEASON_SELECT,
+  loadIngredientSeasons,
+  replaceIngredientSeasons,
+} from "@/lib/ingredient-seasons";
+import { normalizeIngredientName } from "@/lib/ingredient-names";
+import {
+  ALIAS_SELECT,
+  assertDistinctNames,
+  findIngredientByName,
+  replaceIngredientAliases,
+  withAliases,
+} from "@/lib/ingredient-aliases";
+import {
+  countHistoricalUsage,
+  findCurrentUsage,
+} from "@/lib/ingredient-usage";
 import {
   AppError,
   NotFoundError,
@@ -12,37 +56,72 @@ import {
  * GET /api/ingredients/[ingredientId]
  *
  * Get a specific ingredient by ID
+ *
+ * An ingredient that was merged into another one resolves to that ingredient,
+ * with redirectedFrom set to the requested ID. Deleted ingredients that are
+ * kept for dish history are returned with deletedAt set.
  */
 export async function GET(
   request: NextRequest,
   context: { params: Promise<{ ingredientId: string }> }
 ) {
   try {
+    await requireChef(request);
+
     const { ingredientId: ingredientIdParam } = await context.params;
     const ingredientId = parseInt(ingredientIdParam, 10);
     if (isNaN(ingredientId) || ingredientId <= 0) {
       throw new ValidationError("Invalid ingredient ID");
     }
 
-    const ingredient = await prisma.ingredient.findUnique({
+    const select = {
+      id: true,
+      name: true,
+      unit: true,
+      deletedAt: true,
+      mergedIntoId: true,
+      categoryId: true,
+      category: { select: { id: true, name: true } },
+      ...ALLERGEN_SELECT,
+      ...NUTRITION_SELECT,
+      lowStockThreshold: true,
+      density: true,
+      ...SHELF_LIFE_SELECT,
+      storageNotes: true,
+      ...SEASON_SELECT,
+      ...ALIAS_SELECT,
+      ...PACK_SELECT,
+      createdAt: true,
+      updatedAt: true,
+    };
+    let ingredient = await prisma.ingredient.findUnique({
       where: { id: ingredientId },
-      select: {
-        id: true,
-        name: true,
-        unit: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+      select,
     });
 
     if (!ingredient) {
       throw new NotFoundError("Ingredient not found");
     }
 
+    // Merged ingredients resolve to the ingredient they were folded into
+    const redirectedFrom = ingredient.mergedIntoId ? ingredient.id : null;
+    const visited = new Set<number>([ingredient.id]);
+    while (ingredient?.mergedIntoId && !visited.has(ingredient.mergedIntoId)) {
+      visited.add(ingredient.mergedIntoId);
+      ingredient = await prisma.ingredient.findUnique({
+        where: { id: ingredient.mergedIntoId },
+        select,
+      });
+    }
+
+    if (!ingredient || ingredient.mergedIntoId) {
+      throw new NotFoundError("Ingredient not found");
+    }
+
     return NextResponse.json(
       {
         success: true,
-        data: ingredient,
+        data: { ...withAliases(withAllergens(ingredient)), redirectedFrom },
       },
       { status: 200 }
     );
@@ -77,12 +156,36 @@ export async function GET(
 /**
  * PUT /api/ingredients/[ingredientId]
  *
- * Update a specific ingredient by ID
+ * Update a specific ingredient by ID (admins and head chefs only)
+ *
+ * Changing the unit of an ingredient that dishes use or that has stock
+ * movements is rejected with a CONFLICT error listing the affected dishes,
+ * unless unitChange is "convert". Then every dish currently using the
+ * ingredient gets a new version with the converted amount, the stock on hand
+ * is booked again in the new unit with a unit_change movement and the low
+ * stock threshold is converted, in a single transaction. A threshold that
+ * cannot be converted is cleared unless a new one is sent along. Earlier stock
+ * movements keep the unit they were recorded in. Older versions are unaffected,
+ * each line keeps the name and unit recorded with its version. Switching between mass and volume
+ * converts through the ingredient's density, which can be sent along with the new unit. Pack quantities
+ * are converted as well, a unit they cannot be converted to is rejected. With ?dryRun=true
+ * nothing is changed and the impact report is returned instead.
  *
  * Request body:
  * {
  *   "name": "Updated Ingredient Name",
- *   "unit": "g"
+ *   "aliases": ["Other name"],  // optional, replaces the aliases, [] removes them
+ *   "unit": "g",
+ *   "categoryId": 3,  // optional, null removes the category
+ *   "allergens": ["milk", "eggs"],  // optional, replaces the allergen set
+ *   "nutritionBasis": "g",  // optional, nutrition values are per 100 g or 100 ml
+ *   "energyKcal": 350,  // optional, as are proteinG, fatG, carbsG and sodiumMg, null clears
+ *   "lowStockThreshold": 500,  // optional, in the new unit when it changes, null removes it
+ *   "density": 0.53,  // optional, grams per milliliter, converts between mass and volume, null removes it
+ *   "shelfLifeChilledHours": 72,  // optional, also shelfLifeAmbientHours and shelfLifeFrozenHours, null removes it
+ *   "storageNotes": "Keep covered",  // optional, null removes them
+ *   "seasons": [{ "startMonth": 4, "endMonth": 6, "region": "Germany" }],  // optional, replaces the seasons, [] makes it available all year
+ *   "unitChange": "convert"  // optional, "reject" (default) or "convert"
  * }
  */
 export async function PUT(
@@ -90,58 +193,249 @@ export async function PUT(
   context: { params: Promise<{ ingredientId: string }> }
 ) {
   try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "ingredient:manage");
+
     const { ingredientId: ingredientIdParam } = await context.params;
     const ingredientId = parseInt(ingredientIdParam, 10);
     if (isNaN(ingredientId) || ingredientId <= 0) {
       throw new ValidationError("Invalid ingredient ID");
     }
 
+    const { searchParams } = new URL(request.url);
+    const dryRun = searchParams.get("dryRun") === "true";
+
     const body = await request.json();
     const validatedData = updateIngredientSchema.parse(body);
 
     // Check if ingredient exists
     const existingIngredient = await prisma.ingredient.findUnique({
       where: { id: ingredientId },
-      select: { id: true },
     });
 
-    if (!existingIngredient) {
+    if (!existingIngredient || existingIngredient.deletedAt) {
       throw new NotFoundError("Ingredient not found");
     }
 
-    // Check if another ingredient with the same name exists (name is unique)
-    if (validatedData.name) {
-      const duplicateIngredient = await prisma.ingredient.findUnique({
-        where: {
-          name: validatedData.name,
-        },
-        select: { id: true },
-      });
+    // Names and aliases are unique across ingredients, ignoring case, accents and spacing
+    const existingAliases = (
+      await prisma.ingredientalias.findMany({
+        where: { ingredientId },
+        select: { name: true },
+        orderBy: { name: "asc" },
+      })
+    ).map((alias) => alias.name);
+    const aliases = validatedData.aliases ?? existingAliases;
+    const existingSeasons =
+      (await loadIngredientSeasons(prisma, [ingredientId])).get(
+        ingredientId
+      ) ?? [];
+    const seasons = validatedData.seasons ?? existingSeasons;
+    if (validatedData.name || validatedData.aliases) {
+      const name = validatedData.name ?? existingIngredient.name;
+      assertDistinctNames(name, aliases);
 
-      if (duplicateIngredient && duplicateIngredient.id !== ingredientId) {
+      const duplicate = await findIngredientByName(
+        prisma,
+        [name, ...aliases],
+        ingredientId
+      );
+      if (duplicate) {
         throw new ConflictError(
-          `An ingredient with the name "${validatedData.name}" already exists`
+          `The name "${duplicate.name}" is already used by the ingredient "${duplicate.ingredient.name}"`
         );
       }
     }
 
-    const updateData: { name?: string; unit?: string } = {};
-    if (validatedData.name) updateData.name = validatedData.name;
+    if (validatedData.categoryId) {
+      await assertCategoryExists(prisma, validatedData.categoryId);
+    }
+
+    const newUnit =
+      validatedData.unit &&
+      isUnitChange(existingIngredient.unit, validatedData.unit)
+        ? validatedData.unit
+        : null;
+    // A density sent along with the new unit is used to convert between mass and volume
+    const density =
+      validatedData.density !== undefined
+        ? validatedData.density
+        : existingIngredient.density;
+    const unitChangeReport = newUnit
+      ? await buildUnitChangeReport(
+          prisma,
+          { ...existingIngredient, density },
+          newUnit
+        )
+      : null;
+
+    if (dryRun) {
+      return NextResponse.json(
+        {
+          success: true,
+          data: { unitChange: unitChangeReport },
+          message: "Dry run, no changes were made",
+        },
+        { status: 200 }
+      );
+    }
+
+    if (unitChangeReport) {
+      assertUnitChangeAllowed(unitChangeReport, validatedData.unitChange);
+    }
+
+    const updateData: {
+      name?: string;
+      normalizedName?: string;
+      unit?: string;
+      categoryId?: number | null;
+      nutritionBasis?: string;
+      lowStockThreshold?: number | null;
+      density?: number | null;
+      storageNotes?: string | null;
+    } & Partial<AllergenFlags> &
+      ReturnType<typeof pickNutrientValues> &
+      Partial<Record<ShelfLifeField, number | null>> = {
+      ...pickNutrientValues(validatedData),
+      ...pickShelfLifeValues(validatedData),
+    };
+    if (validatedData.name) {
+      updateData.name = validatedData.name;
+      updateData.normalizedName = normalizeIngredientName(validatedData.name);
+    }
     if (validatedData.unit) updateData.unit = validatedData.unit;
+    if (validatedData.categoryId !== undefined) {
+      updateData.categoryId = validatedData.categoryId;
+    }
+    if (validatedData.nutritionBasis) {
+      updateData.nutritionBasis = validatedData.nutritionBasis;
+    }
+    if (validatedData.allergens) {
+      Object.assign(updateData, toAllergenFlags(validatedData.allergens));
+    }
+    if (validatedData.density !== undefined) {
+      updateData.density = validatedData.density;
+    }
+    if (validatedData.storageNotes !== undefined) {
+      updateData.storageNotes = validatedData.storageNotes || null;
+    }
+    if (validatedData.lowStockThreshold !== undefined) {
+      updateData.lowStockThreshold = validatedData.lowStockThreshold;
+    }
 
-    const updatedIngredient = await prisma.ingredient.update({
-      where: { id: ingredientId },
-      data: {
-        ...updateData,
-        updatedAt: new Date(),
-      },
-      select: {
-        id: true,
-        name: true,
-        unit: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+    const updatedIngredient = await prisma.$transaction(async (tx) => {
+      // Lock the ingredient before anything else is read, dish writes and stock
+      // movements wait for the change and the reads below see what they committed
+      const locked = await lockIngredient(tx, ingredientId);
+      if (!locked || locked.deletedAt) {
+        throw new NotFoundError("Ingredient not found");
+      }
+      // The unit, density and threshold may have changed since the ingredient was read above
+      const current = { ...existingIngredient, ...locked };
+      const lockedNewUnit =
+        validatedData.unit && isUnitChange(current.unit, validatedData.unit)
+          ? validatedData.unit
+          : null;
+      const lockedDensity =
+        validatedData.density !== undefined
+          ? validatedData.density
+          : current.density;
+
+      // Dish versions recorded before snapshots keep the current name and unit
+      await snapshotLegacyDishIngredients(tx, current);
+
+      // Check again with the locked unit, a dish or stock movement may have been added since
+      if (lockedNewUnit) {
+        const report = await buildUnitChangeReport(
+          tx,
+          { ...current, density: lockedDensity },
+          lockedNewUnit
+        );
+        assertUnitChangeAllowed(report, validatedData.unitChange);
+        if (validatedData.unitChange === "convert") {
+          await applyUnitChange(
+            tx,
+            report,
+            validatedData.name ?? current.name,
+            currentChef.id
+          );
+        }
+
+        await rescaleSubstituteRatios(
+          tx,
+          ingredientId,
+          current.unit,
+          lockedNewUnit,
+          lockedDensity
+        );
+        await rescalePackQuantities(
+          tx,
+          ingredientId,
+          current.unit,
+          lockedNewUnit,
+          lockedDensity
+        );
+
+        if (
+          validatedData.lowStockThreshold === undefined &&
+          report.lowStockThreshold
+        ) {
+          // The threshold is in the ingredient's unit, keep the same quantity or
+          // clear it rather than read the old figure in the new unit
+          updateData.lowStockThreshold = report.lowStockThreshold.to;
+        }
+      }
+
+      const ingredient = await tx.ingredient.update({
+        where: { id: ingredientId },
+        data: {
+          ...updateData,
+          updatedAt: new Date(),
+        },
+      });
+      if (validatedData.aliases) {
+        await replaceIngredientAliases(tx, ingredientId, aliases);
+      }
+      if (validatedData.seasons) {
+        await replaceIngredientSeasons(tx, ingredientId, seasons);
+      }
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "ingredient",
+        entityId: ingredientId,
+        action: "update",
+        before: {
+          ...current,
+          aliases: existingAliases,
+          seasons: existingSeasons,
+        },
+        after: { ...ingredient, aliases, seasons },
+      });
+
+      return {
+        id: ingredient.id,
+        name: ingredient.name,
+        aliases,
+        unit: ingredient.unit,
+        categoryId: ingredient.categoryId,
+        allergens: getAllergenCodes(ingredient),
+        nutritionBasis: ingredient.nutritionBasis,
+        energyKcal: ingredient.energyKcal,
+        proteinG: ingredient.proteinG,
+        fatG: ingredient.fatG,
+        carbsG: ingredient.carbsG,
+        sodiumMg: ingredient.sodiumMg,
+        lowStockThreshold: ingredient.lowStockThreshold,
+        density: ingredient.density,
+        shelfLifeAmbientHours: ingredient.shelfLifeAmbientHours,
+        shelfLifeChilledHours: ingredient.shelfLifeChilledHours,
+        shelfLifeFrozenHours: ingredient.shelfLifeFrozenHours,
+        storageNotes: ingredient.storageNotes,
+        seasons,
+        createdAt: ingredient.createdAt,
+        updatedAt: ingredient.updatedAt,
+      };
     });
 
     return NextResponse.json(
@@ -167,6 +461,179 @@ export async function PUT(
       );
     }
 
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error && typeof error === "object" && "issues" in error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request data validation failed",
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/ingredients/[ingredientId]
+ *
+ * Delete a specific ingredient by ID (admins and head chefs only)
+ *
+ * Rejected with a CONFLICT error listing the dishes while the current version
+ * of any dish uses the ingredient. An ingredient that only appears in older
+ * dish versions or has stock movements is kept as a deleted record so that
+ * history still resolves, otherwise it is removed.
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ ingredientId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "ingredient:manage");
+
+    const { ingredientId: ingredientIdParam } = await context.params;
+    const ingredientId = parseInt(ingredientIdParam, 10);
+    if (isNaN(ingredientId) || ingredientId <= 0) {
+      throw new ValidationError("Invalid ingredient ID");
+    }
+
+    const existingIngredient = await prisma.ingredient.findUnique({
+      where: { id: ingredientId },
+    });
+
+    if (!existingIngredient || existingIngredient.deletedAt) {
+      throw new NotFoundError("Ingredient not found");
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      // Lock the ingredient before the usage is read, dish writes wait for the
+      // delete so no line can be added between the check and the delete
+      const locked = await lockIngredient(tx, ingredientId);
+      if (!locked || locked.deletedAt) {
+        throw new NotFoundError("Ingredient not found");
+      }
+      const current = { ...existingIngredient, ...locked };
+
+      const usage = await findCurrentUsage(tx, ingredientId);
+      if (usage.length > 0) {
+        throw new ConflictError(
+          `Ingredient is used by ${usage.length} dish(es)`,
+          { dishes: usage }
+        );
+      }
+
+      const historicalRowCount = await countHistoricalUsage(tx, ingredientId);
+      // The stock ledger is append-only, it outlives the ingredient
+      const stockMovementCount = await tx.stockmovement.count({
+        where: { ingredientId },
+      });
+      const retainedForHistory =
+        historicalRowCount > 0 || stockMovementCount > 0;
+      let deletedIngredient = current;
+      if (retainedForHistory) {
+        await snapshotLegacyDishIngredients(tx, current);
+        // The aliases are free to be used by other ingredients again
+        await tx.ingredientalias.deleteMany({ where: { ingredientId } });
+        deletedIngredient = await tx.ingredient.update({
+          where: { id: ingredientId },
+          data: { deletedAt: new Date(), updatedAt: new Date() },
+        });
+      } else {
+        await tx.ingredient.delete({ where: { id: ingredientId } });
+      }
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "ingredient",
+        entityId: ingredientId,
+        action: "delete",
+        before: current,
+        after: retainedForHistory ? deletedIngredient : null,
+      });
+
+      return { id: ingredientId, retainedForHistory };
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: result,
+        message: "Ingredient deleted successfully",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error instanceof ConflictError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
     if (error && typeof error === "object" && "issues" in error) {
       return NextResponse.json(
         {
@@ -0,0 +1,219 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { updateIngredientSubstituteSchema } from "@/lib/validations";
+import { AppError, NotFoundError, ValidationError } from "@/lib/errors";
+
+/**
+ * PUT /api/ingredients/[ingredientId]/substitutes/[substituteId]
+ *
+ * Update the ratio or notes of a substitute (admins and head chefs only)
+ *
+ * Request body:
+ * {
+ *   "ratio": 0.8,
+ *   "notes": null  // null clears the notes
+ * }
+ */
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ ingredientId: string; substituteId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "ingredient:manage");
+
+    const { ingredientId: ingredientIdParam, substituteId: substituteIdParam } =
+      await context.params;
+    const ingredientId = parseInt(ingredientIdParam, 10);
+    if (isNaN(ingredientId) || ingredientId <= 0) {
+      throw new ValidationError("Invalid ingredient ID");
+    }
+    const substituteId = parseInt(substituteIdParam, 10);
+    if (isNaN(substituteId) || substituteId <= 0) {
+      throw new ValidationError("Invalid substitute ID");
+    }
+
+    const body = await request.json();
+    const validatedData = updateIngredientSubstituteSchema.parse(body);
+
+    const existingSubstitute = await prisma.ingredientsubstitute.findUnique({
+      where: { ingredientId_substituteId: { ingredientId, substituteId } },
+    });
+
+    if (!existingSubstitute) {
+      throw new NotFoundError("The ingredient has no such substitute");
+    }
+
+    const substitute = await prisma.$transaction(async (tx) => {
+      const updatedSubstitute = await tx.ingredientsubstitute.update({
+        where: { id: existingSubstitute.id },
+        data: {
+          ratio: validatedData.ratio,
+          notes:
+            validatedData.notes !== undefined
+              ? validatedData.notes || null
+              : undefined,
+          updatedAt: new Date(),
+        },
+      });
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "ingredient",
+        entityId: ingredientId,
+        action: "substitute_update",
+        before: existingSubstitute,
+        after: updatedSubstitute,
+      });
+
+      return updatedSubstitute;
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: substitute,
+        message: "Substitute updated successfully",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error && typeof error === "object" && "issues" in error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request data validation failed",
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/ingredients/[ingredientId]/substitutes/[substituteId]
+ *
+ * Remove a substitute of an ingredient (admins and head chefs only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ ingredientId: string; substituteId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "ingredient:manage");
+
+    const { ingredientId: ingredientIdParam, substituteId: substituteIdParam } =
+      await context.params;
+    const ingredientId = parseInt(ingredientIdParam, 10);
+    if (isNaN(ingredientId) || ingredientId <= 0) {
+      throw new ValidationError("Invalid ingredient ID");
+    }
+    const substituteId = parseInt(substituteIdParam, 10);
+    if (isNaN(substituteId) || substituteId <= 0) {
+      throw new ValidationError("Invalid substitute ID");
+    }
+
+    const existingSubstitute = await prisma.ingredientsubstitute.findUnique({
+      where: { ingredientId_substituteId: { ingredientId, substituteId } },
+    });
+
+    if (!existingSubstitute) {
+      throw new NotFoundError("The ingredient has no such substitute");
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.ingredientsubstitute.delete({
+        where: { id: existingSubstitute.id },
+      });
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "ingredient",
+        entityId: ingredientId,
+        action: "substitute_remove",
+        before: existingSubstitute,
+      });
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { ingredientId, substituteId },
+        message: "Substitute removed successfully",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,253 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { createIngredientSubstituteSchema } from "@/lib/validations";
+import { loadStockLevels } from "@/lib/inventory";
+import {
+  AppError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+} from "@/lib/errors";
+
+/**
+ * GET /api/ingredients/[ingredientId]/substitutes
+ *
+ * Get the ingredients that can stand in for an ingredient. onHand is the
+ * stock of the substitute, null when its stock is not tracked.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ ingredientId: string }> }
+) {
+  try {
+    await requireChef(request);
+
+    const { ingredientId: ingredientIdParam } = await context.params;
+    const ingredientId = parseInt(ingredientIdParam, 10);
+    if (isNaN(ingredientId) || ingredientId <= 0) {
+      throw new ValidationError("Invalid ingredient ID");
+    }
+
+    const ingredient = await prisma.ingredient.findUnique({
+      where: { id: ingredientId },
+      select: { id: true },
+    });
+
+    if (!ingredient) {
+      throw new NotFoundError("Ingredient not found");
+    }
+
+    const substitutes = await prisma.ingredientsubstitute.findMany({
+      where: { ingredientId, substitute: { deletedAt: null } },
+      include: { substitute: { select: { name: true, unit: true } } },
+      orderBy: { substitute: { name: "asc" } },
+    });
+    const levels = await loadStockLevels(
+      prisma,
+      substitutes.map((row) => row.substituteId)
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: substitutes.map(({ substitute, ...row }) => ({
+          ...row,
+          substituteName: substitute.name,
+          substituteUnit: substitute.unit,
+          onHand: levels.get(row.substituteId)?.onHand ?? null,
+        })),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/ingredients/[ingredientId]/substitutes
+ *
+ * Add a substitute for an ingredient (admins and head chefs only). The
+ * substitute amount is the ingredient amount times ratio, converted to the
+ * substitute's unit. Between units that cannot be converted, ratio is
+ * substitute units per ingredient unit. Substitutes only work one way.
+ *
+ * Request body:
+ * {
+ *   "substituteId": 2,
+ *   "ratio": 0.75,  // 1 tbsp butter -> 0.75 tbsp oil
+ *   "notes": "Use a neutral oil"  // optional
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ ingredientId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "ingredient:manage");
+
+    const { ingredientId: ingredientIdParam } = await context.params;
+    const ingredientId = parseInt(ingredientIdParam, 10);
+    if (isNaN(ingredientId) || ingredientId <= 0) {
+      throw new ValidationError("Invalid ingredient ID");
+    }
+
+    const body = await request.json();
+    const validatedData = createIngredientSubstituteSchema.parse(body);
+
+    if (validatedData.substituteId === ingredientId) {
+      throw new ValidationError("An ingredient cannot substitute itself");
+    }
+
+    const [ingredient, substitute] = await Promise.all([
+      prisma.ingredient.findUnique({
+        where: { id: ingredientId },
+        select: { id: true, deletedAt: true },
+      }),
+      prisma.ingredient.findUnique({
+        where: { id: validatedData.substituteId },
+        select: { id: true, name: true, unit: true, deletedAt: true },
+      }),
+    ]);
+
+    if (!ingredient || ingredient.deletedAt) {
+      throw new NotFoundError("Ingredient not found");
+    }
+    if (!substitute || substitute.deletedAt) {
+      throw new NotFoundError("Substitute ingredient not found");
+    }
+
+    const existingSubstitute = await prisma.ingredientsubstitute.findUnique({
+      where: {
+        ingredientId_substituteId: {
+          ingredientId,
+          substituteId: validatedData.substituteId,
+        },
+      },
+      select: { id: true },
+    });
+
+    if (existingSubstitute) {
+      throw new ConflictError(
+        `"${substitute.name}" is already a substitute for this ingredient`
+      );
+    }
+
+    const now = new Date();
+    const created = await prisma.$transaction(async (tx) => {
+      const newSubstitute = await tx.ingredientsubstitute.create({
+        data: {
+          ingredientId,
+          substituteId: validatedData.substituteId,
+          ratio: validatedData.ratio,
+          notes: validatedData.notes || null,
+          createdAt: now,
+          updatedAt: now,
+        },
+      });
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "ingredient",
+        entityId: ingredientId,
+        action: "substitute_add",
+        after: newSubstitute,
+      });
+
+      return newSubstitute;
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...created,
+          substituteName: substitute.name,
+          substituteUnit: substitute.unit,
+        },
+        message: "Substitute added successfully",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error && typeof error === "object" && "issues" in error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request data validation failed",
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
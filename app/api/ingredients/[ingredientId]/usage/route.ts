@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { findDishUsage } from "@/lib/ingredient-usage";
+import { AppError, NotFoundError, ValidationError } from "@/lib/errors";
+
+/**
+ * GET /api/ingredients/[ingredientId]/usage
+ *
+ * Get the dishes whose current version uses a specific ingredient, with the
+ * amount, chef and version. With includeHistorical=true, dishes that only used
+ * the ingredient in older versions are listed after them with current=false and
+ * the latest such version.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ ingredientId: string }> }
+) {
+  try {
+    await requireChef(request);
+
+    const { searchParams } = new URL(request.url);
+    const current = parseInt(searchParams.get("current") || "1", 10);
+    const pageSize = parseInt(searchParams.get("pageSize") || "10", 10);
+    const offset = (current - 1) * pageSize;
+    const includeHistorical = searchParams.get("includeHistorical") === "true";
+
+    const { ingredientId: ingredientIdParam } = await context.params;
+    const ingredientId = parseInt(ingredientIdParam, 10);
+    if (isNaN(ingredientId) || ingredientId <= 0) {
+      throw new ValidationError("Invalid ingredient ID");
+    }
+
+    const ingredient = await prisma.ingredient.findUnique({
+      where: { id: ingredientId },
+      select: { id: true },
+    });
+
+    if (!ingredient) {
+      throw new NotFoundError("Ingredient not found");
+    }
+
+    const usage = await findDishUsage(prisma, ingredientId, includeHistorical);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: usage.slice(offset, offset + pageSize),
+        total: usage.length,
+        current,
+        pageSize,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
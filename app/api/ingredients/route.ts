@@ -1,5 +1,45 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { countCurrentUsage } from "@/lib/ingredient-usage";
+import { loadEffectivePrices } from "@/lib/ingredient-prices";
+import { loadStockLevels } from "@/lib/inventory";
+import { isLowStock } from "@/lib/stock";
+import {
+  normalizeIngredientName,
+  scoreIngredientMatch,
+} from "@/lib/ingredient-names";
+import {
+  ALIAS_SELECT,
+  assertDistinctNames,
+  findIngredientByName,
+  replaceIngredientAliases,
+  withAliases,
+} from "@/lib/ingredient-aliases";
+import { PACK_SELECT } from "@/lib/ingredient-packs";
+import {
+  SEASON_SELECT,
+  replaceIngredientSeasons,
+} from "@/lib/ingredient-seasons";
+import {
+  ALLERGEN_SELECT,
+  getAllergenCodes,
+  toAllergenFlags,
+  withAllergens,
+} from "@/lib/allergens";
+import {
+  NUTRITION_SELECT,
+  defaultNutritionBasis,
+  pickNutrientValues,
+} from "@/lib/nutrition";
+import { SHELF_LIFE_SELECT, pickShelfLifeValues } from "@/lib/shelf-life";
+import {
+  assertCategoryExists,
+  collectDescendantIds,
+  loadCategories,
+} from "@/lib/categories";
 import {
   createIngredientSchema,
   updateIngredientSchema,
@@ -14,41 +54,93 @@ import {
 /**
  * POST /api/ingredients
  *
- * Create a new ingredient
+ * Create a new ingredient (admins and head chefs only)
  *
  * Request body:
  * {
  *   "name": "Rice",
- *   "unit": "g"
+ *   "aliases": ["Basmati", "Riz"],  // optional, other names the ingredient is found by
+ *   "unit": "g",
+ *   "categoryId": 3,  // optional
+ *   "allergens": ["wheat"],  // optional, codes of the major allergens
+ *   "nutritionBasis": "g",  // optional, values are per 100 g or 100 ml
+ *   "energyKcal": 130,  // optional, as are proteinG, fatG, carbsG and sodiumMg
+ *   "proteinG": 2.7,
+ *   "lowStockThreshold": 500,  // optional, in the ingredient's unit
+ *   "density": 0.53,  // optional, grams per milliliter, lets amounts convert between mass and volume
+ *   "shelfLifeAmbientHours": 4,  // optional, hours the ingredient keeps at room temperature
+ *   "shelfLifeChilledHours": 72,  // optional, in the fridge
+ *   "shelfLifeFrozenHours": 2160,  // optional, in the freezer
+ *   "storageNotes": "Keep covered",  // optional, printed on prep labels
+ *   "seasons": [  // optional, months the ingredient is in season, available all year without seasons
+ *     { "startMonth": 4, "endMonth": 6, "region": "Germany" },  // region is optional
+ *     { "startMonth": 11, "endMonth": 2 }  // ranges may wrap around the new year
+ *   ]
  * }
  */
 export async function POST(request: NextRequest) {
   try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "ingredient:manage");
+
     const body = await request.json();
     const validatedData = createIngredientSchema.parse(body);
 
-    // Check if ingredient with same name already exists (name is unique)
-    const existingIngredient = await prisma.ingredient.findUnique({
-      where: {
-        name: validatedData.name,
-      },
-      select: { id: true },
-    });
+    const aliases = validatedData.aliases ?? [];
+    const seasons = validatedData.seasons ?? [];
+    assertDistinctNames(validatedData.name, aliases);
 
-    if (existingIngredient) {
+    // Names and aliases are unique across ingredients, ignoring case, accents and spacing
+    const existing = await findIngredientByName(prisma, [
+      validatedData.name,
+      ...aliases,
+    ]);
+
+    if (existing) {
       throw new ConflictError(
-        `An ingredient with the name "${validatedData.name}" already exists`
+        existing.ingredient.deletedAt
+          ? `The name "${existing.name}" belongs to a deleted ingredient that is kept for dish history`
+          : `The name "${existing.name}" is already used by the ingredient "${existing.ingredient.name}"`
       );
     }
 
+    if (validatedData.categoryId) {
+      await assertCategoryExists(prisma, validatedData.categoryId);
+    }
+
     const now = new Date();
-    const ingredient = await prisma.ingredient.create({
-      data: {
-        name: validatedData.name,
-        unit: validatedData.unit,
-        createdAt: now,
-        updatedAt: now,
-      },
+    const ingredient = await prisma.$transaction(async (tx) => {
+      const newIngredient = await tx.ingredient.create({
+        data: {
+          name: validatedData.name,
+          normalizedName: normalizeIngredientName(validatedData.name),
+          unit: validatedData.unit,
+          categoryId: validatedData.categoryId ?? null,
+          ...toAllergenFlags(validatedData.allergens ?? []),
+          nutritionBasis:
+            validatedData.nutritionBasis ??
+            defaultNutritionBasis(validatedData.unit),
+          ...pickNutrientValues(validatedData),
+          lowStockThreshold: validatedData.lowStockThreshold ?? null,
+          density: validatedData.density ?? null,
+          ...pickShelfLifeValues(validatedData),
+          storageNotes: validatedData.storageNotes || null,
+          createdAt: now,
+          updatedAt: now,
+        },
+      });
+      await replaceIngredientAliases(tx, newIngredient.id, aliases);
+      await replaceIngredientSeasons(tx, newIngredient.id, seasons);
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "ingredient",
+        entityId: newIngredient.id,
+        action: "create",
+        after: { ...newIngredient, aliases, seasons },
+      });
+
+      return newIngredient;
     });
 
     return NextResponse.json(
@@ -57,7 +149,23 @@ export async function POST(request: NextRequest) {
         data: {
           id: ingredient.id,
           name: ingredient.name,
+          aliases,
           unit: ingredient.unit,
+          categoryId: ingredient.categoryId,
+          allergens: getAllergenCodes(ingredient),
+          nutritionBasis: ingredient.nutritionBasis,
+          energyKcal: ingredient.energyKcal,
+          proteinG: ingredient.proteinG,
+          fatG: ingredient.fatG,
+          carbsG: ingredient.carbsG,
+          sodiumMg: ingredient.sodiumMg,
+          lowStockThreshold: ingredient.lowStockThreshold,
+          density: ingredient.density,
+          shelfLifeAmbientHours: ingredient.shelfLifeAmbientHours,
+          shelfLifeChilledHours: ingredient.shelfLifeChilledHours,
+          shelfLifeFrozenHours: ingredient.shelfLifeFrozenHours,
+          storageNotes: ingredient.storageNotes,
+          seasons,
           createdAt: now,
           updatedAt: now,
         },
@@ -124,45 +232,130 @@ export async function POST(request: NextRequest) {
 /**
  * GET /api/ingredients
  *
- * Get all ingredients
+ * Get all ingredients, usageCount is the number of dishes whose current
+ * version uses the ingredient. categoryId limits the list to that category
+ * and all of its subcategories. currentPrice is the price effective now, null
+ * when no price has been recorded yet. onHand is the stock level in the
+ * ingredient's unit, lowStock is true at or below lowStockThreshold.
+ * substituteCount is the number of ingredients that can stand in for it.
+ * packs are the packs it is bought and counted in.
+ * search matches the name and the aliases with tolerance for typos, results
+ * are then ranked by how closely they match instead of by last update.
  */
 export async function GET(request: NextRequest) {
   try {
+    await requireChef(request);
+
     const { searchParams } = new URL(request.url);
     const current = parseInt(searchParams.get("current") || "1", 10);
     const pageSize = parseInt(searchParams.get("pageSize") || "10", 10);
     const skip = (current - 1) * pageSize;
 
     const search = searchParams.get("search")?.trim();
-    const where = search
-      ? {
-          OR: [{ name: { contains: search } }, { unit: { contains: search } }],
-        }
-      : undefined;
-
-    const [total, ingredients] = await Promise.all([
-      prisma.ingredient.count({ where }),
-      prisma.ingredient.findMany({
+
+    const categoryIdParam = searchParams.get("categoryId");
+    let categoryIds: number[] | undefined;
+    if (categoryIdParam) {
+      const categoryId = parseInt(categoryIdParam, 10);
+      if (isNaN(categoryId) || categoryId <= 0) {
+        throw new ValidationError("Invalid category ID");
+      }
+      categoryIds = collectDescendantIds(
+        await loadCategories(prisma),
+        categoryId
+      );
+    }
+    // Deleted and merged ingredients are only kept for dish history
+    const where = {
+      deletedAt: null,
+      ...(categoryIds ? { categoryId: { in: categoryIds } } : {}),
+    };
+
+    // Fuzzy matches cannot be expressed in SQL, candidates are ranked here and
+    // only the requested page is loaded in full
+    let rankedIds: number[] | null = null;
+    if (search) {
+      const candidates = await prisma.ingredient.findMany({
         where,
+        select: { id: true, name: true, unit: true, ...ALIAS_SELECT },
+      });
+      rankedIds = candidates
+        .map((candidate) => ({
+          id: candidate.id,
+          name: candidate.name,
+          score: Math.max(
+            scoreIngredientMatch(search, [
+              candidate.name,
+              ...candidate.aliases.map((alias) => alias.name),
+            ]),
+            candidate.unit.toLowerCase() === search.toLowerCase() ? 0.5 : 0
+          ),
+        }))
+        .filter((candidate) => candidate.score > 0)
+        .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+        .map((candidate) => candidate.id);
+    }
+    const pageIds = rankedIds?.slice(skip, skip + pageSize);
+
+    const [total, rows] = await Promise.all([
+      rankedIds ? rankedIds.length : prisma.ingredient.count({ where }),
+      prisma.ingredient.findMany({
+        where: pageIds ? { id: { in: pageIds } } : where,
         select: {
           id: true,
           name: true,
           unit: true,
+          categoryId: true,
+          category: { select: { id: true, name: true } },
+          ...ALLERGEN_SELECT,
+          ...NUTRITION_SELECT,
+          lowStockThreshold: true,
+          density: true,
+          ...SHELF_LIFE_SELECT,
+          storageNotes: true,
+          ...SEASON_SELECT,
+          ...ALIAS_SELECT,
+          ...PACK_SELECT,
+          _count: {
+            select: {
+              substitutes: { where: { substitute: { deletedAt: null } } },
+            },
+          },
           createdAt: true,
           updatedAt: true,
         },
         orderBy: {
           updatedAt: "desc",
         },
-        skip,
-        take: pageSize,
+        ...(pageIds ? {} : { skip, take: pageSize }),
       }),
     ]);
+    const ingredients = pageIds
+      ? pageIds.flatMap((id) => rows.filter((row) => row.id === id))
+      : rows;
+
+    // Number of dishes whose current version uses the ingredient
+    const ingredientIds = ingredients.map((ingredient) => ingredient.id);
+    const [usageCounts, prices, stockLevels] = await Promise.all([
+      countCurrentUsage(prisma, ingredientIds),
+      loadEffectivePrices(prisma, ingredientIds, new Date()),
+      loadStockLevels(prisma, ingredientIds),
+    ]);
 
     return NextResponse.json(
       {
         success: true,
-        data: ingredients,
+        data: ingredients.map(({ _count, ...ingredient }) => {
+          const onHand = stockLevels.get(ingredient.id)?.onHand ?? 0;
+          return {
+            ...withAliases(withAllergens(ingredient)),
+            substituteCount: _count.substitutes,
+            usageCount: usageCounts.get(ingredient.id) ?? 0,
+            currentPrice: prices.get(ingredient.id) ?? null,
+            onHand,
+            lowStock: isLowStock(onHand, ingredient.lowStockThreshold),
+          };
+        }),
         total,
         current,
         pageSize,
@@ -170,6 +363,19 @@ export async function GET(request: NextRequest) {
       { status: 200 }
     );
   } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
     console.error("Unexpected error:", error);
     return NextResponse.json(
       {
@@ -0,0 +1,296 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { appendStockMovement, toIngredientQuantity } from "@/lib/inventory";
+import { loadIngredientPacks } from "@/lib/ingredient-packs";
+import { lockIngredient } from "@/lib/ingredient-locks";
+import {
+  STOCK_CORRECTION_TYPES,
+  STOCK_MOVEMENT_TYPES,
+  type StockMovementType,
+} from "@/lib/stock";
+import { createStockMovementSchema } from "@/lib/validations";
+import { AppError, NotFoundError, ValidationError } from "@/lib/errors";
+
+function parseDateParam(value: string | null, name: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`Invalid ${name} date`);
+  }
+  return date;
+}
+
+/**
+ * POST /api/inventory/movements
+ *
+ * Record a stock movement. The ledger is append-only, mistakes are corrected
+ * with an adjustment or a count (admins and head chefs only).
+ *
+ * quantity is positive for receipt, usage and waste, signed for an adjustment,
+ * and the quantity found on hand for a count. It is converted to the
+ * ingredient's unit.
+ *
+ * Request body:
+ * {
+ *   "ingredientId": 1,
+ *   "type": "receipt",  // receipt | usage | waste | adjustment | count
+ *   "quantity": 2.5,
+ *   "unit": "kg",  // optional, defaults to the ingredient's unit, may be one of its packs ("case")
+ *   "note": "Weekly delivery"  // optional
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "inventory:record");
+
+    const body = await request.json();
+    const validatedData = createStockMovementSchema.parse(body);
+    if (STOCK_CORRECTION_TYPES.includes(validatedData.type)) {
+      requirePermission(currentChef, "inventory:manage");
+    }
+
+    const ingredient = await prisma.ingredient.findUnique({
+      where: { id: validatedData.ingredientId },
+      select: { id: true, name: true, deletedAt: true },
+    });
+
+    if (!ingredient || ingredient.deletedAt) {
+      throw new NotFoundError("Ingredient not found");
+    }
+
+    // The quantity is converted with the unit, packs and density read under the
+    // row lock, so a unit change cannot slip in between
+    const movement = await prisma.$transaction(async (tx) => {
+      const locked = await lockIngredient(tx, ingredient.id);
+      if (!locked || locked.deletedAt) {
+        throw new NotFoundError("Ingredient not found");
+      }
+
+      const packs = await loadIngredientPacks(tx, [ingredient.id]);
+      const entered = toIngredientQuantity(
+        validatedData.quantity,
+        locked.unit,
+        validatedData.unit,
+        packs.get(ingredient.id),
+        locked.density
+      );
+
+      const newMovement = await appendStockMovement(tx, {
+        ingredientId: ingredient.id,
+        type: validatedData.type,
+        quantity: entered.quantity,
+        unit: locked.unit,
+        enteredQuantity: validatedData.quantity,
+        enteredUnit: entered.unit,
+        note: validatedData.note || null,
+        createdById: currentChef.id,
+      });
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "ingredient",
+        entityId: ingredient.id,
+        action: "stock_movement",
+        after: newMovement,
+      });
+
+      return newMovement;
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...movement,
+          ingredientName: ingredient.name,
+          createdByName: currentChef.name,
+        },
+        message: "Stock movement recorded successfully",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error && typeof error === "object" && "issues" in error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request data validation failed",
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/inventory/movements
+ *
+ * Get stock movements, newest first. quantity is the change of the on-hand
+ * quantity and balanceAfter the level after it, both in the unit the movement
+ * was recorded in. A unit_change movement books the level in the ingredient's
+ * new unit.
+ *
+ * Query parameters:
+ * - ingredientId: ingredient ID (optional)
+ * - type: receipt | usage | waste | adjustment | count | unit_change (optional)
+ * - from / to: ISO date range on createdAt (optional)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireChef(request);
+
+    const { searchParams } = new URL(request.url);
+    const current = parseInt(searchParams.get("current") || "1", 10);
+    const pageSize = parseInt(searchParams.get("pageSize") || "10", 10);
+    const skip = (current - 1) * pageSize;
+
+    const ingredientIdParam = searchParams.get("ingredientId");
+    const ingredientId = ingredientIdParam
+      ? parseInt(ingredientIdParam, 10)
+      : undefined;
+    if (
+      ingredientId !== undefined &&
+      (isNaN(ingredientId) || ingredientId <= 0)
+    ) {
+      throw new ValidationError("Invalid ingredient ID");
+    }
+
+    const type = searchParams.get("type");
+    if (type && !STOCK_MOVEMENT_TYPES.includes(type as StockMovementType)) {
+      throw new ValidationError("Invalid movement type");
+    }
+
+    const from = parseDateParam(searchParams.get("from"), "from");
+    const to = parseDateParam(searchParams.get("to"), "to");
+
+    const where = {
+      ...(ingredientId !== undefined ? { ingredientId } : {}),
+      ...(type ? { type } : {}),
+      ...(from || to
+        ? {
+            createdAt: {
+              ...(from ? { gte: from } : {}),
+              ...(to ? { lte: to } : {}),
+            },
+          }
+        : {}),
+    };
+
+    const [total, movements] = await Promise.all([
+      prisma.stockmovement.count({ where }),
+      prisma.stockmovement.findMany({
+        where,
+        include: {
+          ingredient: { select: { name: true, unit: true } },
+        },
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        skip,
+        take: pageSize,
+      }),
+    ]);
+
+    const chefIds = [
+      ...new Set(
+        movements
+          .map((movement) => movement.createdById)
+          .filter((id): id is number => id !== null)
+      ),
+    ];
+    const chefs = await prisma.chef.findMany({
+      where: { id: { in: chefIds } },
+      select: { id: true, name: true },
+    });
+    const chefNames = new Map(chefs.map((chef) => [chef.id, chef.name]));
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: movements.map(({ ingredient, ...movement }) => ({
+          ...movement,
+          ingredientName: ingredient.name,
+          unit: movement.unit ?? ingredient.unit,
+          createdByName:
+            movement.createdById !== null
+              ? chefNames.get(movement.createdById) ?? null
+              : null,
+        })),
+        total,
+        current,
+        pageSize,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { loadStockLevels } from "@/lib/inventory";
+import { isLowStock } from "@/lib/stock";
+import { packBreakdown } from "@/lib/packs";
+import { PACK_SELECT } from "@/lib/ingredient-packs";
+import { AppError } from "@/lib/errors";
+
+/**
+ * GET /api/inventory
+ *
+ * Get the stock level of every ingredient, in the ingredient's unit.
+ * onHandInPacks is the same level in whole packs of the ingredient, largest
+ * first, with the rest in the ingredient's unit.
+ *
+ * Query parameters:
+ * - search: ingredient name (optional)
+ * - lowStock: "true" to only return ingredients at or below their low stock threshold (optional)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireChef(request);
+
+    const { searchParams } = new URL(request.url);
+    const current = parseInt(searchParams.get("current") || "1", 10);
+    const pageSize = parseInt(searchParams.get("pageSize") || "10", 10);
+    const skip = (current - 1) * pageSize;
+    const search = searchParams.get("search")?.trim();
+    const lowStockOnly = searchParams.get("lowStock") === "true";
+
+    const ingredients = await prisma.ingredient.findMany({
+      where: {
+        deletedAt: null,
+        ...(search ? { name: { contains: search } } : {}),
+      },
+      select: {
+        id: true,
+        name: true,
+        unit: true,
+        lowStockThreshold: true,
+        ...PACK_SELECT,
+      },
+      orderBy: { name: "asc" },
+    });
+    const levels = await loadStockLevels(
+      prisma,
+      ingredients.map((ingredient) => ingredient.id)
+    );
+
+    // Levels are sums over the ledger, so the low stock filter is applied before paging
+    const rows = ingredients
+      .map((ingredient) => {
+        const level = levels.get(ingredient.id);
+        const onHand = level?.onHand ?? 0;
+        return {
+          ingredientId: ingredient.id,
+          ingredientName: ingredient.name,
+          unit: ingredient.unit,
+          onHand,
+          onHandInPacks: packBreakdown(onHand, ingredient.packs),
+          lowStockThreshold: ingredient.lowStockThreshold,
+          lowStock: isLowStock(onHand, ingredient.lowStockThreshold),
+          lastMovementAt: level?.lastMovementAt ?? null,
+        };
+      })
+      .filter((row) => !lowStockOnly || row.lowStock);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: rows.slice(skip, skip + pageSize),
+        total: rows.length,
+        current,
+        pageSize,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
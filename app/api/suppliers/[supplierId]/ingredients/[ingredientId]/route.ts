@@ -0,0 +1,239 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { updateSupplierIngredientSchema } from "@/lib/validations";
+import { resolvePriceUnit } from "@/lib/ingredient-prices";
+import { PACK_SELECT } from "@/lib/ingredient-packs";
+import { clearPreferredSupplier, withUnitPrice } from "@/lib/suppliers";
+import { AppError, NotFoundError, ValidationError } from "@/lib/errors";
+
+/**
+ * PUT /api/suppliers/[supplierId]/ingredients/[ingredientId]
+ *
+ * Update the pack size, price, lead time or preferred flag of an ingredient
+ * the supplier sells (admins and head chefs only)
+ *
+ * Request body:
+ * {
+ *   "price": 39.9,
+ *   "preferred": true
+ * }
+ */
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ supplierId: string; ingredientId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "supplier:manage");
+
+    const { supplierId: supplierIdParam, ingredientId: ingredientIdParam } =
+      await context.params;
+    const supplierId = parseInt(supplierIdParam, 10);
+    if (isNaN(supplierId) || supplierId <= 0) {
+      throw new ValidationError("Invalid supplier ID");
+    }
+    const ingredientId = parseInt(ingredientIdParam, 10);
+    if (isNaN(ingredientId) || ingredientId <= 0) {
+      throw new ValidationError("Invalid ingredient ID");
+    }
+
+    const body = await request.json();
+    const validatedData = updateSupplierIngredientSchema.parse(body);
+
+    const existingLink = await prisma.supplieringredient.findUnique({
+      where: { supplierId_ingredientId: { supplierId, ingredientId } },
+      include: {
+        ingredient: { select: { unit: true, density: true, ...PACK_SELECT } },
+      },
+    });
+
+    if (!existingLink) {
+      throw new NotFoundError("The supplier does not sell this ingredient");
+    }
+
+    const { ingredient, ...before } = existingLink;
+    const packUnit =
+      validatedData.packUnit !== undefined
+        ? resolvePriceUnit(
+            ingredient.unit,
+            validatedData.packUnit,
+            ingredient.packs,
+            ingredient.density
+          )
+        : undefined;
+
+    const link = await prisma.$transaction(async (tx) => {
+      if (validatedData.preferred) {
+        await clearPreferredSupplier(tx, ingredientId, supplierId);
+      }
+
+      const updatedLink = await tx.supplieringredient.update({
+        where: { id: existingLink.id },
+        data: {
+          packSize: validatedData.packSize,
+          packUnit,
+          price: validatedData.price,
+          leadTimeDays: validatedData.leadTimeDays,
+          preferred: validatedData.preferred,
+          updatedAt: new Date(),
+        },
+      });
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "supplier",
+        entityId: supplierId,
+        action: "ingredient_update",
+        before,
+        after: updatedLink,
+      });
+
+      return updatedLink;
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: withUnitPrice(link),
+        message: "Supplier ingredient updated successfully",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error && typeof error === "object" && "issues" in error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request data validation failed",
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/suppliers/[supplierId]/ingredients/[ingredientId]
+ *
+ * Stop listing an ingredient for a supplier (admins and head chefs only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ supplierId: string; ingredientId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "supplier:manage");
+
+    const { supplierId: supplierIdParam, ingredientId: ingredientIdParam } =
+      await context.params;
+    const supplierId = parseInt(supplierIdParam, 10);
+    if (isNaN(supplierId) || supplierId <= 0) {
+      throw new ValidationError("Invalid supplier ID");
+    }
+    const ingredientId = parseInt(ingredientIdParam, 10);
+    if (isNaN(ingredientId) || ingredientId <= 0) {
+      throw new ValidationError("Invalid ingredient ID");
+    }
+
+    const existingLink = await prisma.supplieringredient.findUnique({
+      where: { supplierId_ingredientId: { supplierId, ingredientId } },
+    });
+
+    if (!existingLink) {
+      throw new NotFoundError("The supplier does not sell this ingredient");
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.supplieringredient.delete({ where: { id: existingLink.id } });
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "supplier",
+        entityId: supplierId,
+        action: "ingredient_remove",
+        before: existingLink,
+      });
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { supplierId, ingredientId },
+        message: "Supplier ingredient removed successfully",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { createSupplierIngredientSchema } from "@/lib/validations";
+import { resolvePriceUnit } from "@/lib/ingredient-prices";
+import { PACK_SELECT } from "@/lib/ingredient-packs";
+import { clearPreferredSupplier, withUnitPrice } from "@/lib/suppliers";
+import {
+  AppError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+} from "@/lib/errors";
+
+/**
+ * POST /api/suppliers/[supplierId]/ingredients
+ *
+ * Add an ingredient the supplier sells (admins and head chefs only). price is
+ * the price of one pack of packSize packUnit, packUnit defaults to the
+ * ingredient's unit and has to be convertible to it or be one of the
+ * ingredient's packs, e.g. a packSize of 1 "case". Marking the supplier as
+ * preferred clears the flag on the ingredient's other suppliers.
+ *
+ * Request body:
+ * {
+ *   "ingredientId": 1,
+ *   "packSize": 25,
+ *   "packUnit": "kg",       // optional
+ *   "price": 42.5,
+ *   "leadTimeDays": 2,      // optional
+ *   "preferred": true       // optional
+ * }
+ */
+export async function POST(
+  request: NextRequest,
+  context: { params: Promise<{ supplierId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "supplier:manage");
+
+    const { supplierId: supplierIdParam } = await context.params;
+    const supplierId = parseInt(supplierIdParam, 10);
+    if (isNaN(supplierId) || supplierId <= 0) {
+      throw new ValidationError("Invalid supplier ID");
+    }
+
+    const body = await request.json();
+    const validatedData = createSupplierIngredientSchema.parse(body);
+
+    const [supplier, ingredient] = await Promise.all([
+      prisma.supplier.findUnique({
+        where: { id: supplierId },
+        select: { id: true },
+      }),
+      prisma.ingredient.findUnique({
+        where: { id: validatedData.ingredientId },
+        select: {
+          id: true,
+          unit: true,
+          density: true,
+          deletedAt: true,
+          ...PACK_SELECT,
+        },
+      }),
+    ]);
+
+    if (!supplier) {
+      throw new NotFoundError("Supplier not found");
+    }
+    if (!ingredient || ingredient.deletedAt) {
+      throw new NotFoundError("Ingredient not found");
+    }
+
+    const existingLink = await prisma.supplieringredient.findUnique({
+      where: {
+        supplierId_ingredientId: {
+          supplierId,
+          ingredientId: validatedData.ingredientId,
+        },
+      },
+      select: { id: true },
+    });
+
+    if (existingLink) {
+      throw new ConflictError(
+        "The supplier already sells this ingredient, update it instead"
+      );
+    }
+
+    const packUnit = resolvePriceUnit(
+      ingredient.unit,
+      validatedData.packUnit,
+      ingredient.packs,
+      ingredient.density
+    );
+
+    const now = new Date();
+    const link = await prisma.$transaction(async (tx) => {
+      if (validatedData.preferred) {
+        await clearPreferredSupplier(tx, ingredient.id, supplierId);
+      }
+
+      const newLink = await tx.supplieringredient.create({
+        data: {
+          supplierId,
+          ingredientId: ingredient.id,
+          packSize: validatedData.packSize,
+          packUnit,
+          price: validatedData.price,
+          leadTimeDays: validatedData.leadTimeDays ?? null,
+          preferred: validatedData.preferred ?? false,
+          createdAt: now,
+          updatedAt: now,
+        },
+      });
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "supplier",
+        entityId: supplierId,
+        action: "ingredient_add",
+        after: newLink,
+      });
+
+      return newLink;
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: withUnitPrice(link),
+        message: "Supplier ingredient added successfully",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error && typeof error === "object" && "issues" in error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request data validation failed",
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,298 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { updateSupplierSchema } from "@/lib/validations";
+import { withUnitPrice } from "@/lib/suppliers";
+import {
+  AppError,
+  NotFoundError,
+  ValidationError,
+  ConflictError,
+} from "@/lib/errors";
+
+/**
+ * GET /api/suppliers/[supplierId]
+ *
+ * Get a specific supplier by ID with the ingredients it sells. unitPrice of
+ * each ingredient is the pack price divided by the pack size, per packUnit.
+ */
+export async function GET(
+  request: NextRequest,
+  context: { params: Promise<{ supplierId: string }> }
+) {
+  try {
+    await requireChef(request);
+
+    const { supplierId: supplierIdParam } = await context.params;
+    const supplierId = parseInt(supplierIdParam, 10);
+    if (isNaN(supplierId) || supplierId <= 0) {
+      throw new ValidationError("Invalid supplier ID");
+    }
+
+    const supplier = await prisma.supplier.findUnique({
+      where: { id: supplierId },
+      include: {
+        ingredients: {
+          include: {
+            ingredient: {
+              select: { id: true, name: true, unit: true, deletedAt: true },
+            },
+          },
+          orderBy: { ingredientId: "asc" },
+        },
+      },
+    });
+
+    if (!supplier) {
+      throw new NotFoundError("Supplier not found");
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          ...supplier,
+          ingredients: supplier.ingredients.map(withUnitPrice),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/suppliers/[supplierId]
+ *
+ * Update the name or contact details of a supplier (admins and head chefs
+ * only), null clears a contact detail
+ *
+ * Request body:
+ * {
+ *   "phone": "+1 555 0199",
+ *   "notes": null
+ * }
+ */
+export async function PUT(
+  request: NextRequest,
+  context: { params: Promise<{ supplierId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "supplier:manage");
+
+    const { supplierId: supplierIdParam } = await context.params;
+    const supplierId = parseInt(supplierIdParam, 10);
+    if (isNaN(supplierId) || supplierId <= 0) {
+      throw new ValidationError("Invalid supplier ID");
+    }
+
+    const body = await request.json();
+    const validatedData = updateSupplierSchema.parse(body);
+
+    const existingSupplier = await prisma.supplier.findUnique({
+      where: { id: supplierId },
+    });
+
+    if (!existingSupplier) {
+      throw new NotFoundError("Supplier not found");
+    }
+
+    if (validatedData.name && validatedData.name !== existingSupplier.name) {
+      const duplicate = await prisma.supplier.findUnique({
+        where: { name: validatedData.name },
+        select: { id: true },
+      });
+
+      if (duplicate) {
+        throw new ConflictError(
+          `A supplier with the name "${validatedData.name}" already exists`
+        );
+      }
+    }
+
+    const supplier = await prisma.$transaction(async (tx) => {
+      const updatedSupplier = await tx.supplier.update({
+        where: { id: supplierId },
+        data: { ...validatedData, updatedAt: new Date() },
+      });
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "supplier",
+        entityId: supplierId,
+        action: "update",
+        before: existingSupplier,
+        after: updatedSupplier,
+      });
+
+      return updatedSupplier;
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: supplier,
+        message: "Supplier updated successfully",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error && typeof error === "object" && "issues" in error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request data validation failed",
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/suppliers/[supplierId]
+ *
+ * Delete a supplier and the ingredients it sells (admins and head chefs only).
+ * Dish costs using this supplier fall back to another supplier or the
+ * recorded ingredient price.
+ */
+export async function DELETE(
+  request: NextRequest,
+  context: { params: Promise<{ supplierId: string }> }
+) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "supplier:manage");
+
+    const { supplierId: supplierIdParam } = await context.params;
+    const supplierId = parseInt(supplierIdParam, 10);
+    if (isNaN(supplierId) || supplierId <= 0) {
+      throw new ValidationError("Invalid supplier ID");
+    }
+
+    const existingSupplier = await prisma.supplier.findUnique({
+      where: { id: supplierId },
+      include: { ingredients: true },
+    });
+
+    if (!existingSupplier) {
+      throw new NotFoundError("Supplier not found");
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.supplier.delete({ where: { id: supplierId } });
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "supplier",
+        entityId: supplierId,
+        action: "delete",
+        before: existingSupplier,
+      });
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { id: supplierId },
+        message: "Supplier deleted successfully",
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,203 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { requireChef } from "@/lib/session";
+import { requirePermission } from "@/lib/permissions";
+import { recordAudit } from "@/lib/audit";
+import { createSupplierSchema } from "@/lib/validations";
+import { AppError, ValidationError, ConflictError } from "@/lib/errors";
+
+/**
+ * POST /api/suppliers
+ *
+ * Create a new supplier (admins and head chefs only)
+ *
+ * Request body:
+ * {
+ *   "name": "Fresh Farm Produce",
+ *   "contactName": "Jane Doe",        // optional
+ *   "email": "orders@freshfarm.com",  // optional
+ *   "phone": "+1 555 0100",           // optional
+ *   "address": "12 Market Street",    // optional
+ *   "notes": "Delivers Mon-Fri"       // optional
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const currentChef = await requireChef(request);
+    requirePermission(currentChef, "supplier:manage");
+
+    const body = await request.json();
+    const validatedData = createSupplierSchema.parse(body);
+
+    const existingSupplier = await prisma.supplier.findUnique({
+      where: { name: validatedData.name },
+      select: { id: true },
+    });
+
+    if (existingSupplier) {
+      throw new ConflictError(
+        `A supplier with the name "${validatedData.name}" already exists`
+      );
+    }
+
+    const now = new Date();
+    const supplier = await prisma.$transaction(async (tx) => {
+      const newSupplier = await tx.supplier.create({
+        data: {
+          ...validatedData,
+          createdAt: now,
+          updatedAt: now,
+        },
+      });
+
+      await recordAudit(tx, {
+        actorChefId: currentChef.id,
+        entityType: "supplier",
+        entityId: newSupplier.id,
+        action: "create",
+        after: newSupplier,
+      });
+
+      return newSupplier;
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: supplier,
+        message: "Supplier created successfully",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+            details: error.details,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    if (error && typeof error === "object" && "issues" in error) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Request data validation failed",
+            details: error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/suppliers
+ *
+ * Get all suppliers, ingredientCount is the number of ingredients the
+ * supplier sells. search matches the supplier or contact name.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await requireChef(request);
+
+    const { searchParams } = new URL(request.url);
+    const current = parseInt(searchParams.get("current") || "1", 10);
+    const pageSize = parseInt(searchParams.get("pageSize") || "10", 10);
+    const skip = (current - 1) * pageSize;
+    const search = searchParams.get("search")?.trim();
+
+    const where = search
+      ? {
+          OR: [
+            { name: { contains: search } },
+            { contactName: { contains: search } },
+          ],
+        }
+      : {};
+
+    const [total, suppliers] = await Promise.all([
+      prisma.supplier.count({ where }),
+      prisma.supplier.findMany({
+        where,
+        include: { _count: { select: { ingredients: true } } },
+        orderBy: { name: "asc" },
+        skip,
+        take: pageSize,
+      }),
+    ]);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: suppliers.map(({ _count, ...supplier }) => ({
+          ...supplier,
+          ingredientCount: _count.ingredients,
+        })),
+        total,
+        current,
+        pageSize,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof AppError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: {
+            code: error.code || "APP_ERROR",
+            message: error.message,
+          },
+        },
+        { status: error.statusCode }
+      );
+    }
+
+    console.error("Unexpected error:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Internal server error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Table,
+  Select,
+  InputNumber,
+  DatePicker,
+  Button,
+  Tag,
+  message,
+  Pagination,
+} from "antd";
+import { SearchOutlined } from "@ant-design/icons";
+import {
+  auditApi,
+  chefApi,
+  type AuditLogEntry,
+  type AuditLogFilters,
+  type Chef,
+} from "@/lib/api-client";
+
+const { RangePicker } = DatePicker;
+
+const ENTITY_TYPE_OPTIONS = [
+  { label: "Chef", value: "chef" },
+  { label: "Ingredient", value: "ingredient" },
+  { label: "Category", value: "category" },
+  { label: "Dish", value: "dish" },
+  { label: "Supplier", value: "supplier" },
+];
+
+const ACTION_COLORS: Record<string, string> = {
+  create: "green",
+  update: "blue",
+};
+
+// A page of the audit log, null when it could not be loaded
+async function loadAuditLog(
+  current: number,
+  pageSize: number,
+  filters: AuditLogFilters
+) {
+  try {
+    const response = await auditApi.getAll(current, pageSize, filters);
+    if (response.success && response.data) {
+      return {
+        entries: response.data,
+        pagination: {
+          current: response.current || current,
+          pageSize: response.pageSize || pageSize,
+          total: response.total || 0,
+        },
+      };
+    }
+    message.error(response.error?.message || "Failed to fetch audit log");
+  } catch {
+    message.error("Failed to fetch audit log");
+  }
+  return null;
+}
+
+export default function AuditPage() {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [chefs, setChefs] = useState<Chef[]>([]);
+  // The first page is loading on mount
+  const [loading, setLoading] = useState(true);
+  const [pagination, setPagination] = useState({
+    current: 1,
+    pageSize: 10,
+    total: 0,
+  });
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+
+  const fetchEntries = async (
+    current = 1,
+    pageSize = 10,
+    activeFilters = filters
+  ) => {
+    setLoading(true);
+    const page = await loadAuditLog(current, pageSize, activeFilters);
+    if (page) {
+      setEntries(page.entries);
+      setPagination(page.pagination);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadAuditLog(1, 10, {}).then((page) => {
+      if (page) {
+        setEntries(page.entries);
+        setPagination(page.pagination);
+      }
+      setLoading(false);
+    });
+    chefApi
+      .getAll(1, 1000, undefined, true)
+      .then((response) => {
+        if (response.success && response.data) {
+          setChefs(response.data);
+        }
+      })
+      .catch((error) => console.error("Failed to fetch chefs", error));
+  }, []);
+
+  const renderSnapshot = (value: unknown) =>
+    value === null || value === undefined ? (
+      <span>-</span>
+    ) : (
+      <pre style={{ margin: 0, whiteSpace: "pre-wrap" }}>
+        {JSON.stringify(value, null, 2)}
+      </pre>
+    );
+
+  const columns = [
+    {
+      title: "Time",
+      dataIndex: "createdAt",
+      key: "createdAt",
+      width: 200,
+      render: (text: string) => new Date(text).toLocaleString("en-US"),
+    },
+    {
+      title: "Actor",
+      dataIndex: "actorName",
+      key: "actorName",
+      render: (text: string | null) => text || "-",
+    },
+    {
+      title: "Entity",
+      key: "entity",
+      render: (_: unknown, record: AuditLogEntry) =>
+        `${record.entityType} #${record.entityId}`,
+    },
+    {
+      title: "Action",
+      dataIndex: "action",
+      key: "action",
+      width: 120,
+      render: (action: string) => (
+        <Tag color={ACTION_COLORS[action] || "default"}>{action}</Tag>
+      ),
+    },
+  ];
+
+  return (
+    <div>
+      <div
+        style={{
+          marginBottom: 16,
+          display: "flex",
+          flexWrap: "wrap",
+          gap: 8,
+          alignItems: "center",
+          width: "100%",
+        }}
+      >
+        <Select
+          placeholder="Entity type"
+          allowClear
+          style={{ width: 160 }}
+          options={ENTITY_TYPE_OPTIONS}
+          value={filters.entityType}
+          onChange={(value) => setFilters({ ...filters, entityType: value })}
+        />
+        <InputNumber
+          placeholder="Entity ID"
+          min={1}
+          style={{ width: 120 }}
+          value={filters.entityId}
+          onChange={(value) =>
+            setFilters({ ...filters, entityId: value ?? undefined })
+          }
+        />
+        <Select
+          placeholder="Actor"
+          allowClear
+          showSearch={{ optionFilterProp: "label" }}
+          style={{ width: 200 }}
+          options={chefs.map((chef) => ({ label: chef.name, value: chef.id }))}
+          value={filters.actorChefId}
+          onChange={(value) => setFilters({ ...filters, actorChefId: value })}
+        />
+        <RangePicker
+          showTime
+          onChange={(range) =>
+            setFilters({
+              ...filters,
+              from: range?.[0]?.toISOString(),
+              to: range?.[1]?.toISOString(),
+            })
+          }
+        />
+        <Button
+          type="primary"
+          icon={<SearchOutlined />}
+          onClick={() => fetchEntries(1, pagination.pageSize, filters)}
+        >
+          Search
+        </Button>
+      </div>
+
+      <Table
+        columns={columns}
+        dataSource={entries}
+        rowKey="id"
+        loading={loading}
+        pagination={false}
+        expandable={{
+          expandedRowRender: (record: AuditLogEntry) => (
+            <div style={{ display: "flex", gap: 24 }}>
+              <div style={{ flex: 1 }}>
+                <h4>Before</h4>
+                {renderSnapshot(record.before)}
+              </div>
+              <div style={{ flex: 1 }}>
+                <h4>After</h4>
+                {renderSnapshot(record.after)}
+              </div>
+            </div>
+          ),
+        }}
+      />
+      <div style={{ marginTop: 16, display: "flex", justifyContent: "center" }}>
+        <Pagination
+          current={pagination.current}
+          pageSize={pagination.pageSize}
+          total={pagination.total}
+          onChange={(page, pageSize) => {
+            fetchEntries(page, pageSize, filters);
+          }}
+          showSizeChanger
+          showTotal={(total, range) =>
+            `${range[0]}-${range[1]} of ${total} entries`
+          }
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Table,
+  Button,
+  Modal,
+  Form,
+  Input,
+  message,
+  Space,
+  Popconfirm,
+} from "antd";
+import {
+  PlusOutlined,
+  EditOutlined,
+  DeleteOutlined,
+} from "@ant-design/icons";
+import {
+  categoryApi,
+  type CategoryNode,
+  type CategoryData,
+} from "@/lib/api-client";
+import { auth } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { CategoryTreeSelect } from "@/components/CategoryTreeSelect";
+
+interface CategoryRow extends Omit<CategoryNode, "children"> {
+  children?: CategoryRow[];
+}
+
+// Leaf categories get no children so the table does not show an expand icon for them
+function toRows(nodes: CategoryNode[]): CategoryRow[] {
+  return nodes.map(({ children, ...node }) => ({
+    ...node,
+    children: children.length > 0 ? toRows(children) : undefined,
+  }));
+}
+
+// Null when the tree could not be loaded, the error is shown
+async function loadCategoryTree(): Promise<CategoryNode[] | null> {
+  try {
+    const response = await categoryApi.getTree();
+    if (response.success && response.data) {
+      return response.data;
+    }
+    message.error(response.error?.message || "Failed to fetch categories");
+  } catch {
+    message.error("Failed to fetch categories");
+  }
+  return null;
+}
+
+export default function CategoriesPage() {
+  const [categories, setCategories] = useState<CategoryNode[]>([]);
+  // The tree is loading on mount
+  const [loading, setLoading] = useState(true);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<CategoryRow | null>(
+    null
+  );
+  const [form] = Form.useForm();
+  const canManageCategories = hasPermission(
+    auth.getCurrentChef()?.role,
+    "ingredient:manage"
+  );
+
+  const fetchCategories = async () => {
+    setLoading(true);
+    const tree = await loadCategoryTree();
+    if (tree) setCategories(tree);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadCategoryTree().then((tree) => {
+      if (tree) setCategories(tree);
+      setLoading(false);
+    });
+  }, []);
+
+  const handleCreate = (parentId: number | null = null) => {
+    setEditingCategory(null);
+    form.resetFields();
+    form.setFieldsValue({ parentId: parentId ?? undefined });
+    setModalVisible(true);
+  };
+
+  const handleEdit = (category: CategoryRow) => {
+    setEditingCategory(category);
+    form.setFieldsValue({
+      name: category.name,
+      parentId: category.parentId ?? undefined,
+    });
+    setModalVisible(true);
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      const response = await categoryApi.delete(id);
+      if (response.success) {
+        message.success("Deleted successfully");
+        fetchCategories();
+      } else {
+        message.error(response.error?.message || "Failed to delete");
+      }
+    } catch {
+      message.error("Failed to delete");
+    }
+  };
+
+  const handleSubmit = async () => {
+    try {
+      const values = await form.validateFields();
+      const data: CategoryData = {
+        name: values.name,
+        parentId: values.parentId ?? null,
+      };
+
+      const response = editingCategory
+        ? await categoryApi.update(editingCategory.id, data)
+        : await categoryApi.create(data);
+      if (response.success) {
+        message.success(
+          editingCategory ? "Updated successfully" : "Created successfully"
+        );
+        setModalVisible(false);
+        fetchCategories();
+      } else {
+        message.error(
+          response.error?.message ||
+            (editingCategory ? "Failed to update" : "Failed to create")
+        );
+      }
+    } catch (error) {
+      console.error("Validation failed:", error);
+    }
+  };
+
+  const columns = [
+    {
+      title: "Name",
+      dataIndex: "name",
+      key: "name",
+    },
+    {
+      title: "Ingredients",
+      dataIndex: "ingredientCount",
+      key: "ingredientCount",
+      width: 120,
+    },
+    {
+      title: "Actions",
+      key: "action",
+      width: 320,
+      hidden: !canManageCategories,
+      render: (_: unknown, record: CategoryRow) => (
+        <Space>
+          <Button
+            type="link"
+            icon={<PlusOutlined />}
+            onClick={() => handleCreate(record.id)}
+          >
+            Subcategory
+          </Button>
+          <Button
+            type="link"
+            icon={<EditOutlined />}
+            onClick={() => handleEdit(record)}
+          >
+            Edit
+          </Button>
+          <Popconfirm
+            title="Are you sure you want to delete?"
+            onConfirm={() => handleDelete(record.id)}
+          >
+            <Button type="link" danger icon={<DeleteOutlined />}>
+              Delete
+            </Button>
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <div>
+      {canManageCategories && (
+        <div
+          style={{
+            marginBottom: 16,
+            display: "flex",
+            justifyContent: "flex-end",
+          }}
+        >
+          <Button
+            type="primary"
+            icon={<PlusOutlined />}
+            onClick={() => handleCreate()}
+          >
+            New Category
+          </Button>
+        </div>
+      )}
+
+      <Table
+        columns={columns}
+        dataSource={toRows(categories)}
+        rowKey="id"
+        loading={loading}
+        pagination={false}
+      />
+
+      <Modal
+        title={editingCategory ? "Edit Category" : "New Category"}
+        open={modalVisible}
+        onOk={handleSubmit}
+        onCancel={() => setModalVisible(false)}
+        okText="OK"
+        cancelText="Cancel"
+        width={600}
+      >
+        <Form
+          form={form}
+          layout="horizontal"
+          labelCol={{ span: 6 }}
+          wrapperCol={{ span: 18 }}
+        >
+          <Form.Item
+            name="name"
+            label="Name"
+            rules={[{ required: true, message: "Please enter category name" }]}
+          >
+            <Input placeholder="Enter category name" />
+          </Form.Item>
+          <Form.Item name="parentId" label="Parent">
+            <CategoryTreeSelect
+              categories={categories}
+              placeholder="Top level"
+            />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </div>
+  );
+}
@@ -7,13 +7,44 @@ import {
   Modal,
   Form,
   Input,
+  Select,
+  Switch,
+  Radio,
+  Alert,
+  Tag,
   message,
   Space,
   Popconfirm,
   Pagination,
 } from "antd";
-import { PlusOutlined, EditOutlined, DeleteOutlined } from "@ant-design/icons";
-import { chefApi, type Chef, type UpdateChefData } from "@/lib/api-client";
+import {
+  PlusOutlined,
+  EditOutlined,
+  StopOutlined,
+  CheckCircleOutlined,
+  UnlockOutlined,
+  KeyOutlined,
+  SwapOutlined,
+} from "@ant-design/icons";
+import {
+  chefApi,
+  type Chef,
+  type UpdateChefData,
+  type DishNameConflict,
+} from "@/lib/api-client";
+import { auth } from "@/lib/auth";
+import {
+  hasPermission,
+  CHEF_ROLES,
+  CHEF_ROLE_LABELS,
+  type ChefRole,
+} from "@/lib/permissions";
+
+const ROLE_COLORS: Record<ChefRole, string> = {
+  admin: "red",
+  head_chef: "gold",
+  cook: "blue",
+};
 
 export default function ChefsPage() {
   const [chefs, setChefs] = useState<Chef[]>([]);
@@ -27,11 +58,23 @@ export default function ChefsPage() {
     total: 0,
   });
   const [searchKeyword, setSearchKeyword] = useState("");
+  const [showInactive, setShowInactive] = useState(false);
+  const currentChef = auth.getCurrentChef();
+  const canManageChefs = hasPermission(currentChef?.role, "chef:manage");
+  const canTransferDishes = hasPermission(currentChef?.role, "dish:transfer");
+  const [transferForm] = Form.useForm();
+  const [transferSource, setTransferSource] = useState<Chef | null>(null);
+  const [transferTargets, setTransferTargets] = useState<Chef[]>([]);
+  const [transferConflicts, setTransferConflicts] = useState<
+    DishNameConflict[]
+  >([]);
+  const [transferring, setTransferring] = useState(false);
 
   const fetchChefs = async (
     current = 1,
     pageSize = 10,
-    keyword = searchKeyword
+    keyword = searchKeyword,
+    includeInactive = showInactive
   ) => {
     const normalizedKeyword = keyword?.trim() || undefined;
     setLoading(true);
@@ -39,7 +82,8 @@ export default function ChefsPage() {
       const response = await chefApi.getAll(
         current,
         pageSize,
-        normalizedKeyword
+        normalizedKeyword,
+        includeInactive
       );
       if (response.success && response.data) {
         setChefs(response.data);
@@ -65,6 +109,7 @@ export default function ChefsPage() {
   const handleCreate = () => {
     setEditingChef(null);
     form.resetFields();
+    form.setFieldsValue({ role: "cook" });
     setModalVisible(true);
   };
 
@@ -73,16 +118,94 @@ export default function ChefsPage() {
     form.setFieldsValue({
       name: chef.name,
       username: chef.username,
+      role: chef.role,
     });
     setModalVisible(true);
   };
 
-  const handleDelete = async (id: number) => {
+  const handleDeactivate = async (chef: Chef) => {
+    const response = await chefApi.deactivate(chef.id);
+    if (response.success) {
+      message.success("Deactivated successfully");
+      fetchChefs(pagination.current, pagination.pageSize, searchKeyword);
+    } else {
+      message.error(response.error?.message || "Failed to deactivate");
+    }
+  };
+
+  const handleReactivate = async (chef: Chef) => {
+    const response = await chefApi.reactivate(chef.id);
+    if (response.success) {
+      message.success("Reactivated successfully");
+      fetchChefs(pagination.current, pagination.pageSize, searchKeyword);
+    } else {
+      message.error(response.error?.message || "Failed to reactivate");
+    }
+  };
+
+  const handleUnlock = async (chef: Chef) => {
+    const response = await chefApi.unlock(chef.id);
+    if (response.success) {
+      message.success("Unlocked successfully");
+      fetchChefs(pagination.current, pagination.pageSize, searchKeyword);
+    } else {
+      message.error(response.error?.message || "Failed to unlock");
+    }
+  };
+
+  const handleResetPassword = async (chef: Chef) => {
+    const response = await chefApi.requestPasswordReset(chef.id);
+    if (response.success) {
+      message.success(`Password reset link sent to ${chef.name}`);
+    } else {
+      message.error(response.error?.message || "Failed to reset password");
+    }
+  };
+
+  const handleOpenTransfer = async (chef: Chef) => {
+    setTransferSource(chef);
+    setTransferConflicts([]);
+    transferForm.resetFields();
+    transferForm.setFieldsValue({ onConflict: "fail" });
     try {
-      // Note: Delete endpoint is not available, can be added if needed
-      message.info("Delete functionality requires backend support");
+      // Dishes can only be transferred to active chefs
+      const response = await chefApi.getAll(1, 1000);
+      if (response.success && response.data) {
+        setTransferTargets(response.data.filter((c) => c.id !== chef.id));
+      }
+    } catch (error) {
+      console.error("Failed to fetch chefs", error);
+    }
+  };
+
+  const handleTransfer = async () => {
+    if (!transferSource) return;
+    try {
+      const values = await transferForm.validateFields();
+      setTransferring(true);
+      const response = await chefApi.transferDishes(
+        transferSource.id,
+        values.toChefId,
+        values.onConflict
+      );
+      if (response.success && response.data) {
+        const renamedCount = response.data.transferred.filter(
+          (result) => result.renamed
+        ).length;
+        message.success(
+          `Transferred ${response.data.transferred.length} dish(es)` +
+            (renamedCount > 0 ? `, ${renamedCount} renamed` : "")
+        );
+        setTransferSource(null);
+      } else if (response.error?.code === "CONFLICT" && response.error.details) {
+        setTransferConflicts(response.error.details.conflicts || []);
+      } else {
+        message.error(response.error?.message || "Failed to transfer dishes");
+      }
     } catch (error) {
-      message.error("Failed to delete");
+      console.error("Validation failed:", error);
+    } finally {
+      setTransferring(false);
     }
   };
 
@@ -92,7 +215,10 @@ export default function ChefsPage() {
 
       if (editingChef) {
         // Update
-        const updateData: UpdateChefData = { name: values.name };
+        const updateData: UpdateChefData = {
+          name: values.name,
+          role: values.role,
+        };
         const response = await chefApi.update(editingChef.id, updateData);
         if (response.success) {
           message.success("Updated successfully");
@@ -140,6 +266,30 @@ export default function ChefsPage() {
       dataIndex: "username",
       key: "username",
     },
+    {
+      title: "Role",
+      dataIndex: "role",
+      key: "role",
+      width: 120,
+      render: (role: ChefRole) => (
+        <Tag color={ROLE_COLORS[role]}>{CHEF_ROLE_LABELS[role]}</Tag>
+      ),
+    },
+    {
+      title: "Status",
+      key: "status",
+      width: 220,
+      render: (_: unknown, record: Chef) =>
+        !record.active ? (
+          <Tag>Deactivated</Tag>
+        ) : record.lockedUntil ? (
+          <Tag color="orange">
+            Locked until {new Date(record.lockedUntil).toLocaleString("en-US")}
+          </Tag>
+        ) : (
+          <Tag color="green">Active</Tag>
+        ),
+    },
     {
       title: "Created At",
       dataIndex: "createdAt",
@@ -157,24 +307,73 @@ export default function ChefsPage() {
     {
       title: "Actions",
       key: "action",
-      width: 150,
+      width: 500,
+      hidden: !canManageChefs && !canTransferDishes,
       render: (_: any, record: Chef) => (
         <Space>
-          <Button
-            type="link"
-            icon={<EditOutlined />}
-            onClick={() => handleEdit(record)}
-          >
-            Edit
-          </Button>
-          <Popconfirm
-            title="Are you sure you want to delete?"
-            onConfirm={() => handleDelete(record.id)}
-          >
-            <Button type="link" danger icon={<DeleteOutlined />}>
-              Delete
+          {canManageChefs && (
+            <Button
+              type="link"
+              icon={<EditOutlined />}
+              onClick={() => handleEdit(record)}
+            >
+              Edit
+            </Button>
+          )}
+          {canTransferDishes && (
+            <Button
+              type="link"
+              icon={<SwapOutlined />}
+              onClick={() => handleOpenTransfer(record)}
+            >
+              Transfer Dishes
             </Button>
-          </Popconfirm>
+          )}
+          {canManageChefs && (
+            <>
+              {record.active && (
+                <Popconfirm
+                  title="Send a password reset link to this chef?"
+                  onConfirm={() => handleResetPassword(record)}
+                >
+                  <Button type="link" icon={<KeyOutlined />}>
+                    Reset Password
+                  </Button>
+                </Popconfirm>
+              )}
+              {record.lockedUntil && (
+                <Popconfirm
+                  title="Unlock this chef's login?"
+                  onConfirm={() => handleUnlock(record)}
+                >
+                  <Button type="link" icon={<UnlockOutlined />}>
+                    Unlock
+                  </Button>
+                </Popconfirm>
+              )}
+              {record.active ? (
+                record.id !== currentChef?.id && (
+                  <Popconfirm
+                    title="Deactivate this chef? They will no longer be able to log in, their dishes are kept."
+                    onConfirm={() => handleDeactivate(record)}
+                  >
+                    <Button type="link" danger icon={<StopOutlined />}>
+                      Deactivate
+                    </Button>
+                  </Popconfirm>
+                )
+              ) : (
+                <Popconfirm
+                  title="Reactivate this chef?"
+                  onConfirm={() => handleReactivate(record)}
+                >
+                  <Button type="link" icon={<CheckCircleOutlined />}>
+                    Reactivate
+                  </Button>
+                </Popconfirm>
+              )}
+            </>
+          )}
         </Space>
       ),
     },
@@ -210,14 +409,26 @@ export default function ChefsPage() {
           }}
           style={{ maxWidth: 320 }}
         />
-        <Button
-          type="primary"
-          icon={<PlusOutlined />}
-          onClick={handleCreate}
-          style={{ marginLeft: "auto" }}
-        >
-          New Chef
-        </Button>
+        <Space>
+          <Switch
+            checked={showInactive}
+            onChange={(checked) => {
+              setShowInactive(checked);
+              fetchChefs(1, pagination.pageSize, searchKeyword, checked);
+            }}
+          />
+          Show inactive
+        </Space>
+        {canManageChefs && (
+          <Button
+            type="primary"
+            icon={<PlusOutlined />}
+            onClick={handleCreate}
+            style={{ marginLeft: "auto" }}
+          >
+            New Chef
+          </Button>
+        )}
       </div>
 
       <Table
@@ -245,6 +456,54 @@ export default function ChefsPage() {
         />
       </div>
 
+      <Modal
+        title={`Transfer Dishes - ${transferSource?.name || ""}`}
+        open={!!transferSource}
+        onOk={handleTransfer}
+        onCancel={() => setTransferSource(null)}
+        okText="Transfer"
+        cancelText="Cancel"
+        confirmLoading={transferring}
+      >
+        <Form form={transferForm} layout="vertical">
+          <Form.Item
+            name="toChefId"
+            label="Transfer all dishes to"
+            rules={[{ required: true, message: "Please select a chef" }]}
+          >
+            <Select
+              showSearch={{ optionFilterProp: "label" }}
+              placeholder="Select chef"
+              options={transferTargets.map((chef) => ({
+                label: `${chef.name} (${chef.username})`,
+                value: chef.id,
+              }))}
+            />
+          </Form.Item>
+          <Form.Item
+            name="onConflict"
+            label="When the chef already has a dish with the same name"
+          >
+            <Radio.Group
+              options={[
+                { label: "Cancel the transfer", value: "fail" },
+                { label: "Rename the transferred dish", value: "rename" },
+              ]}
+            />
+          </Form.Item>
+        </Form>
+        {transferConflicts.length > 0 && (
+          <Alert
+            type="error"
+            showIcon
+            title="Nothing was transferred, these dish names already exist"
+            description={transferConflicts
+              .map((conflict) => conflict.name)
+              .join(", ")}
+          />
+        )}
+      </Modal>
+
       <Modal
         title={editingChef ? "Edit Chef" : "New Chef"}
         open={modalVisible}
@@ -274,6 +533,18 @@ export default function ChefsPage() {
           >
             <Input placeholder="Enter name" />
           </Form.Item>
+          <Form.Item
+            name="role"
+            label="Role"
+            rules={[{ required: true, message: "Please select role" }]}
+          >
+            <Select
+              options={CHEF_ROLES.map((role) => ({
+                label: CHEF_ROLE_LABELS[role],
+                value: role,
+              }))}
+            />
+          </Form.Item>
           {!editingChef && (
             <>
               <Form.Item
@@ -16,6 +16,9 @@ import {
   Drawer,
   Timeline,
   Pagination,
+  DatePicker,
+  Switch,
+  Tooltip,
 } from "antd";
 import {
   PlusOutlined,
@@ -23,20 +26,60 @@ import {
   HistoryOutlined,
   DeleteOutlined,
   ClockCircleOutlined,
+  PieChartOutlined,
+  SwapOutlined,
 } from "@ant-design/icons";
 import {
   dishApi,
   ingredientApi,
+  categoryApi,
+  type CategoryNode,
   type Dish,
+  type DishIngredient,
+  type DishListFilters,
   type Ingredient,
   type CreateDishData,
   type UpdateDishData,
   type DishHistoryVersion,
+  type DishTransfer,
+  type DishSubstitutionProposal,
 } from "@/lib/api-client";
 import { auth } from "@/lib/auth";
+import { canEditDish } from "@/lib/permissions";
+import { getIngredientUnits } from "@/lib/packs";
+import { scoreIngredientMatch } from "@/lib/ingredient-names";
+import {
+  CategoryTreeSelect,
+  findCategoryIds,
+} from "@/components/CategoryTreeSelect";
+import { AllergenTags } from "@/components/AllergenTags";
+import { NutritionPanel } from "@/components/NutritionPanel";
+import { DishCostPanel } from "@/components/DishCostPanel";
+import { PrintLabelButton } from "@/components/PrintLabelButton";
+import { ALLERGENS, type AllergenCode } from "@/lib/allergens";
+import type { PriceSource } from "@/lib/costing";
+import { formatSeason, type DishAvailability } from "@/lib/seasons";
+import {
+  applySubstitutions,
+  type ProposedDishIngredient,
+  type SubstitutionLine,
+} from "@/lib/substitutes";
 
 const { Option } = Select;
 
+const SUBSTITUTE_REASONS = {
+  density_required: "needs the substitute's density",
+};
+
+// Show the amount as entered, with the normalized amount when the unit differs
+function formatAmount(ingredient: DishIngredient) {
+  const normalized = `${ingredient.ingredientAmount} ${ingredient.ingredientUnit}`;
+  if (ingredient.enteredUnit === ingredient.ingredientUnit) {
+    return normalized;
+  }
+  return `${ingredient.enteredAmount} ${ingredient.enteredUnit} (${normalized})`;
+}
+
 export default function DishesPage() {
   const [dishes, setDishes] = useState<Dish[]>([]);
   const [ingredients, setIngredients] = useState<Ingredient[]>([]);
@@ -45,6 +88,7 @@ export default function DishesPage() {
   const [historyVisible, setHistoryVisible] = useState(false);
   const [editingDish, setEditingDish] = useState<Dish | null>(null);
   const [history, setHistory] = useState<DishHistoryVersion[]>([]);
+  const [transfers, setTransfers] = useState<DishTransfer[]>([]);
   const [currentDishInfo, setCurrentDishInfo] = useState<{
     name: string;
     dishId: number;
@@ -61,20 +105,29 @@ export default function DishesPage() {
     total: 0,
   });
   const [searchKeyword, setSearchKeyword] = useState("");
+  // Filters applied to the list, the search keyword once it is submitted
+  const [dishFilters, setDishFilters] = useState<DishListFilters>({});
+  const [nutritionDish, setNutritionDish] = useState<Dish | null>(null);
+  const [costDish, setCostDish] = useState<Dish | null>(null);
+  const [substitutionDish, setSubstitutionDish] = useState<Dish | null>(null);
+  const [substitution, setSubstitution] =
+    useState<DishSubstitutionProposal | null>(null);
+  // Chosen substitute of each line, null keeps the ingredient
+  const [substituteChoices, setSubstituteChoices] = useState<
+    Map<number, number | null>
+  >(new Map());
+  const [categories, setCategories] = useState<CategoryNode[]>([]);
+  // Narrows the ingredient picker of the dish form, not sent to the API
+  const [pickerCategory, setPickerCategory] = useState<number | undefined>();
 
   const fetchDishes = async (
     current = 1,
     pageSize = 10,
-    keyword = searchKeyword
+    filters = dishFilters
   ) => {
-    const normalizedKeyword = keyword?.trim() || undefined;
     setLoading(true);
     try {
-      const response = await dishApi.getAll(
-        current,
-        pageSize,
-        normalizedKeyword
-      );
+      const response = await dishApi.getAll(current, pageSize, filters);
       if (response.success && response.data) {
         setDishes(response.data);
         setPagination({
@@ -92,6 +145,13 @@ export default function DishesPage() {
     }
   };
 
+  // Changing a filter goes back to the first page
+  const applyDishFilters = (changes: DishListFilters) => {
+    const filters = { ...dishFilters, ...changes };
+    setDishFilters(filters);
+    fetchDishes(1, pagination.pageSize, filters);
+  };
+
   const fetchIngredients = async () => {
     try {
       const response = await ingredientApi.getAll(1, 1000);
@@ -105,9 +165,16 @@ export default function DishesPage() {
 
   const fetchHistory = async (dishId: number, current = 1, pageSize = 10) => {
     try {
-      const response = await dishApi.getHistory(dishId, current, pageSize);
+      const response = await dishApi.getHistory(
+        dishId,
+        current,
+        pageSize,
+        dishFilters.asOf,
+        dishFilters.priceSource
+      );
       if (response.success && response.data) {
         setHistory(response.data.histories);
+        setTransfers(response.data.transfers);
         setCurrentDishInfo({ name: response.data.dish.name, dishId });
         setHistoryPagination({
           current: response.current || current,
@@ -128,25 +195,101 @@ export default function DishesPage() {
     fetchIngredients();
   }, []);
 
+  useEffect(() => {
+    categoryApi.getTree().then((response) => {
+      if (response.success && response.data) {
+        setCategories(response.data);
+      }
+    });
+  }, []);
+
+  // Ingredients of the picked category and its subcategories, plus the ones already selected
+  const getPickerIngredients = () => {
+    if (!pickerCategory) return ingredients;
+    const categoryIds = findCategoryIds(categories, pickerCategory);
+    const selectedIds = (form.getFieldValue("ingredients") || []).map(
+      (line: { ingredientId?: number } | undefined) => line?.ingredientId
+    );
+    return ingredients.filter(
+      (ing) =>
+        (ing.categoryId && categoryIds.includes(ing.categoryId)) ||
+        selectedIds.includes(ing.id)
+    );
+  };
+
   const handleCreate = () => {
     setEditingDish(null);
+    setPickerCategory(undefined);
     form.resetFields();
-    form.setFieldsValue({ ingredients: [{}] });
+    form.setFieldsValue({ servings: 1, ingredients: [{}] });
     setModalVisible(true);
   };
 
-  const handleEdit = async (dish: Dish) => {
+  // proposed replaces the current ingredients, e.g. with substitutes applied
+  const handleEdit = async (
+    dish: Dish,
+    proposed?: ProposedDishIngredient[]
+  ) => {
     setEditingDish(dish);
+    setPickerCategory(undefined);
     form.setFieldsValue({
       name: dish.name,
-      ingredients: dish.ingredients.map((ing) => ({
-        ingredientId: ing.ingredientId,
-        ingredientAmount: ing.ingredientAmount,
-      })),
+      servings: dish.servings ?? 1,
+      ingredients:
+        proposed ??
+        dish.ingredients.map((ing) => ({
+          ingredientId: ing.ingredientId,
+          ingredientAmount: ing.enteredAmount,
+          unit: ing.enteredUnit,
+        })),
     });
     setModalVisible(true);
   };
 
+  const handleViewSubstitutions = async (dish: Dish) => {
+    try {
+      const response = await dishApi.getSubstitutions(dish.id);
+      if (response.success && response.data) {
+        setSubstitutionDish(dish);
+        setSubstitution(response.data);
+        setSubstituteChoices(
+          new Map(
+            response.data.lines.map((line) => [
+              line.ingredientId,
+              line.substituteId,
+            ])
+          )
+        );
+      } else {
+        message.error(
+          response.error?.message || "Failed to fetch substitutes"
+        );
+      }
+    } catch {
+      message.error("Failed to fetch substitutes");
+    }
+  };
+
+  const handleApplySubstitutions = () => {
+    if (!substitution || !substitutionDish) return;
+    const proposed = applySubstitutions(substitution.lines, substituteChoices);
+    setSubstitution(null);
+    handleEdit(substitutionDish, proposed);
+  };
+
+  const handleViewNutrition = async (dishId: number) => {
+    try {
+      const response = await dishApi.getById(dishId);
+      if (response.success && response.data) {
+        setNutritionDish(response.data);
+      } else {
+        message.error(response.error?.message || "Failed to fetch nutrition");
+      }
+    } catch {
+      message.error("Failed to fetch nutrition");
+    }
+  };
+
   const handleViewHistory = (dishId: number) => {
     setHistoryPagination({ current: 1, pageSize: 10, total: 0 });
     fetchHistory(dishId, 1, 10);
@@ -174,26 +317,27 @@ export default function DishesPage() {
       }
 
       if (editingDish) {
-        // Check if current chef owns this dish
-        const currentChef = auth.getCurrentChef();
-        if (!currentChef || editingDish.chefId !== currentChef.id) {
+        // Check if current chef is allowed to edit this dish
+        if (!canEditDish(auth.getCurrentChef(), editingDish)) {
           message.error("You can only update your own dishes");
           return;
         }
 
-        // Update - chefId is automatically added from session storage
+        // Update - chef is resolved from the session cookie
         const updateData: UpdateDishData = {
           name: values.name,
+          servings: values.servings,
           ingredients: ingredients.map((ing: any) => ({
             ingredientId: ing.ingredientId,
             ingredientAmount: ing.ingredientAmount,
+            unit: ing.unit || undefined,
           })),
         };
         const response = await dishApi.update(editingDish.id, updateData);
         if (response.success) {
           message.success("Updated successfully");
           setModalVisible(false);
-          fetchDishes(pagination.current, pagination.pageSize, searchKeyword);
+          fetchDishes(pagination.current, pagination.pageSize);
         } else {
           // Check if it's an authorization error
           if (
@@ -206,19 +350,21 @@ export default function DishesPage() {
           }
         }
       } else {
-        // Create - chefId is automatically added from session storage
+        // Create - chef is resolved from the session cookie
         const createData: CreateDishData = {
           name: values.name,
+          servings: values.servings,
           ingredients: ingredients.map((ing: any) => ({
             ingredientId: ing.ingredientId,
             ingredientAmount: ing.ingredientAmount,
+            unit: ing.unit || undefined,
           })),
         };
         const response = await dishApi.create(createData);
         if (response.success) {
           message.success("Created successfully");
           setModalVisible(false);
-          fetchDishes(pagination.current, pagination.pageSize, searchKeyword);
+          fetchDishes(pagination.current, pagination.pageSize);
         } else {
           message.error(response.error?.message || "Failed to create");
         }
@@ -245,7 +391,17 @@ export default function DishesPage() {
       title: "Chef",
       dataIndex: "chefName",
       key: "chefName",
-      render: (text: string) => text || "-",
+      render: (text: string, record: Dish) =>
+        text ? (
+          <span>
+            {text}
+            {record.chefActive === false && (
+              <Tag style={{ marginLeft: 8 }}>Deactivated</Tag>
+            )}
+          </span>
+        ) : (
+          "-"
+        ),
     },
     {
       title: "Version",
@@ -261,11 +417,65 @@ export default function DishesPage() {
       render: (_: any, record: Dish) => {
         return (record.ingredients as any[])
           .map((item: any) => {
-            return `${item.ingredientName}: ${item.ingredientAmount} ${item.ingredientUnit}`;
+            return `${item.ingredientName}: ${formatAmount(item)}`;
           })
           .join(", ");
       },
     },
+    {
+      title: "Allergens",
+      dataIndex: "allergens",
+      key: "allergens",
+      width: 200,
+      render: (allergens: AllergenCode[] | undefined) => (
+        <AllergenTags allergens={allergens} />
+      ),
+    },
+    {
+      title: "Season",
+      dataIndex: "availability",
+      key: "availability",
+      width: 140,
+      render: (availability: DishAvailability | undefined) => {
+        if (!availability) return "-";
+        if (availability.available) {
+          return <Tag color="green">In season</Tag>;
+        }
+        return (
+          <Tooltip
+            title={availability.outOfSeason
+              .map(
+                (line) =>
+                  `${line.ingredientName}: ${line.seasons.map(formatSeason).join(", ")}`
+              )
+              .join("; ")}
+          >
+            <Tag color="orange">
+              Out of season on {availability.date}
+            </Tag>
+          </Tooltip>
+        );
+      },
+    },
+    {
+      title: "Cost",
+      dataIndex: "cost",
+      key: "cost",
+      width: 140,
+      render: (_: unknown, record: Dish) =>
+        record.cost ? (
+          <Button
+            type="link"
+            style={{ padding: 0 }}
+            onClick={() => setCostDish(record)}
+          >
+            {record.cost.total.toFixed(2)}
+            {!record.cost.complete && <Tag color="warning">Incomplete</Tag>}
+          </Button>
+        ) : (
+          "-"
+        ),
+    },
     {
       title: "Updated At",
       dataIndex: "updatedAt",
@@ -276,10 +486,9 @@ export default function DishesPage() {
     {
       title: "Actions",
       key: "action",
-      width: 200,
+      width: 400,
       render: (_: any, record: Dish) => {
-        const currentChef = auth.getCurrentChef();
-        const canEdit = currentChef && record.chefId === currentChef.id;
+        const canEdit = canEditDish(auth.getCurrentChef(), record);
 
         return (
           <Space>
@@ -299,6 +508,26 @@ export default function DishesPage() {
             >
               History
             </Button>
+            <Button
+              type="link"
+              icon={<SwapOutlined />}
+              onClick={() => handleViewSubstitutions(record)}
+              disabled={!canEdit}
+            >
+              Substitute
+            </Button>
+            <Button
+              type="link"
+              icon={<PieChartOutlined />}
+              onClick={() => handleViewNutrition(record.id)}
+              disabled={!canEdit}
+            >
+              Nutrition
+            </Button>
+            <PrintLabelButton
+              getUrl={(storage) => dishApi.getLabelUrl(record.id, { storage })}
+              disabled={!canEdit}
+            />
             <Popconfirm
               title="Are you sure you want to delete?"
               onConfirm={() => handleDelete(record.id)}
@@ -338,16 +567,78 @@ export default function DishesPage() {
             const value = e.target.value;
             setSearchKeyword(value);
             if (!value) {
-              fetchDishes(1, pagination.pageSize);
+              applyDishFilters({ search: undefined });
             }
           }}
           onSearch={(value) => {
             const keyword = value.trim();
             setSearchKeyword(keyword);
-            fetchDishes(1, pagination.pageSize, keyword);
+            applyDishFilters({ search: keyword || undefined });
           }}
           style={{ maxWidth: 360 }}
         />
+        <Select
+          mode="multiple"
+          placeholder="Exclude allergens"
+          value={dishFilters.excludeAllergens ?? []}
+          onChange={(value: AllergenCode[]) => {
+            applyDishFilters({ excludeAllergens: value });
+          }}
+          options={ALLERGENS.map((allergen) => ({
+            label: allergen.label,
+            value: allergen.code,
+          }))}
+          allowClear
+          style={{ minWidth: 240 }}
+        />
+        <DatePicker
+          placeholder="Cost as of today"
+          onChange={(value) => {
+            // Prices effective at any time of the picked day are included
+            const asOf = value ? value.endOf("day").toISOString() : undefined;
+            applyDishFilters({ asOf });
+          }}
+        />
+        <Select
+          value={dishFilters.priceSource ?? "recorded"}
+          onChange={(value: PriceSource) => {
+            applyDishFilters({ priceSource: value });
+          }}
+          options={[
+            { label: "Recorded prices", value: "recorded" },
+            { label: "Preferred suppliers", value: "preferred" },
+            { label: "Cheapest suppliers", value: "cheapest" },
+          ]}
+          style={{ width: 180 }}
+        />
+        <DatePicker
+          placeholder="Available on"
+          onChange={(value) => {
+            // Without a day the dishes are flagged for today
+            applyDishFilters({
+              availableOn: value ? value.format("YYYY-MM-DD") : undefined,
+            });
+          }}
+        />
+        <Input.Search
+          placeholder="Region"
+          allowClear
+          onSearch={(value) => {
+            applyDishFilters({ region: value.trim() || undefined });
+          }}
+          style={{ width: 160 }}
+        />
+        <Space size={4}>
+          <Switch
+            size="small"
+            checked={dishFilters.includeUnavailable ?? false}
+            disabled={!dishFilters.availableOn}
+            onChange={(checked) => {
+              applyDishFilters({ includeUnavailable: checked });
+            }}
+          />
+          Show out of season
+        </Space>
         <Button
           type="primary"
           icon={<PlusOutlined />}
@@ -386,10 +677,10 @@ export default function DishesPage() {
           pageSize={pagination.pageSize}
           total={pagination.total}
           onChange={(page, pageSize) => {
-            fetchDishes(page, pageSize, searchKeyword);
+            fetchDishes(page, pageSize);
           }}
           onShowSizeChange={(current, size) => {
-            fetchDishes(current, size, searchKeyword);
+            fetchDishes(current, size);
           }}
           showSizeChanger
           showTotal={(total, range) =>
@@ -415,6 +706,22 @@ export default function DishesPage() {
           >
             <Input placeholder="Enter dish name" />
           </Form.Item>
+          <Form.Item
+            name="servings"
+            label="Servings"
+            rules={[{ required: true, message: "Please enter servings" }]}
+          >
+            <InputNumber min={1} max={1000} precision={0} />
+          </Form.Item>
+          <Form.Item label="Ingredient Category">
+            <CategoryTreeSelect
+              categories={categories}
+              placeholder="All categories"
+              value={pickerCategory}
+              onChange={setPickerCategory}
+              style={{ width: 240 }}
+            />
+          </Form.Item>
           <Form.List name="ingredients">
             {(fields, { add, remove }) => (
               <>
@@ -437,11 +744,19 @@ export default function DishesPage() {
                       <Select
                         placeholder="Select ingredient"
                         style={{ width: 200 }}
-                        showSearch={{ optionFilterProp: "label" }}
-                        options={ingredients.map((ing) => {
+                        showSearch={{
+                          // Matches the name and aliases, tolerating typos, best matches first
+                          filterOption: (input, option) =>
+                            scoreIngredientMatch(input, option?.names ?? []) > 0,
+                          filterSort: (a, b, { searchValue }) =>
+                            scoreIngredientMatch(searchValue, b.names) -
+                            scoreIngredientMatch(searchValue, a.names),
+                        }}
+                        options={getPickerIngredients().map((ing) => {
                           return {
                             label: `${ing.name} (${ing.unit})`,
                             value: ing.id,
+                            names: [ing.name, ...(ing.aliases ?? [])],
                           };
                         })}
                       >
@@ -466,6 +781,41 @@ export default function DishesPage() {
                         step={0.1}
                       />
                     </Form.Item>
+                    <Form.Item noStyle shouldUpdate>
+                      {() => {
+                        // Only units of the same dimension as the ingredient can be converted
+                        const ingredient = ingredients.find(
+                          (ing) =>
+                            ing.id ===
+                            form.getFieldValue([
+                              "ingredients",
+                              name,
+                              "ingredientId",
+                            ])
+                        );
+                        return (
+                          <Form.Item {...restField} name={[name, "unit"]}>
+                            <Select
+                              placeholder={ingredient?.unit || "Unit"}
+                              style={{ width: 120 }}
+                              allowClear
+                              options={
+                                ingredient
+                                  ? getIngredientUnits(
+                                      ingredient.unit,
+                                      ingredient.packs,
+                                      ingredient.density
+                                    ).map((unit) => ({
+                                      label: unit,
+                                      value: unit,
+                                    }))
+                                  : []
+                              }
+                            />
+                          </Form.Item>
+                        );
+                      }}
+                    </Form.Item>
                     <Button
                       type="link"
                       danger
@@ -492,6 +842,111 @@ export default function DishesPage() {
         </Form>
       </Modal>
 
+      <Modal
+        title={`Substitutes - ${substitution?.dishName || ""}`}
+        open={substitution !== null}
+        onOk={handleApplySubstitutions}
+        onCancel={() => setSubstitution(null)}
+        okText="Edit with substitutes"
+        okButtonProps={{
+          disabled: ![...substituteChoices.values()].some(
+            (choice) => choice !== null
+          ),
+        }}
+        width={800}
+      >
+        <p>
+          Lines short of stock get a substitute proposed. The dish is only
+          changed once the edited version is saved.
+        </p>
+        <Table
+          size="small"
+          pagination={false}
+          rowKey="ingredientId"
+          dataSource={substitution?.lines ?? []}
+          columns={[
+            {
+              title: "Ingredient",
+              key: "ingredient",
+              render: (_: unknown, line: SubstitutionLine) => (
+                <Space size={4}>
+                  {line.ingredientName} ({line.amount} {line.unit})
+                  {line.inStock === false && <Tag color="red">Short</Tag>}
+                </Space>
+              ),
+            },
+            {
+              title: "Substitute",
+              key: "substitute",
+              width: 320,
+              render: (_: unknown, line: SubstitutionLine) =>
+                line.options.length === 0 ? (
+                  "No substitutes"
+                ) : (
+                  <Select
+                    placeholder="Keep ingredient"
+                    allowClear
+                    style={{ width: "100%" }}
+                    value={substituteChoices.get(line.ingredientId) ?? undefined}
+                    onChange={(value?: number) =>
+                      setSubstituteChoices(
+                        new Map(substituteChoices).set(
+                          line.ingredientId,
+                          value ?? null
+                        )
+                      )
+                    }
+                    options={line.options.map((option) => ({
+                      label:
+                        option.amount === null
+                          ? `${option.ingredientName}: ${
+                              option.reason && SUBSTITUTE_REASONS[option.reason]
+                            }`
+                          : `${option.ingredientName}: ${option.amount} ${option.unit}${
+                              option.inStock === false ? " (short)" : ""
+                            }`,
+                      value: option.ingredientId,
+                      disabled: option.amount === null,
+                    }))}
+                  />
+                ),
+            },
+            {
+              title: "Notes",
+              key: "notes",
+              render: (_: unknown, line: SubstitutionLine) =>
+                line.options.find(
+                  (option) =>
+                    option.ingredientId ===
+                    substituteChoices.get(line.ingredientId)
+                )?.notes || "-",
+            },
+          ]}
+        />
+      </Modal>
+
+      <Modal
+        title={`Nutrition - ${nutritionDish?.name || ""}`}
+        open={nutritionDish !== null}
+        onCancel={() => setNutritionDish(null)}
+        footer={null}
+        width={600}
+      >
+        {nutritionDish?.nutrition && (
+          <NutritionPanel nutrition={nutritionDish.nutrition} />
+        )}
+      </Modal>
+
+      <Modal
+        title={`Cost - ${costDish?.name || ""}`}
+        open={costDish !== null}
+        onCancel={() => setCostDish(null)}
+        footer={null}
+        width={700}
+      >
+        {costDish?.cost && <DishCostPanel cost={costDish.cost} />}
+      </Modal>
+
       <Drawer
         title={`Dish History - ${currentDishInfo?.name || ""}`}
         placement="right"
@@ -512,14 +967,54 @@ export default function DishesPage() {
                 index === 0 ? (
                   <ClockCircleOutlined style={{ fontSize: "16px" }} />
                 ) : null,
-              content: version.ingredients
-                .map((ing) => {
-                  return `${ing.ingredientName} - ${ing.ingredientAmount} ${ing.ingredientUnit}`;
-                })
-                .join(", "),
+              content: (
+                <>
+                  <div>
+                    {version.ingredients
+                      .map((ing) => {
+                        // Name as recorded with the version, with the current name if it was renamed since
+                        const renamed =
+                          ing.ingredient.name !== ing.ingredientName
+                            ? ` (now ${ing.ingredient.name})`
+                            : "";
+                        return `${ing.ingredientName}${renamed} - ${formatAmount(ing)}`;
+                      })
+                      .join(", ")}
+                  </div>
+                  <div style={{ marginTop: 4 }}>
+                    <AllergenTags allergens={version.allergens} />
+                  </div>
+                  <div style={{ marginTop: 4, color: "#666" }}>
+                    {version.nutrition.perServing.energyKcal} kcal per serving
+                    {!version.nutrition.complete && " (incomplete)"}
+                  </div>
+                  <div style={{ color: "#666" }}>
+                    Cost {version.cost.total.toFixed(2)}
+                    {!version.cost.complete && " (incomplete)"}
+                  </div>
+                </>
+              ),
             };
           })}
         ></Timeline>
+        {transfers.length > 0 && (
+          <>
+            <h4>Ownership Transfers</h4>
+            <Timeline
+              items={transfers.map((transfer) => ({
+                title: new Date(transfer.createdAt).toLocaleString("en-US"),
+                content:
+                  `${transfer.fromChefName} → ${transfer.toChefName} at version ${transfer.versionNumber}` +
+                  (transfer.previousName !== transfer.newName
+                    ? `, renamed from "${transfer.previousName}" to "${transfer.newName}"`
+                    : "") +
+                  (transfer.transferredByName
+                    ? ` (by ${transfer.transferredByName})`
+                    : ""),
+              }))}
+            />
+          </>
+        )}
         {historyPagination.total > 0 && (
           <div style={{ marginTop: 24, textAlign: "center" }}>
             <Pagination
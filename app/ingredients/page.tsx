@@ -7,18 +7,120 @@ import {
   Modal,
   Form,
   Input,
+  Select,
   message,
   Space,
   Popconfirm,
   Pagination,
+  Drawer,
+  Switch,
+  Tag,
+  Checkbox,
+  InputNumber,
+  Divider,
+  Alert,
+  Typography,
 } from "antd";
-import { PlusOutlined, EditOutlined, DeleteOutlined } from "@ant-design/icons";
+import {
+  PlusOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  MergeCellsOutlined,
+} from "@ant-design/icons";
 import {
   ingredientApi,
+  categoryApi,
+  inventoryApi,
+  type CategoryNode,
   type Ingredient,
   type CreateIngredientData,
   type UpdateIngredientData,
+  type UnitChangeReport,
+  type IngredientUsage,
+  type IngredientDishUsage,
+  type StockLevel,
 } from "@/lib/api-client";
+import { auth } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { UNITS, type UnitDimension } from "@/lib/units";
+import { CategoryTreeSelect } from "@/components/CategoryTreeSelect";
+import { AllergenTags } from "@/components/AllergenTags";
+import { IngredientPricesDrawer } from "@/components/IngredientPricesDrawer";
+import { StockMovementsDrawer } from "@/components/StockMovementsDrawer";
+import { IngredientSubstitutesDrawer } from "@/components/IngredientSubstitutesDrawer";
+import { IngredientPacksDrawer } from "@/components/IngredientPacksDrawer";
+import { PrintLabelButton } from "@/components/PrintLabelButton";
+import { ALLERGENS } from "@/lib/allergens";
+import { NUTRIENTS, type NutrientKey } from "@/lib/nutrition";
+import {
+  STORAGE_CONDITIONS,
+  formatShelfLife,
+  getShelfLifeHours,
+  type ShelfLifeField,
+} from "@/lib/shelf-life";
+import {
+  MONTH_LABELS,
+  formatSeason,
+  isInSeason,
+  type IngredientSeason,
+} from "@/lib/seasons";
+
+const MONTH_OPTIONS = MONTH_LABELS.map((label, index) => ({
+  label,
+  value: index + 1,
+}));
+
+const DIMENSION_LABELS: Record<UnitDimension, string> = {
+  mass: "Mass",
+  volume: "Volume",
+  count: "Count",
+};
+
+const UNIT_OPTIONS = (Object.keys(DIMENSION_LABELS) as UnitDimension[]).map(
+  (dimension) => ({
+    label: DIMENSION_LABELS[dimension],
+    options: UNITS.filter((unit) => unit.dimension === dimension).map(
+      (unit) => ({ label: `${unit.label} (${unit.code})`, value: unit.code })
+    ),
+  })
+);
+
+// Empty nutrition inputs clear the stored value
+function getNutritionValues(values: Partial<Record<NutrientKey, number>>) {
+  return Object.fromEntries(
+    NUTRIENTS.map((nutrient) => [nutrient.key, values[nutrient.key] ?? null])
+  ) as Record<NutrientKey, number | null>;
+}
+
+// Empty shelf life inputs clear the stored value
+function getShelfLifeValues(values: Partial<Record<ShelfLifeField, number>>) {
+  return Object.fromEntries(
+    STORAGE_CONDITIONS.map((condition) => [
+      condition.field,
+      values[condition.field] ?? null,
+    ])
+  ) as Record<ShelfLifeField, number | null>;
+}
+
+// Season rows of the form, an empty region applies everywhere
+function getSeasonValues(
+  seasons: Array<Partial<IngredientSeason>> | undefined
+): IngredientSeason[] {
+  return (seasons ?? []).map((season) => ({
+    startMonth: season.startMonth!,
+    endMonth: season.endMonth!,
+    region: season.region?.trim() || null,
+  }));
+}
+
+// Ingredients at or below their low stock threshold, the first few are named in the alert
+async function loadLowStock() {
+  const response = await inventoryApi.getLevels(1, 5, undefined, true);
+  if (response.success && response.data) {
+    return { levels: response.data, total: response.total || 0 };
+  }
+  return null;
+}
 
 export default function IngredientsPage() {
   const [ingredients, setIngredients] = useState<Ingredient[]>([]);
@@ -28,17 +130,60 @@ export default function IngredientsPage() {
     null
   );
   const [form] = Form.useForm();
+  const [mergeTarget, setMergeTarget] = useState<Ingredient | null>(null);
+  const [mergeCandidates, setMergeCandidates] = useState<Ingredient[]>([]);
+  const [merging, setMerging] = useState(false);
+  const [mergeForm] = Form.useForm();
+  const [usageIngredient, setUsageIngredient] = useState<Ingredient | null>(
+    null
+  );
+  const [usage, setUsage] = useState<IngredientDishUsage[]>([]);
+  const [priceIngredient, setPriceIngredient] = useState<Ingredient | null>(
+    null
+  );
+  const [stockIngredient, setStockIngredient] = useState<Ingredient | null>(
+    null
+  );
+  const [substituteIngredient, setSubstituteIngredient] =
+    useState<Ingredient | null>(null);
+  const [packIngredient, setPackIngredient] = useState<Ingredient | null>(
+    null
+  );
+  const [lowStock, setLowStock] = useState<StockLevel[]>([]);
+  const [lowStockTotal, setLowStockTotal] = useState(0);
+  const [usageLoading, setUsageLoading] = useState(false);
+  const [includeHistorical, setIncludeHistorical] = useState(false);
+  const [usagePagination, setUsagePagination] = useState({
+    current: 1,
+    pageSize: 10,
+    total: 0,
+  });
   const [pagination, setPagination] = useState({
     current: 1,
     pageSize: 10,
     total: 0,
   });
   const [searchKeyword, setSearchKeyword] = useState("");
+  const [categories, setCategories] = useState<CategoryNode[]>([]);
+  const [categoryFilter, setCategoryFilter] = useState<number | undefined>();
+  const canManageIngredients = hasPermission(
+    auth.getCurrentChef()?.role,
+    "ingredient:manage"
+  );
+  const canRecordStock = hasPermission(
+    auth.getCurrentChef()?.role,
+    "inventory:record"
+  );
+  const canCorrectStock = hasPermission(
+    auth.getCurrentChef()?.role,
+    "inventory:manage"
+  );
 
   const fetchIngredients = async (
     current = 1,
     pageSize = 10,
-    keyword = searchKeyword
+    keyword = searchKeyword,
+    categoryId: number | null = categoryFilter ?? null
   ) => {
     const normalizedKeyword = keyword?.trim() || undefined;
     setLoading(true);
@@ -46,7 +191,8 @@ export default function IngredientsPage() {
       const response = await ingredientApi.getAll(
         current,
         pageSize,
-        normalizedKeyword
+        normalizedKeyword,
+        categoryId ?? undefined
       );
       if (response.success && response.data) {
         setIngredients(response.data);
@@ -69,6 +215,68 @@ export default function IngredientsPage() {
     fetchIngredients();
   }, []);
 
+  const fetchLowStock = async () => {
+    const lowStockPage = await loadLowStock();
+    if (lowStockPage) {
+      setLowStock(lowStockPage.levels);
+      setLowStockTotal(lowStockPage.total);
+    }
+  };
+
+  useEffect(() => {
+    loadLowStock().then((lowStockPage) => {
+      if (lowStockPage) {
+        setLowStock(lowStockPage.levels);
+        setLowStockTotal(lowStockPage.total);
+      }
+    });
+  }, []);
+
+  useEffect(() => {
+    categoryApi.getTree().then((response) => {
+      if (response.success && response.data) {
+        setCategories(response.data);
+      }
+    });
+  }, []);
+
+  const fetchUsage = async (
+    ingredientId: number,
+    current = 1,
+    pageSize = 10,
+    historical = includeHistorical
+  ) => {
+    setUsageLoading(true);
+    try {
+      const response = await ingredientApi.getUsage(
+        ingredientId,
+        current,
+        pageSize,
+        historical
+      );
+      if (response.success && response.data) {
+        setUsage(response.data);
+        setUsagePagination({
+          current: response.current || current,
+          pageSize: response.pageSize || pageSize,
+          total: response.total || 0,
+        });
+      } else {
+        message.error(response.error?.message || "Failed to fetch usage");
+      }
+    } catch {
+      message.error("Failed to fetch usage");
+    } finally {
+      setUsageLoading(false);
+    }
+  };
+
+  const handleViewUsage = (ingredient: Ingredient) => {
+    setUsageIngredient(ingredient);
+    setUsage([]);
+    fetchUsage(ingredient.id, 1, usagePagination.pageSize);
+  };
+
   const handleCreate = () => {
     setEditingIngredient(null);
     form.resetFields();
@@ -79,19 +287,158 @@ export default function IngredientsPage() {
     setEditingIngredient(ingredient);
     form.setFieldsValue({
       name: ingredient.name,
+      aliases: ingredient.aliases ?? [],
       unit: ingredient.unit,
+      categoryId: ingredient.categoryId ?? undefined,
+      allergens: ingredient.allergens ?? [],
+      nutritionBasis: ingredient.nutritionBasis,
+      lowStockThreshold: ingredient.lowStockThreshold ?? undefined,
+      density: ingredient.density ?? undefined,
+      ...Object.fromEntries(
+        STORAGE_CONDITIONS.map((condition) => [
+          condition.field,
+          ingredient[condition.field] ?? undefined,
+        ])
+      ),
+      storageNotes: ingredient.storageNotes ?? undefined,
+      seasons: ingredient.seasons ?? [],
+      ...Object.fromEntries(
+        NUTRIENTS.map((nutrient) => [
+          nutrient.key,
+          ingredient[nutrient.key] ?? undefined,
+        ])
+      ),
     });
     setModalVisible(true);
   };
 
   const handleDelete = async (id: number) => {
     try {
-      message.info("Delete functionality requires backend support");
+      const response = await ingredientApi.delete(id);
+      if (response.success) {
+        message.success(
+          response.data?.retainedForHistory
+            ? "Deleted, older dish versions still show this ingredient"
+            : "Deleted successfully"
+        );
+        fetchIngredients(
+          pagination.current,
+          pagination.pageSize,
+          searchKeyword
+        );
+        fetchLowStock();
+      } else if (response.error?.details?.dishes) {
+        // Dishes still using the ingredient have to change first
+        const dishes: IngredientUsage[] = response.error.details.dishes;
+        Modal.error({
+          title: response.error.message,
+          content: (
+            <ul style={{ maxHeight: 240, overflowY: "auto", paddingLeft: 20 }}>
+              {dishes.map((dish) => (
+                <li key={dish.dishId}>
+                  {dish.dishName} ({dish.chefName})
+                </li>
+              ))}
+            </ul>
+          ),
+        });
+      } else {
+        message.error(response.error?.message || "Failed to delete");
+      }
     } catch (error) {
       message.error("Failed to delete");
     }
   };
 
+  const handleOpenMerge = async (ingredient: Ingredient) => {
+    setMergeTarget(ingredient);
+    mergeForm.resetFields();
+    const response = await ingredientApi.getAll(1, 1000);
+    if (response.success && response.data) {
+      setMergeCandidates(
+        response.data.filter((candidate) => candidate.id !== ingredient.id)
+      );
+    } else {
+      message.error(response.error?.message || "Failed to fetch ingredients");
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!mergeTarget) return;
+    try {
+      const values = await mergeForm.validateFields();
+      setMerging(true);
+      const response = await ingredientApi.merge(
+        mergeTarget.id,
+        values.sourceIngredientId
+      );
+      if (response.success && response.data) {
+        const combined = response.data.combinedDishes.length;
+        message.success(
+          combined > 0
+            ? `Merged, ${combined} dish(es) got a new version with combined amounts`
+            : "Merged successfully"
+        );
+        setMergeTarget(null);
+        fetchIngredients(
+          pagination.current,
+          pagination.pageSize,
+          searchKeyword
+        );
+        fetchLowStock();
+      } else {
+        message.error(response.error?.message || "Failed to merge");
+      }
+    } catch (error) {
+      console.error("Validation failed:", error);
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const saveIngredient = async (id: number, updateData: UpdateIngredientData) => {
+    const response = await ingredientApi.update(id, updateData);
+    if (response.success) {
+      message.success("Updated successfully");
+      setModalVisible(false);
+      fetchIngredients(pagination.current, pagination.pageSize, searchKeyword);
+      fetchLowStock();
+    } else {
+      message.error(response.error?.message || "Failed to update");
+    }
+  };
+
+  const renderUnitChangeReport = (report: UnitChangeReport) => (
+    <div>
+      <p>
+        {report.affectedDishes.length} dish(es) currently use this ingredient
+        {report.historicalRowCount > 0 &&
+          `, ${report.historicalRowCount} line(s) in older dish versions keep their recorded unit`}
+        {report.stockMovementCount > 0 &&
+          `, ${report.stockMovementCount} stock movement(s) are converted`}
+        .
+      </p>
+      {report.lowStockThreshold && (
+        <p>
+          Low stock threshold: {report.lowStockThreshold.from} {report.fromUnit}
+          {report.lowStockThreshold.to !== null
+            ? ` → ${report.lowStockThreshold.to} ${report.toUnit}`
+            : ", cannot be converted and is cleared"}
+        </p>
+      )}
+      <ul style={{ maxHeight: 240, overflowY: "auto", paddingLeft: 20 }}>
+        {report.affectedDishes.map((dish) => (
+          <li key={dish.dishId}>
+            {dish.dishName} ({dish.chefName}): {dish.ingredientAmount}{" "}
+            {report.fromUnit}
+            {dish.convertedAmount !== null &&
+              ` → ${dish.convertedAmount} ${report.toUnit}`}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
   const handleSubmit = async () => {
     try {
       const values = await form.validateFields();
@@ -100,28 +447,92 @@ export default function IngredientsPage() {
         // Update
         const updateData: UpdateIngredientData = {
           name: values.name,
+          aliases: values.aliases ?? [],
           unit: values.unit,
+          categoryId: values.categoryId ?? null,
+          allergens: values.allergens ?? [],
+          nutritionBasis: values.nutritionBasis,
+          density: values.density ?? null,
+          ...getNutritionValues(values),
+          ...getShelfLifeValues(values),
+          storageNotes: values.storageNotes || null,
+          seasons: getSeasonValues(values.seasons),
         };
-        const response = await ingredientApi.update(
-          editingIngredient.id,
-          updateData
-        );
-        if (response.success) {
-          message.success("Updated successfully");
-          setModalVisible(false);
-          fetchIngredients(
-            pagination.current,
-            pagination.pageSize,
-            searchKeyword
+        // A threshold left as it was is converted along with the unit
+        const lowStockThreshold = values.lowStockThreshold ?? null;
+        if (
+          values.unit === editingIngredient.unit ||
+          lowStockThreshold !== (editingIngredient.lowStockThreshold ?? null)
+        ) {
+          updateData.lowStockThreshold = lowStockThreshold;
+        }
+
+        // Changing the unit of an ingredient in use needs the amounts converted
+        if (values.unit !== editingIngredient.unit) {
+          const preview = await ingredientApi.previewUpdate(
+            editingIngredient.id,
+            updateData
           );
-        } else {
-          message.error(response.error?.message || "Failed to update");
+          if (!preview.success) {
+            message.error(preview.error?.message || "Failed to update");
+            return;
+          }
+          const report = preview.data?.unitChange;
+          if (
+            report &&
+            (report.affectedDishes.length > 0 || report.stockMovementCount > 0)
+          ) {
+            if (!report.convertible) {
+              Modal.error({
+                title: `Cannot change the unit from "${report.fromUnit}" to "${report.toUnit}"`,
+                content: renderUnitChangeReport(report),
+              });
+              return;
+            }
+            Modal.confirm({
+              title: `Convert amounts from "${report.fromUnit}" to "${report.toUnit}"?`,
+              content: renderUnitChangeReport(report),
+              okText: "Convert",
+              width: 560,
+              onOk: () =>
+                saveIngredient(editingIngredient.id, {
+                  ...updateData,
+                  unitChange: "convert",
+                }),
+            });
+            return;
+          }
+          if (
+            report?.lowStockThreshold?.to === null &&
+            updateData.lowStockThreshold === undefined
+          ) {
+            Modal.confirm({
+              title: `Change the unit from "${report.fromUnit}" to "${report.toUnit}"?`,
+              content: renderUnitChangeReport(report),
+              okText: "Change unit",
+              width: 560,
+              onOk: () => saveIngredient(editingIngredient.id, updateData),
+            });
+            return;
+          }
         }
+
+        await saveIngredient(editingIngredient.id, updateData);
       } else {
         // Create
         const createData: CreateIngredientData = {
           name: values.name,
+          aliases: values.aliases ?? [],
           unit: values.unit,
+          categoryId: values.categoryId ?? null,
+          allergens: values.allergens ?? [],
+          nutritionBasis: values.nutritionBasis,
+          ...getNutritionValues(values),
+          lowStockThreshold: values.lowStockThreshold ?? null,
+          density: values.density ?? null,
+          ...getShelfLifeValues(values),
+          storageNotes: values.storageNotes || null,
+          seasons: getSeasonValues(values.seasons),
         };
         const response = await ingredientApi.create(createData);
         if (response.success) {
@@ -132,6 +543,7 @@ export default function IngredientsPage() {
             pagination.pageSize,
             searchKeyword
           );
+          fetchLowStock();
         } else {
           message.error(response.error?.message || "Failed to create");
         }
@@ -152,6 +564,18 @@ export default function IngredientsPage() {
       title: "Name",
       dataIndex: "name",
       key: "name",
+      render: (name: string, record: Ingredient) => (
+        <div>
+          {name}
+          {record.aliases && record.aliases.length > 0 && (
+            <div>
+              <Typography.Text type="secondary">
+                {record.aliases.join(", ")}
+              </Typography.Text>
+            </div>
+          )}
+        </div>
+      ),
     },
     {
       title: "Unit",
@@ -159,6 +583,154 @@ export default function IngredientsPage() {
       key: "unit",
       width: 100,
     },
+    {
+      title: "Category",
+      key: "category",
+      width: 160,
+      render: (_: unknown, record: Ingredient) => record.category?.name ?? "-",
+    },
+    {
+      title: "Allergens",
+      dataIndex: "allergens",
+      key: "allergens",
+      width: 200,
+      render: (allergens: string[] | undefined) => (
+        <AllergenTags allergens={allergens} />
+      ),
+    },
+    {
+      title: "Price",
+      dataIndex: "currentPrice",
+      key: "currentPrice",
+      width: 140,
+      render: (_: unknown, record: Ingredient) => (
+        <Button
+          type="link"
+          style={{ padding: 0 }}
+          onClick={() => setPriceIngredient(record)}
+        >
+          {record.currentPrice
+            ? `${record.currentPrice.price} / ${record.currentPrice.unit}`
+            : "No price"}
+        </Button>
+      ),
+    },
+    {
+      title: "Stock",
+      dataIndex: "onHand",
+      key: "onHand",
+      width: 140,
+      render: (onHand: number | undefined, record: Ingredient) => (
+        <Space size={4}>
+          <Button
+            type="link"
+            style={{ padding: 0 }}
+            onClick={() => setStockIngredient(record)}
+          >
+            {onHand ?? 0} {record.unit}
+          </Button>
+          {record.lowStock && <Tag color="red">Low</Tag>}
+        </Space>
+      ),
+    },
+    {
+      title: "Substitutes",
+      dataIndex: "substituteCount",
+      key: "substituteCount",
+      width: 120,
+      render: (count: number | undefined, record: Ingredient) => (
+        <Button
+          type="link"
+          style={{ padding: 0 }}
+          onClick={() => setSubstituteIngredient(record)}
+        >
+          {count ?? 0} substitute(s)
+        </Button>
+      ),
+    },
+    {
+      title: "Packs",
+      dataIndex: "packs",
+      key: "packs",
+      width: 140,
+      render: (packs: Ingredient["packs"], record: Ingredient) => (
+        <Button
+          type="link"
+          style={{ padding: 0 }}
+          onClick={() => setPackIngredient(record)}
+        >
+          {packs && packs.length > 0
+            ? packs.map((pack) => pack.name).join(", ")
+            : "No packs"}
+        </Button>
+      ),
+    },
+    {
+      title: "Shelf Life",
+      key: "shelfLife",
+      width: 180,
+      render: (_: unknown, record: Ingredient) => {
+        const known = STORAGE_CONDITIONS.filter(
+          (condition) => getShelfLifeHours(record, condition.code) !== null
+        );
+        return (
+          <div>
+            {known.length === 0
+              ? "-"
+              : known.map((condition) => (
+                  <div key={condition.code}>
+                    {condition.label}:{" "}
+                    {formatShelfLife(getShelfLifeHours(record, condition.code)!)}
+                  </div>
+                ))}
+            {known.length > 0 && (
+              <PrintLabelButton
+                getUrl={(storage) =>
+                  ingredientApi.getLabelUrl(record.id, { storage })
+                }
+                available={known.map((condition) => condition.code)}
+              />
+            )}
+          </div>
+        );
+      },
+    },
+    {
+      title: "Season",
+      dataIndex: "seasons",
+      key: "seasons",
+      width: 180,
+      render: (seasons: IngredientSeason[] | undefined) =>
+        seasons && seasons.length > 0 ? (
+          <div>
+            {seasons.map((season, index) => (
+              <div key={index}>{formatSeason(season)}</div>
+            ))}
+            {isInSeason(seasons, new Date()) ? (
+              <Tag color="green">In season</Tag>
+            ) : (
+              <Tag color="orange">Out of season</Tag>
+            )}
+          </div>
+        ) : (
+          "All year"
+        ),
+    },
+    {
+      title: "Used By",
+      dataIndex: "usageCount",
+      key: "usageCount",
+      width: 120,
+      render: (count: number | undefined, record: Ingredient) => (
+        <Button
+          type="link"
+          style={{ padding: 0 }}
+          onClick={() => handleViewUsage(record)}
+        >
+          {count ?? 0} dish(es)
+        </Button>
+      ),
+    },
     {
       title: "Created At",
       dataIndex: "createdAt",
@@ -176,7 +748,8 @@ export default function IngredientsPage() {
     {
       title: "Actions",
       key: "action",
-      width: 150,
+      width: 240,
+      hidden: !canManageIngredients,
       render: (_: any, record: Ingredient) => (
         <Space>
           <Button
@@ -186,6 +759,13 @@ export default function IngredientsPage() {
           >
             Edit
           </Button>
+          <Button
+            type="link"
+            icon={<MergeCellsOutlined />}
+            onClick={() => handleOpenMerge(record)}
+          >
+            Merge
+          </Button>
           <Popconfirm
             title="Are you sure you want to delete?"
             onConfirm={() => handleDelete(record.id)}
@@ -199,6 +779,41 @@ export default function IngredientsPage() {
     },
   ];
 
+  const usageColumns = [
+    {
+      title: "Dish",
+      dataIndex: "dishName",
+      key: "dishName",
+    },
+    {
+      title: "Chef",
+      dataIndex: "chefName",
+      key: "chefName",
+    },
+    {
+      title: "Version",
+      key: "versionNumber",
+      width: 150,
+      render: (_: unknown, record: IngredientDishUsage) => (
+        <Space>
+          v{record.versionNumber}
+          {record.current ? (
+            <Tag color="green">Current</Tag>
+          ) : (
+            <Tag>Older version</Tag>
+          )}
+        </Space>
+      ),
+    },
+    {
+      title: "Amount",
+      key: "ingredientAmount",
+      width: 120,
+      render: (_: unknown, record: IngredientDishUsage) =>
+        `${record.ingredientAmount} ${record.ingredientUnit}`,
+    },
+  ];
+
   return (
     <div>
       <div
@@ -212,7 +827,7 @@ export default function IngredientsPage() {
         }}
       >
         <Input.Search
-          placeholder="Search by name or unit"
+          placeholder="Search by name, alias or unit"
           value={searchKeyword}
           allowClear
           onChange={(e) => {
@@ -229,16 +844,53 @@ export default function IngredientsPage() {
           }}
           style={{ maxWidth: 320 }}
         />
-        <Button
-          type="primary"
-          icon={<PlusOutlined />}
-          onClick={handleCreate}
-          style={{ marginLeft: "auto" }}
-        >
-          New Ingredient
-        </Button>
+        <CategoryTreeSelect
+          categories={categories}
+          placeholder="Filter by category"
+          value={categoryFilter}
+          onChange={(value) => {
+            setCategoryFilter(value);
+            fetchIngredients(
+              1,
+              pagination.pageSize,
+              searchKeyword,
+              value ?? null
+            );
+          }}
+          style={{ width: 240 }}
+        />
+        {canManageIngredients && (
+          <Button
+            type="primary"
+            icon={<PlusOutlined />}
+            onClick={handleCreate}
+            style={{ marginLeft: "auto" }}
+          >
+            New Ingredient
+          </Button>
+        )}
       </div>
 
+      {lowStockTotal > 0 && (
+        <Alert
+          type="warning"
+          showIcon
+          style={{ marginBottom: 16 }}
+          title={`${lowStockTotal} ingredient(s) at or below their low stock threshold`}
+          description={
+            lowStock
+              .map(
+                (level) =>
+                  `${level.ingredientName} (${level.onHand} ${level.unit})`
+              )
+              .join(", ") +
+            (lowStockTotal > lowStock.length
+              ? ` and ${lowStockTotal - lowStock.length} more`
+              : "")
+          }
+        />
+      )}
+
       <Table
         columns={columns}
         dataSource={ingredients}
@@ -288,12 +940,301 @@ export default function IngredientsPage() {
           >
             <Input placeholder="Enter ingredient name" />
           </Form.Item>
+          <Form.Item
+            name="aliases"
+            label="Aliases"
+            tooltip="Other names cooks use for the ingredient, it is found by them too"
+          >
+            <Select
+              mode="tags"
+              placeholder="Add other names"
+              tokenSeparators={[","]}
+              open={false}
+            />
+          </Form.Item>
           <Form.Item
             name="unit"
             label="Unit"
-            rules={[{ required: true, message: "Please enter unit" }]}
+            rules={[{ required: true, message: "Please select unit" }]}
+          >
+            <Select
+              placeholder="Select unit"
+              showSearch={{ optionFilterProp: "label" }}
+              options={UNIT_OPTIONS}
+            />
+          </Form.Item>
+          <Form.Item name="categoryId" label="Category">
+            <CategoryTreeSelect
+              categories={categories}
+              placeholder="Select category"
+            />
+          </Form.Item>
+          <Form.Item name="allergens" label="Allergens">
+            <Checkbox.Group
+              options={ALLERGENS.map((allergen) => ({
+                label: allergen.label,
+                value: allergen.code,
+              }))}
+            />
+          </Form.Item>
+          <Form.Item
+            name="lowStockThreshold"
+            label="Low stock at"
+            tooltip="Quantity in the ingredient's unit at which stock is reported as low"
+          >
+            <InputNumber
+              min={0}
+              placeholder="No threshold"
+              style={{ width: "100%" }}
+            />
+          </Form.Item>
+          <Form.Item
+            name="density"
+            label="Density (g/ml)"
+            tooltip="Lets amounts of the ingredient convert between mass and volume, e.g. 0.53 for flour"
+          >
+            <InputNumber
+              min={0}
+              max={100}
+              step={0.01}
+              placeholder="Unknown"
+              style={{ width: "100%" }}
+            />
+          </Form.Item>
+          <Divider>Storage</Divider>
+          {STORAGE_CONDITIONS.map((condition) => (
+            <Form.Item
+              key={condition.field}
+              name={condition.field}
+              label={`${condition.label} shelf life (hours)`}
+            >
+              <InputNumber
+                min={1}
+                precision={0}
+                placeholder="Unknown"
+                style={{ width: "100%" }}
+              />
+            </Form.Item>
+          ))}
+          <Form.Item
+            name="storageNotes"
+            label="Storage notes"
+            tooltip="Printed on the ingredient's prep labels"
+          >
+            <Input.TextArea rows={2} maxLength={1000} />
+          </Form.Item>
+          <Divider>Season</Divider>
+          <Form.List name="seasons">
+            {(fields, { add, remove }) => (
+              <>
+                {fields.map(({ key, name, ...restField }) => (
+                  <Space
+                    key={key}
+                    style={{ display: "flex", marginBottom: 8 }}
+                    align="baseline"
+                  >
+                    <Form.Item
+                      {...restField}
+                      name={[name, "startMonth"]}
+                      rules={[{ required: true, message: "From month" }]}
+                    >
+                      <Select
+                        placeholder="From"
+                        options={MONTH_OPTIONS}
+                        style={{ width: 90 }}
+                      />
+                    </Form.Item>
+                    <Form.Item
+                      {...restField}
+                      name={[name, "endMonth"]}
+                      rules={[{ required: true, message: "To month" }]}
+                    >
+                      <Select
+                        placeholder="To"
+                        options={MONTH_OPTIONS}
+                        style={{ width: 90 }}
+                      />
+                    </Form.Item>
+                    <Form.Item {...restField} name={[name, "region"]}>
+                      <Input placeholder="Any region" style={{ width: 160 }} />
+                    </Form.Item>
+                    <Button type="link" danger onClick={() => remove(name)}>
+                      Remove
+                    </Button>
+                  </Space>
+                ))}
+                <Form.Item>
+                  <Button
+                    type="dashed"
+                    onClick={() => add()}
+                    block
+                    icon={<PlusOutlined />}
+                  >
+                    Add Season (available all year without seasons)
+                  </Button>
+                </Form.Item>
+              </>
+            )}
+          </Form.List>
+          <Divider>Nutrition</Divider>
+          <Form.Item name="nutritionBasis" label="Values per">
+            <Select
+              placeholder="Based on the unit"
+              allowClear
+              options={[
+                { label: "100 g", value: "g" },
+                { label: "100 ml", value: "ml" },
+              ]}
+            />
+          </Form.Item>
+          {NUTRIENTS.map((nutrient) => (
+            <Form.Item
+              key={nutrient.key}
+              name={nutrient.key}
+              label={`${nutrient.label} (${nutrient.unit})`}
+            >
+              <InputNumber min={0} style={{ width: "100%" }} />
+            </Form.Item>
+          ))}
+        </Form>
+      </Modal>
+
+      <Drawer
+        title={`Dishes Using ${usageIngredient?.name || ""}`}
+        placement="right"
+        onClose={() => setUsageIngredient(null)}
+        open={usageIngredient !== null}
+        size={640}
+      >
+        <Space style={{ marginBottom: 16 }}>
+          <Switch
+            checked={includeHistorical}
+            onChange={(checked) => {
+              setIncludeHistorical(checked);
+              if (usageIngredient) {
+                fetchUsage(
+                  usageIngredient.id,
+                  1,
+                  usagePagination.pageSize,
+                  checked
+                );
+              }
+            }}
+          />
+          Include dishes that only used it in older versions
+        </Space>
+        <Table
+          columns={usageColumns}
+          dataSource={usage}
+          rowKey="dishId"
+          loading={usageLoading}
+          pagination={false}
+          size="small"
+        />
+        {usagePagination.total > 0 && (
+          <div style={{ marginTop: 16, textAlign: "center" }}>
+            <Pagination
+              current={usagePagination.current}
+              pageSize={usagePagination.pageSize}
+              total={usagePagination.total}
+              onChange={(page, pageSize) => {
+                if (usageIngredient) {
+                  fetchUsage(usageIngredient.id, page, pageSize);
+                }
+              }}
+              showSizeChanger
+              showTotal={(total, range) =>
+                `${range[0]}-${range[1]} of ${total} dishes`
+              }
+            />
+          </div>
+        )}
+      </Drawer>
+
+      <IngredientPricesDrawer
+        ingredient={priceIngredient}
+        canManage={canManageIngredients}
+        onClose={() => setPriceIngredient(null)}
+        onChange={() =>
+          fetchIngredients(
+            pagination.current,
+            pagination.pageSize,
+            searchKeyword
+          )
+        }
+      />
+
+      <StockMovementsDrawer
+        ingredient={stockIngredient}
+        canRecord={canRecordStock}
+        canCorrect={canCorrectStock}
+        onClose={() => setStockIngredient(null)}
+        onChange={() => {
+          fetchIngredients(
+            pagination.current,
+            pagination.pageSize,
+            searchKeyword
+          );
+          fetchLowStock();
+        }}
+      />
+
+      <IngredientSubstitutesDrawer
+        ingredient={substituteIngredient}
+        canManage={canManageIngredients}
+        onClose={() => setSubstituteIngredient(null)}
+        onChange={() =>
+          fetchIngredients(
+            pagination.current,
+            pagination.pageSize,
+            searchKeyword
+          )
+        }
+      />
+
+      <IngredientPacksDrawer
+        ingredient={packIngredient}
+        canManage={canManageIngredients}
+        onClose={() => setPackIngredient(null)}
+        onChange={() =>
+          fetchIngredients(
+            pagination.current,
+            pagination.pageSize,
+            searchKeyword
+          )
+        }
+      />
+
+      <Modal
+        title={`Merge Into "${mergeTarget?.name ?? ""}"`}
+        open={mergeTarget !== null}
+        onOk={handleMerge}
+        onCancel={() => setMergeTarget(null)}
+        okText="Merge"
+        cancelText="Cancel"
+        confirmLoading={merging}
+      >
+        <p>
+          Dishes using the duplicate will use &quot;{mergeTarget?.name}&quot;
+          instead, amounts are converted to {mergeTarget?.unit}. The duplicate
+          is removed from the list, its ID keeps resolving to this ingredient.
+        </p>
+        <Form form={mergeForm} layout="vertical">
+          <Form.Item
+            name="sourceIngredientId"
+            label="Duplicate ingredient"
+            rules={[
+              { required: true, message: "Please select the duplicate" },
+            ]}
           >
-            <Input placeholder="e.g., g, kg, pcs" />
+            <Select
+              placeholder="Select the ingredient to merge"
+              showSearch={{ optionFilterProp: "label" }}
+              options={mergeCandidates.map((candidate) => ({
+                label: `${candidate.name} (${candidate.unit})`,
+                value: candidate.id,
+              }))}
+            />
           </Form.Item>
         </Form>
       </Modal>
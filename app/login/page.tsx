@@ -1,24 +1,55 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { Form, Input, Button, Card, message } from "antd";
-import { UserOutlined, LockOutlined } from "@ant-design/icons";
+import { Form, Input, Button, Card, Alert, message } from "antd";
+import {
+  UserOutlined,
+  LockOutlined,
+  SafetyOutlined,
+} from "@ant-design/icons";
 import { useRouter } from "next/navigation";
-import { chefApi } from "@/lib/api-client";
+import { chefApi, type Chef } from "@/lib/api-client";
 import { auth } from "@/lib/auth";
+import { getHomePath } from "@/lib/permissions";
+
+function formatLockoutTime(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  const remainder = seconds % 60;
+  return `${minutes}:${remainder.toString().padStart(2, "0")}`;
+}
 
 export default function LoginPage() {
   const [form] = Form.useForm();
+  const [codeForm] = Form.useForm();
   const [loading, setLoading] = useState(false);
+  const [lockoutSeconds, setLockoutSeconds] = useState(0);
+  // Set after the password step when the chef has two-factor enabled
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
   const router = useRouter();
 
+  // Count down the remaining lockout time
+  useEffect(() => {
+    if (lockoutSeconds <= 0) return;
+    const timer = setTimeout(() => {
+      setLockoutSeconds((seconds) => seconds - 1);
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [lockoutSeconds]);
+
   useEffect(() => {
     // If already logged in, redirect to home
     if (auth.isAuthenticated()) {
-      router.push("/chefs");
+      router.push(getHomePath(auth.getCurrentChef()?.role));
     }
   }, [router]);
 
+  const completeLogin = (chef: Chef) => {
+    // Store chef info in session storage
+    auth.setCurrentChef(chef);
+    message.success("Login successful");
+    router.push(getHomePath(chef.role));
+  };
+
   const handleSubmit = async (values: {
     username: string;
     password: string;
@@ -27,10 +58,13 @@ export default function LoginPage() {
     try {
       const response = await chefApi.login(values.username, values.password);
       if (response.success && response.data) {
-        // Store chef info in session storage
-        auth.setCurrentChef(response.data);
-        message.success("Login successful");
-        router.push("/chefs");
+        if ("twoFactorRequired" in response.data) {
+          setChallengeToken(response.data.challengeToken);
+        } else {
+          completeLogin(response.data);
+        }
+      } else if (response.error?.code === "LOCKED") {
+        setLockoutSeconds(response.error.details?.retryAfterSeconds || 0);
       } else {
         message.error(response.error?.message || "Login failed");
       }
@@ -41,6 +75,35 @@ export default function LoginPage() {
     }
   };
 
+  const handleCodeSubmit = async (values: { code: string }) => {
+    if (!challengeToken) return;
+    setLoading(true);
+    try {
+      const response = await chefApi.loginTwoFactor(
+        challengeToken,
+        values.code
+      );
+      if (response.success && response.data) {
+        completeLogin(response.data);
+      } else if (response.error?.code === "LOCKED") {
+        setLockoutSeconds(response.error.details?.retryAfterSeconds || 0);
+      } else {
+        message.error(response.error?.message || "Verification failed");
+        codeForm.resetFields();
+      }
+    } catch {
+      message.error("Verification failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBackToPassword = () => {
+    setChallengeToken(null);
+    codeForm.resetFields();
+    form.resetFields(["password"]);
+  };
+
   return (
     <div
       style={{
@@ -65,12 +128,67 @@ export default function LoginPage() {
         }
         style={{ width: 400 }}
       >
+        {lockoutSeconds > 0 && (
+          <Alert
+            type="warning"
+            showIcon
+            style={{ marginBottom: 24 }}
+            title="Too many failed login attempts"
+            description={`Please try again in ${formatLockoutTime(
+              lockoutSeconds
+            )}.`}
+          />
+        )}
+        {challengeToken && (
+          <Form
+            form={codeForm}
+            name="login-two-factor"
+            onFinish={handleCodeSubmit}
+            layout="vertical"
+            autoComplete="off"
+          >
+            <p>
+              Enter the 6 digit code from your authenticator app, or one of
+              your recovery codes.
+            </p>
+            <Form.Item
+              name="code"
+              rules={[
+                { required: true, message: "Please enter the verification code" },
+              ]}
+            >
+              <Input
+                prefix={<SafetyOutlined />}
+                placeholder="Verification code"
+                size="large"
+                autoFocus
+              />
+            </Form.Item>
+
+            <Form.Item>
+              <Button
+                type="primary"
+                htmlType="submit"
+                loading={loading}
+                disabled={lockoutSeconds > 0}
+                block
+                size="large"
+              >
+                Verify
+              </Button>
+            </Form.Item>
+            <Button type="link" block onClick={handleBackToPassword}>
+              Back to login
+            </Button>
+          </Form>
+        )}
         <Form
           form={form}
           name="login"
           onFinish={handleSubmit}
           layout="vertical"
           autoComplete="off"
+          hidden={!!challengeToken}
         >
           <Form.Item
             name="username"
@@ -99,6 +217,7 @@ export default function LoginPage() {
               type="primary"
               htmlType="submit"
               loading={loading}
+              disabled={lockoutSeconds > 0}
               block
               size="large"
             >
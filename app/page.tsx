@@ -3,13 +3,14 @@
 import { useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { auth } from '@/lib/auth'
+import { getHomePath } from '@/lib/permissions'
 
 export default function Home() {
   const router = useRouter()
 
   useEffect(() => {
     if (auth.isAuthenticated()) {
-      router.push('/chefs')
+      router.push(getHomePath(auth.getCurrentChef()?.role))
     } else {
       router.push('/login')
     }
@@ -0,0 +1,133 @@
+"use client";
+
+import { useState } from "react";
+import { Form, Input, Button, Card, Result, message } from "antd";
+import { LockOutlined } from "@ant-design/icons";
+import { useRouter } from "next/navigation";
+import { chefApi } from "@/lib/api-client";
+
+export default function ResetPasswordPage() {
+  const [form] = Form.useForm();
+  const [loading, setLoading] = useState(false);
+  const [completed, setCompleted] = useState(false);
+  const router = useRouter();
+
+  const handleSubmit = async (values: { newPassword: string }) => {
+    const token = new URLSearchParams(window.location.search).get("token");
+    if (!token) {
+      message.error("Reset link is invalid or has expired");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const response = await chefApi.resetPassword(token, values.newPassword);
+      if (response.success) {
+        setCompleted(true);
+      } else {
+        message.error(response.error?.message || "Failed to reset password");
+      }
+    } catch {
+      message.error("Failed to reset password");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        display: "flex",
+        justifyContent: "center",
+        alignItems: "center",
+        minHeight: "100vh",
+        background: "#f0f2f5",
+      }}
+    >
+      <Card
+        title={
+          <div
+            style={{
+              textAlign: "center",
+              fontSize: "24px",
+              fontWeight: "bold",
+            }}
+          >
+            Reset Password
+          </div>
+        }
+        style={{ width: 400 }}
+      >
+        {completed ? (
+          <Result
+            status="success"
+            title="Password reset successfully"
+            extra={
+              <Button type="primary" onClick={() => router.push("/login")}>
+                Go to Login
+              </Button>
+            }
+          />
+        ) : (
+          <Form
+            form={form}
+            name="reset-password"
+            onFinish={handleSubmit}
+            layout="vertical"
+            autoComplete="off"
+          >
+            <Form.Item
+              name="newPassword"
+              rules={[
+                { required: true, message: "Please enter a new password" },
+                { min: 6, message: "Password must be at least 6 characters" },
+              ]}
+            >
+              <Input.Password
+                prefix={<LockOutlined />}
+                placeholder="New password"
+                size="large"
+              />
+            </Form.Item>
+
+            <Form.Item
+              name="confirmPassword"
+              dependencies={["newPassword"]}
+              rules={[
+                { required: true, message: "Please confirm the new password" },
+                ({ getFieldValue }) => ({
+                  validator(_, value) {
+                    if (!value || getFieldValue("newPassword") === value) {
+                      return Promise.resolve();
+                    }
+                    return Promise.reject(
+                      new Error("The two passwords do not match")
+                    );
+                  },
+                }),
+              ]}
+            >
+              <Input.Password
+                prefix={<LockOutlined />}
+                placeholder="Confirm new password"
+                size="large"
+              />
+            </Form.Item>
+
+            <Form.Item>
+              <Button
+                type="primary"
+                htmlType="submit"
+                loading={loading}
+                block
+                size="large"
+              >
+                Reset Password
+              </Button>
+            </Form.Item>
+          </Form>
+        )}
+      </Card>
+    </div>
+  );
+}
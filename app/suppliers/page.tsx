@@ -0,0 +1,640 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Table,
+  Button,
+  Modal,
+  Form,
+  Input,
+  InputNumber,
+  Select,
+  Switch,
+  message,
+  Space,
+  Popconfirm,
+  Pagination,
+  Drawer,
+  Tag,
+} from "antd";
+import {
+  PlusOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  ShoppingOutlined,
+} from "@ant-design/icons";
+import {
+  supplierApi,
+  ingredientApi,
+  type Ingredient,
+  type Supplier,
+  type SupplierData,
+  type SupplierDetail,
+  type SupplierIngredient,
+  type SupplierIngredientData,
+} from "@/lib/api-client";
+import { auth } from "@/lib/auth";
+import { hasPermission } from "@/lib/permissions";
+import { getIngredientUnits } from "@/lib/packs";
+
+// Empty contact inputs clear the stored value
+function toNullable(value: string | undefined) {
+  return value?.trim() ? value.trim() : null;
+}
+
+// A page of suppliers, null when it could not be loaded, the error is shown
+async function loadSuppliers(
+  current: number,
+  pageSize: number,
+  keyword?: string
+) {
+  try {
+    const response = await supplierApi.getAll(current, pageSize, keyword);
+    if (response.success && response.data) {
+      return {
+        suppliers: response.data,
+        pagination: {
+          current: response.current || current,
+          pageSize: response.pageSize || pageSize,
+          total: response.total || 0,
+        },
+      };
+    }
+    message.error(response.error?.message || "Failed to fetch suppliers");
+  } catch {
+    message.error("Failed to fetch suppliers");
+  }
+  return null;
+}
+
+export default function SuppliersPage() {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [ingredients, setIngredients] = useState<Ingredient[]>([]);
+  // The first page is loading on mount
+  const [loading, setLoading] = useState(true);
+  const [modalVisible, setModalVisible] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(
+    null
+  );
+  const [form] = Form.useForm();
+  const [detail, setDetail] = useState<SupplierDetail | null>(null);
+  const [linkModalVisible, setLinkModalVisible] = useState(false);
+  const [editingLink, setEditingLink] = useState<SupplierIngredient | null>(
+    null
+  );
+  const [linkForm] = Form.useForm();
+  const [pagination, setPagination] = useState({
+    current: 1,
+    pageSize: 10,
+    total: 0,
+  });
+  const [searchKeyword, setSearchKeyword] = useState("");
+  const canManageSuppliers = hasPermission(
+    auth.getCurrentChef()?.role,
+    "supplier:manage"
+  );
+
+  const fetchSuppliers = async (
+    current = 1,
+    pageSize = 10,
+    keyword = searchKeyword
+  ) => {
+    setLoading(true);
+    const page = await loadSuppliers(current, pageSize, keyword);
+    if (page) {
+      setSuppliers(page.suppliers);
+      setPagination(page.pagination);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadSuppliers(1, 10).then((page) => {
+      if (page) {
+        setSuppliers(page.suppliers);
+        setPagination(page.pagination);
+      }
+      setLoading(false);
+    });
+    ingredientApi
+      .getAll(1, 1000)
+      .then((response) => {
+        if (response.success && response.data) {
+          setIngredients(response.data);
+        }
+      })
+      .catch((error) => console.error("Failed to fetch ingredients", error));
+  }, []);
+
+  const fetchDetail = async (supplierId: number) => {
+    try {
+      const response = await supplierApi.getById(supplierId);
+      if (response.success && response.data) {
+        setDetail(response.data);
+      } else {
+        message.error(response.error?.message || "Failed to fetch supplier");
+      }
+    } catch {
+      message.error("Failed to fetch supplier");
+    }
+  };
+
+  const handleCreate = () => {
+    setEditingSupplier(null);
+    form.resetFields();
+    setModalVisible(true);
+  };
+
+  const handleEdit = (supplier: Supplier) => {
+    setEditingSupplier(supplier);
+    form.setFieldsValue({
+      name: supplier.name,
+      contactName: supplier.contactName ?? undefined,
+      email: supplier.email ?? undefined,
+      phone: supplier.phone ?? undefined,
+      address: supplier.address ?? undefined,
+      notes: supplier.notes ?? undefined,
+    });
+    setModalVisible(true);
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      const response = await supplierApi.delete(id);
+      if (response.success) {
+        message.success("Deleted successfully");
+        fetchSuppliers(pagination.current, pagination.pageSize);
+      } else {
+        message.error(response.error?.message || "Failed to delete");
+      }
+    } catch {
+      message.error("Failed to delete");
+    }
+  };
+
+  const handleSubmit = async () => {
+    try {
+      const values = await form.validateFields();
+      const data: SupplierData = {
+        name: values.name,
+        contactName: toNullable(values.contactName),
+        email: toNullable(values.email),
+        phone: toNullable(values.phone),
+        address: toNullable(values.address),
+        notes: toNullable(values.notes),
+      };
+
+      const response = editingSupplier
+        ? await supplierApi.update(editingSupplier.id, data)
+        : await supplierApi.create(data);
+      if (response.success) {
+        message.success(
+          editingSupplier ? "Updated successfully" : "Created successfully"
+        );
+        setModalVisible(false);
+        fetchSuppliers(pagination.current, pagination.pageSize);
+      } else {
+        message.error(
+          response.error?.message ||
+            (editingSupplier ? "Failed to update" : "Failed to create")
+        );
+      }
+    } catch (error) {
+      console.error("Validation failed:", error);
+    }
+  };
+
+  const handleAddLink = () => {
+    setEditingLink(null);
+    linkForm.resetFields();
+    setLinkModalVisible(true);
+  };
+
+  const handleEditLink = (link: SupplierIngredient) => {
+    setEditingLink(link);
+    linkForm.setFieldsValue({
+      ingredientId: link.ingredientId,
+      packSize: link.packSize,
+      packUnit: link.packUnit,
+      price: link.price,
+      leadTimeDays: link.leadTimeDays ?? undefined,
+      preferred: link.preferred,
+    });
+    setLinkModalVisible(true);
+  };
+
+  const handleRemoveLink = async (ingredientId: number) => {
+    if (!detail) return;
+    try {
+      const response = await supplierApi.removeIngredient(
+        detail.id,
+        ingredientId
+      );
+      if (response.success) {
+        message.success("Removed successfully");
+        fetchDetail(detail.id);
+        fetchSuppliers(pagination.current, pagination.pageSize);
+      } else {
+        message.error(response.error?.message || "Failed to remove");
+      }
+    } catch {
+      message.error("Failed to remove");
+    }
+  };
+
+  const handleSubmitLink = async () => {
+    if (!detail) return;
+    try {
+      const values = await linkForm.validateFields();
+      const data: SupplierIngredientData = {
+        packSize: values.packSize,
+        packUnit: values.packUnit,
+        price: values.price,
+        leadTimeDays: values.leadTimeDays ?? null,
+        preferred: values.preferred ?? false,
+      };
+
+      const response = editingLink
+        ? await supplierApi.updateIngredient(
+            detail.id,
+            editingLink.ingredientId,
+            data
+          )
+        : await supplierApi.addIngredient(detail.id, {
+            ...data,
+            ingredientId: values.ingredientId,
+          });
+      if (response.success) {
+        message.success(
+          editingLink ? "Updated successfully" : "Added successfully"
+        );
+        setLinkModalVisible(false);
+        fetchDetail(detail.id);
+        fetchSuppliers(pagination.current, pagination.pageSize);
+      } else {
+        message.error(
+          response.error?.message ||
+            (editingLink ? "Failed to update" : "Failed to add")
+        );
+      }
+    } catch (error) {
+      console.error("Validation failed:", error);
+    }
+  };
+
+  const columns = [
+    {
+      title: "Name",
+      dataIndex: "name",
+      key: "name",
+    },
+    {
+      title: "Contact",
+      dataIndex: "contactName",
+      key: "contactName",
+      render: (text: string | null) => text || "-",
+    },
+    {
+      title: "Email",
+      dataIndex: "email",
+      key: "email",
+      render: (text: string | null) => text || "-",
+    },
+    {
+      title: "Phone",
+      dataIndex: "phone",
+      key: "phone",
+      width: 160,
+      render: (text: string | null) => text || "-",
+    },
+    {
+      title: "Ingredients",
+      dataIndex: "ingredientCount",
+      key: "ingredientCount",
+      width: 120,
+      render: (count: number | undefined, record: Supplier) => (
+        <Button
+          type="link"
+          style={{ padding: 0 }}
+          icon={<ShoppingOutlined />}
+          onClick={() => fetchDetail(record.id)}
+        >
+          {count ?? 0}
+        </Button>
+      ),
+    },
+    {
+      title: "Actions",
+      key: "action",
+      width: 200,
+      hidden: !canManageSuppliers,
+      render: (_: unknown, record: Supplier) => (
+        <Space>
+          <Button
+            type="link"
+            icon={<EditOutlined />}
+            onClick={() => handleEdit(record)}
+          >
+            Edit
+          </Button>
+          <Popconfirm
+            title="Delete the supplier and its ingredient prices?"
+            onConfirm={() => handleDelete(record.id)}
+          >
+            <Button type="link" danger icon={<DeleteOutlined />}>
+              Delete
+            </Button>
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  const linkColumns = [
+    {
+      title: "Ingredient",
+      key: "ingredient",
+      render: (_: unknown, record: SupplierIngredient) => (
+        <span>
+          {record.ingredient?.name}
+          {record.preferred && (
+            <Tag color="gold" style={{ marginLeft: 8 }}>
+              Preferred
+            </Tag>
+          )}
+        </span>
+      ),
+    },
+    {
+      title: "Pack",
+      key: "pack",
+      width: 100,
+      render: (_: unknown, record: SupplierIngredient) =>
+        `${record.packSize} ${record.packUnit}`,
+    },
+    {
+      title: "Price",
+      key: "price",
+      width: 140,
+      render: (_: unknown, record: SupplierIngredient) =>
+        `${record.price} (${record.unitPrice} / ${record.packUnit})`,
+    },
+    {
+      title: "Lead Time",
+      dataIndex: "leadTimeDays",
+      key: "leadTimeDays",
+      width: 100,
+      render: (days: number | null) => (days === null ? "-" : `${days} day(s)`),
+    },
+    {
+      title: "Actions",
+      key: "action",
+      width: 100,
+      hidden: !canManageSuppliers,
+      render: (_: unknown, record: SupplierIngredient) => (
+        <Space size={0}>
+          <Button
+            type="link"
+            icon={<EditOutlined />}
+            onClick={() => handleEditLink(record)}
+          />
+          <Popconfirm
+            title="Are you sure you want to remove?"
+            onConfirm={() => handleRemoveLink(record.ingredientId)}
+          >
+            <Button type="link" danger icon={<DeleteOutlined />} />
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  const linkedIds = detail?.ingredients.map((link) => link.ingredientId) ?? [];
+
+  return (
+    <div>
+      <div
+        style={{
+          marginBottom: 16,
+          display: "flex",
+          flexWrap: "wrap",
+          gap: 8,
+          alignItems: "center",
+          width: "100%",
+        }}
+      >
+        <Input.Search
+          placeholder="Search by supplier or contact name"
+          value={searchKeyword}
+          allowClear
+          onChange={(e) => {
+            const value = e.target.value;
+            setSearchKeyword(value);
+            if (!value) {
+              fetchSuppliers(1, pagination.pageSize, "");
+            }
+          }}
+          onSearch={(value) => {
+            const keyword = value.trim();
+            setSearchKeyword(keyword);
+            fetchSuppliers(1, pagination.pageSize, keyword);
+          }}
+          style={{ maxWidth: 320 }}
+        />
+        {canManageSuppliers && (
+          <Button
+            type="primary"
+            icon={<PlusOutlined />}
+            onClick={handleCreate}
+            style={{ marginLeft: "auto" }}
+          >
+            New Supplier
+          </Button>
+        )}
+      </div>
+
+      <Table
+        columns={columns}
+        dataSource={suppliers}
+        rowKey="id"
+        loading={loading}
+        pagination={false}
+      />
+      <div style={{ marginTop: 16, display: "flex", justifyContent: "center" }}>
+        <Pagination
+          current={pagination.current}
+          pageSize={pagination.pageSize}
+          total={pagination.total}
+          onChange={(page, pageSize) => {
+            fetchSuppliers(page, pageSize);
+          }}
+          showSizeChanger
+          showTotal={(total, range) =>
+            `${range[0]}-${range[1]} of ${total} suppliers`
+          }
+        />
+      </div>
+
+      <Modal
+        title={editingSupplier ? "Edit Supplier" : "New Supplier"}
+        open={modalVisible}
+        onOk={handleSubmit}
+        onCancel={() => setModalVisible(false)}
+        okText="OK"
+        cancelText="Cancel"
+        width={600}
+      >
+        <Form
+          form={form}
+          layout="horizontal"
+          labelCol={{ span: 6 }}
+          wrapperCol={{ span: 18 }}
+        >
+          <Form.Item
+            name="name"
+            label="Name"
+            rules={[{ required: true, message: "Please enter supplier name" }]}
+          >
+            <Input placeholder="Enter supplier name" />
+          </Form.Item>
+          <Form.Item name="contactName" label="Contact">
+            <Input placeholder="Contact person" />
+          </Form.Item>
+          <Form.Item
+            name="email"
+            label="Email"
+            rules={[{ type: "email", message: "Please enter a valid email" }]}
+          >
+            <Input placeholder="orders@example.com" />
+          </Form.Item>
+          <Form.Item name="phone" label="Phone">
+            <Input />
+          </Form.Item>
+          <Form.Item name="address" label="Address">
+            <Input />
+          </Form.Item>
+          <Form.Item name="notes" label="Notes">
+            <Input.TextArea rows={3} />
+          </Form.Item>
+        </Form>
+      </Modal>
+
+      <Drawer
+        title={`Ingredients of ${detail?.name || ""}`}
+        placement="right"
+        onClose={() => setDetail(null)}
+        open={detail !== null}
+        size={720}
+      >
+        {canManageSuppliers && (
+          <div style={{ marginBottom: 16, textAlign: "right" }}>
+            <Button
+              type="primary"
+              icon={<PlusOutlined />}
+              onClick={handleAddLink}
+            >
+              Add Ingredient
+            </Button>
+          </div>
+        )}
+        <Table
+          columns={linkColumns}
+          dataSource={detail?.ingredients ?? []}
+          rowKey="id"
+          pagination={false}
+          size="small"
+        />
+      </Drawer>
+
+      <Modal
+        title={editingLink ? "Edit Supplier Ingredient" : "Add Ingredient"}
+        open={linkModalVisible}
+        onOk={handleSubmitLink}
+        onCancel={() => setLinkModalVisible(false)}
+        okText="OK"
+        cancelText="Cancel"
+      >
+        <Form form={linkForm} layout="vertical">
+          <Form.Item
+            name="ingredientId"
+            label="Ingredient"
+            rules={[{ required: true, message: "Please select an ingredient" }]}
+          >
+            <Select
+              placeholder="Select ingredient"
+              disabled={editingLink !== null}
+              showSearch={{ optionFilterProp: "label" }}
+              options={ingredients
+                .filter(
+                  (ing) =>
+                    ing.id === editingLink?.ingredientId ||
+                    !linkedIds.includes(ing.id)
+                )
+                .map((ing) => ({
+                  label: `${ing.name} (${ing.unit})`,
+                  value: ing.id,
+                }))}
+            />
+          </Form.Item>
+          <Space align="start">
+            <Form.Item
+              name="packSize"
+              label="Pack Size"
+              rules={[{ required: true, message: "Please enter pack size" }]}
+            >
+              <InputNumber min={0} style={{ width: 140 }} />
+            </Form.Item>
+            <Form.Item noStyle shouldUpdate>
+              {() => {
+                // Pack units have to be convertible to the ingredient unit
+                const ingredient = ingredients.find(
+                  (ing) => ing.id === linkForm.getFieldValue("ingredientId")
+                );
+                return (
+                  <Form.Item name="packUnit" label="Pack Unit">
+                    <Select
+                      placeholder={ingredient?.unit || "Unit"}
+                      allowClear
+                      style={{ width: 120 }}
+                      options={
+                        ingredient
+                          ? getIngredientUnits(
+                              ingredient.unit,
+                              ingredient.packs,
+                              ingredient.density
+                            ).map((unit) => ({
+                              label: unit,
+                              value: unit,
+                            }))
+                          : []
+                      }
+                    />
+                  </Form.Item>
+                );
+              }}
+            </Form.Item>
+            <Form.Item
+              name="price"
+              label="Pack Price"
+              rules={[{ required: true, message: "Please enter price" }]}
+            >
+              <InputNumber min={0} style={{ width: 140 }} />
+            </Form.Item>
+          </Space>
+          <Space align="start">
+            <Form.Item name="leadTimeDays" label="Lead Time (days)">
+              <InputNumber min={0} precision={0} style={{ width: 140 }} />
+            </Form.Item>
+            <Form.Item
+              name="preferred"
+              label="Preferred Supplier"
+              valuePropName="checked"
+            >
+              <Switch />
+            </Form.Item>
+          </Space>
+        </Form>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+"use client";
+
+import { Tag } from "antd";
+import { getAllergenLabel } from "@/lib/allergens";
+
+interface AllergenTagsProps {
+  allergens?: string[];
+}
+
+export function AllergenTags({ allergens = [] }: AllergenTagsProps) {
+  if (allergens.length === 0) {
+    return <span style={{ color: "#999" }}>None</span>;
+  }
+  return (
+    <>
+      {allergens.map((code) => (
+        <Tag key={code} color="volcano">
+          {getAllergenLabel(code)}
+        </Tag>
+      ))}
+    </>
+  );
+}
@@ -6,10 +6,20 @@ import {
   ShoppingOutlined,
   AppstoreOutlined,
   LogoutOutlined,
+  AuditOutlined,
+  SettingOutlined,
+  ApartmentOutlined,
+  ShopOutlined,
 } from "@ant-design/icons";
 import { usePathname, useRouter } from "next/navigation";
 import { ReactNode, useState, useEffect } from "react";
-import { auth } from "@/lib/auth";
+import { auth, isPublicPath } from "@/lib/auth";
+import { chefApi } from "@/lib/api-client";
+import {
+  hasPermission,
+  CHEF_ROLE_LABELS,
+  type Permission,
+} from "@/lib/permissions";
 import type { MenuProps } from "antd";
 
 const { Header, Content, Sider } = Layout;
@@ -29,39 +39,85 @@ export function AppLayout({ children }: AppLayoutProps) {
     setCurrentChef(chef);
   }, [pathname]);
 
-  // Don't show layout on login page
-  if (pathname === "/login") {
+  // Don't show layout on public pages
+  if (isPublicPath(pathname)) {
     return <>{children}</>;
   }
 
-  const menuItems = [
+  const menuItems: Array<{
+    key: string;
+    icon: ReactNode;
+    label: string;
+    // Shown when the role has any of the permissions
+    permissions?: Permission[];
+  }> = [
     {
       key: "/chefs",
       icon: <UserOutlined />,
       label: "Chef Management",
+      // Head chefs transfer dishes between chefs from this page
+      permissions: ["chef:manage", "dish:transfer"],
     },
     {
       key: "/ingredients",
       icon: <ShoppingOutlined />,
       label: "Ingredient Management",
     },
+    {
+      key: "/categories",
+      icon: <ApartmentOutlined />,
+      label: "Category Management",
+    },
+    {
+      key: "/suppliers",
+      icon: <ShopOutlined />,
+      label: "Supplier Management",
+    },
     {
       key: "/dishes",
       icon: <AppstoreOutlined />,
       label: "Dish Management",
     },
+    {
+      key: "/audit",
+      icon: <AuditOutlined />,
+      label: "Audit Log",
+      permissions: ["audit:read"],
+    },
   ];
 
+  // Hide menu items the current role cannot use
+  const visibleMenuItems = menuItems
+    .filter(
+      (item) =>
+        !item.permissions ||
+        item.permissions.some((permission) =>
+          hasPermission(currentChef?.role, permission)
+        )
+    )
+    .map(({ key, icon, label }) => ({ key, icon, label }));
+
   const handleMenuClick = ({ key }: { key: string }) => {
     router.push(key);
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    try {
+      await chefApi.logout();
+    } catch (error) {
+      console.error("Failed to logout:", error);
+    }
     auth.clearCurrentChef();
     router.push("/login");
   };
 
   const userMenuItems: MenuProps["items"] = [
+    {
+      key: "account",
+      icon: <SettingOutlined />,
+      label: "My Account",
+      onClick: () => router.push("/account"),
+    },
     {
       key: "logout",
       icon: <LogoutOutlined />,
@@ -84,7 +140,7 @@ export function AppLayout({ children }: AppLayoutProps) {
           theme="dark"
           selectedKeys={[pathname]}
           mode="inline"
-          items={menuItems}
+          items={visibleMenuItems}
           onClick={handleMenuClick}
         />
       </Sider>
@@ -105,6 +161,7 @@ export function AppLayout({ children }: AppLayoutProps) {
             {currentChef && (
               <span style={{ marginRight: 16 }}>
                 Welcome, <strong>{currentChef.name}</strong>
+                {currentChef.role && ` (${CHEF_ROLE_LABELS[currentChef.role]})`}
               </span>
             )}
             <Dropdown menu={{ items: userMenuItems }} placement="bottomRight">
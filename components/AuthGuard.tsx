@@ -2,7 +2,7 @@
 
 import { useEffect, useState } from "react";
 import { useRouter, usePathname } from "next/navigation";
-import { auth } from "@/lib/auth";
+import { auth, isPublicPath } from "@/lib/auth";
 
 interface AuthGuardProps {
   children: React.ReactNode;
@@ -14,8 +14,8 @@ export function AuthGuard({ children }: AuthGuardProps) {
   const [isChecking, setIsChecking] = useState(true);
 
   useEffect(() => {
-    // Skip auth check for login page
-    if (pathname === "/login") {
+    // Skip auth check for public pages
+    if (isPublicPath(pathname)) {
       setIsChecking(false);
       return;
     }
@@ -0,0 +1,56 @@
+"use client";
+
+import { TreeSelect } from "antd";
+import type { TreeSelectProps } from "antd";
+import type { CategoryNode } from "@/lib/api-client";
+
+interface CategoryTreeSelectProps
+  extends Omit<TreeSelectProps<number>, "treeData"> {
+  categories: CategoryNode[];
+}
+
+function toTreeData(
+  nodes: CategoryNode[]
+): NonNullable<TreeSelectProps<number>["treeData"]> {
+  return nodes.map((node) => ({
+    title: node.name,
+    value: node.id,
+    children: toTreeData(node.children),
+  }));
+}
+
+// IDs of the category and all of its subcategories, matching the categoryId filter of the API
+export function findCategoryIds(
+  nodes: CategoryNode[],
+  categoryId: number
+): number[] {
+  for (const node of nodes) {
+    if (node.id === categoryId) {
+      const ids: number[] = [];
+      const collect = (current: CategoryNode) => {
+        ids.push(current.id);
+        current.children.forEach(collect);
+      };
+      collect(node);
+      return ids;
+    }
+    const ids = findCategoryIds(node.children, categoryId);
+    if (ids.length > 0) return ids;
+  }
+  return [];
+}
+
+export function CategoryTreeSelect({
+  categories,
+  ...props
+}: CategoryTreeSelectProps) {
+  return (
+    <TreeSelect<number>
+      treeData={toTreeData(categories)}
+      showSearch={{ treeNodeFilterProp: "title" }}
+      treeDefaultExpandAll
+      allowClear
+      {...props}
+    />
+  );
+}
@@ -0,0 +1,95 @@
+"use client";
+
+import { Alert, Table } from "antd";
+import type { DishCost, LineCost } from "@/lib/costing";
+
+interface DishCostPanelProps {
+  cost: DishCost;
+}
+
+const PRICE_SOURCE_LABELS = {
+  recorded: "Recorded prices",
+  preferred: "Preferred supplier prices",
+  cheapest: "Cheapest supplier prices",
+};
+
+const MISSING_REASONS = {
+  missing_price: "no price effective at this date",
+  unit_not_convertible: "amount cannot be converted to the price unit",
+  density_required: "mass and volume convert only with the ingredient's density",
+};
+
+export function DishCostPanel({ cost }: DishCostPanelProps) {
+  const missingLines = cost.lines.filter((line) => line.cost === null);
+
+  return (
+    <div>
+      <p>
+        {PRICE_SOURCE_LABELS[cost.priceSource]} effective at{" "}
+        {new Date(cost.asOf).toLocaleString("en-US")}
+      </p>
+      {!cost.complete && (
+        <Alert
+          type="warning"
+          showIcon
+          style={{ marginBottom: 16 }}
+          title="Some ingredients are not counted, the total is too low"
+          description={
+            <ul style={{ margin: 0, paddingLeft: 20 }}>
+              {missingLines.map((line) => (
+                <li key={line.ingredientId}>
+                  {line.ingredientName} ({line.amount} {line.unit}):{" "}
+                  {line.reason && MISSING_REASONS[line.reason]}
+                </li>
+              ))}
+            </ul>
+          }
+        />
+      )}
+      <Table
+        size="small"
+        pagination={false}
+        rowKey="ingredientId"
+        dataSource={cost.lines}
+        columns={[
+          { title: "Ingredient", dataIndex: "ingredientName", key: "name" },
+          {
+            title: "Amount",
+            key: "amount",
+            render: (_: unknown, line: LineCost) =>
+              `${line.amount} ${line.unit}`,
+          },
+          {
+            title: "Price",
+            key: "price",
+            render: (_: unknown, line: LineCost) =>
+              line.price === null ? "-" : `${line.price} / ${line.priceUnit}`,
+          },
+          {
+            title: "Supplier",
+            dataIndex: "supplierName",
+            key: "supplierName",
+            render: (value: string | undefined) => value || "-",
+          },
+          {
+            title: "Cost",
+            dataIndex: "cost",
+            key: "cost",
+            render: (value: number | null) =>
+              value === null ? "-" : value.toFixed(2),
+          },
+        ]}
+        summary={() => (
+          <Table.Summary.Row>
+            <Table.Summary.Cell index={0} colSpan={4}>
+              Total
+            </Table.Summary.Cell>
+            <Table.Summary.Cell index={1}>
+              {cost.total.toFixed(2)}
+            </Table.Summary.Cell>
+          </Table.Summary.Row>
+        )}
+      />
+    </div>
+  );
+}
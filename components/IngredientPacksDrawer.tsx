@@ -0,0 +1,260 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Drawer,
+  Table,
+  Form,
+  Input,
+  InputNumber,
+  Select,
+  Button,
+  Popconfirm,
+  Space,
+  message,
+} from "antd";
+import {
+  DeleteOutlined,
+  EditOutlined,
+  PlusOutlined,
+} from "@ant-design/icons";
+import {
+  ingredientApi,
+  type Ingredient,
+  type IngredientPack,
+} from "@/lib/api-client";
+
+interface IngredientPacksDrawerProps {
+  ingredient: Ingredient | null;
+  canManage: boolean;
+  onClose: () => void;
+  // Called after a pack was changed so the list can refresh the ingredient's packs
+  onChange?: () => void;
+}
+
+// Null when the packs could not be loaded, the error is shown
+async function loadPacks(
+  ingredientId: number
+): Promise<IngredientPack[] | null> {
+  try {
+    const response = await ingredientApi.getPacks(ingredientId);
+    if (response.success && response.data) {
+      return response.data;
+    }
+    message.error(response.error?.message || "Failed to fetch packs");
+  } catch {
+    message.error("Failed to fetch packs");
+  }
+  return null;
+}
+
+export function IngredientPacksDrawer({
+  ingredient,
+  canManage,
+  onClose,
+  onChange,
+}: IngredientPacksDrawerProps) {
+  const [packs, setPacks] = useState<IngredientPack[]>([]);
+  const [loading, setLoading] = useState(false);
+  // Ingredient the packs were loaded for, they are loading while another one is open
+  const [loadedFor, setLoadedFor] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  // Pack whose name and contents are being edited
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form] = Form.useForm();
+
+  const fetchPacks = async (ingredientId: number) => {
+    setLoading(true);
+    const loaded = await loadPacks(ingredientId);
+    if (loaded) setPacks(loaded);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (!ingredient) return;
+    // A response for an ingredient that is no longer open is dropped
+    let active = true;
+    loadPacks(ingredient.id).then((loaded) => {
+      if (!active) return;
+      if (loaded) setPacks(loaded);
+      setLoadedFor(ingredient.id);
+    });
+    return () => {
+      active = false;
+    };
+  }, [ingredient]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    form.resetFields();
+  };
+
+  const handleSave = async () => {
+    if (!ingredient) return;
+    try {
+      const values = await form.validateFields();
+      setSaving(true);
+      const data = {
+        name: values.name,
+        quantity: values.quantity,
+        containsPackId: values.containsPackId ?? null,
+      };
+      const response =
+        editingId !== null
+          ? await ingredientApi.updatePack(ingredient.id, editingId, data)
+          : await ingredientApi.addPack(ingredient.id, data);
+      if (response.success) {
+        message.success(editingId !== null ? "Pack updated" : "Pack added");
+        resetForm();
+        fetchPacks(ingredient.id);
+        onChange?.();
+      } else {
+        message.error(response.error?.message || "Failed to save pack");
+      }
+    } catch (error) {
+      console.error("Validation failed:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (pack: IngredientPack) => {
+    setEditingId(pack.id);
+    form.setFieldsValue({
+      name: pack.name,
+      quantity: pack.quantity,
+      containsPackId: pack.containsPackId ?? undefined,
+    });
+  };
+
+  const handleRemove = async (packId: number) => {
+    if (!ingredient) return;
+    try {
+      const response = await ingredientApi.removePack(ingredient.id, packId);
+      if (response.success) {
+        message.success("Removed successfully");
+        if (editingId === packId) {
+          resetForm();
+        }
+        fetchPacks(ingredient.id);
+        onChange?.();
+      } else {
+        message.error(response.error?.message || "Failed to remove");
+      }
+    } catch {
+      message.error("Failed to remove");
+    }
+  };
+
+  const columns = [
+    {
+      title: "Pack",
+      dataIndex: "name",
+      key: "name",
+    },
+    {
+      title: "Holds",
+      key: "quantity",
+      render: (_: unknown, record: IngredientPack) =>
+        `${record.quantity} ${record.containsPackName ?? record.unit}`,
+    },
+    {
+      title: "Contents",
+      key: "baseQuantity",
+      render: (_: unknown, record: IngredientPack) =>
+        record.baseQuantity === null
+          ? "-"
+          : `${record.baseQuantity} ${record.unit}`,
+    },
+    {
+      title: "Actions",
+      key: "action",
+      width: 180,
+      hidden: !canManage,
+      render: (_: unknown, record: IngredientPack) => (
+        <Space>
+          <Button
+            type="link"
+            icon={<EditOutlined />}
+            onClick={() => handleEdit(record)}
+          >
+            Edit
+          </Button>
+          <Popconfirm
+            title="Are you sure you want to remove this pack?"
+            onConfirm={() => handleRemove(record.id)}
+          >
+            <Button type="link" danger icon={<DeleteOutlined />}>
+              Remove
+            </Button>
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <Drawer
+      title={`Packs of ${ingredient?.name || ""}`}
+      placement="right"
+      onClose={() => {
+        resetForm();
+        onClose();
+      }}
+      open={ingredient !== null}
+      size={720}
+    >
+      {canManage && ingredient && (
+        <Form
+          form={form}
+          layout="inline"
+          style={{ marginBottom: 16, rowGap: 8 }}
+        >
+          <Form.Item
+            name="name"
+            rules={[{ required: true, message: "Please enter pack name" }]}
+          >
+            <Input placeholder="Pack, e.g. case" style={{ width: 160 }} />
+          </Form.Item>
+          <Form.Item
+            name="quantity"
+            rules={[{ required: true, message: "Please enter quantity" }]}
+          >
+            <InputNumber placeholder="Holds" min={0} style={{ width: 110 }} />
+          </Form.Item>
+          <Form.Item name="containsPackId">
+            <Select
+              placeholder={ingredient.unit}
+              allowClear
+              style={{ width: 140 }}
+              options={packs
+                .filter((pack) => pack.id !== editingId)
+                .map((pack) => ({ label: pack.name, value: pack.id }))}
+            />
+          </Form.Item>
+          <Form.Item>
+            <Space>
+              <Button
+                type="primary"
+                icon={editingId !== null ? <EditOutlined /> : <PlusOutlined />}
+                loading={saving}
+                onClick={handleSave}
+              >
+                {editingId !== null ? "Save" : "Add"}
+              </Button>
+              {editingId !== null && <Button onClick={resetForm}>Cancel</Button>}
+            </Space>
+          </Form.Item>
+        </Form>
+      )}
+      <Table
+        columns={columns}
+        dataSource={packs}
+        rowKey="id"
+        loading={loading || loadedFor !== ingredient?.id}
+        pagination={false}
+        size="small"
+      />
+    </Drawer>
+  );
+}
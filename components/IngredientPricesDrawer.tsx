@@ -0,0 +1,273 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Drawer,
+  Table,
+  Form,
+  InputNumber,
+  Select,
+  DatePicker,
+  Button,
+  Popconfirm,
+  Pagination,
+  Tag,
+  message,
+} from "antd";
+import { DeleteOutlined, PlusOutlined } from "@ant-design/icons";
+import {
+  ingredientApi,
+  type Ingredient,
+  type IngredientPrice,
+} from "@/lib/api-client";
+import { getIngredientUnits } from "@/lib/packs";
+
+interface IngredientPricesDrawerProps {
+  ingredient: Ingredient | null;
+  canManage: boolean;
+  onClose: () => void;
+  // Called after a price was added or deleted so the list can refresh the current price
+  onChange?: () => void;
+}
+
+// A page of the price history, null when it could not be loaded, the error is shown
+async function loadPrices(
+  ingredientId: number,
+  current: number,
+  pageSize: number
+) {
+  try {
+    const response = await ingredientApi.getPrices(
+      ingredientId,
+      current,
+      pageSize
+    );
+    if (response.success && response.data) {
+      return {
+        prices: response.data,
+        pagination: {
+          current: response.current || current,
+          pageSize: response.pageSize || pageSize,
+          total: response.total || 0,
+        },
+      };
+    }
+    message.error(response.error?.message || "Failed to fetch prices");
+  } catch {
+    message.error("Failed to fetch prices");
+  }
+  return null;
+}
+
+export function IngredientPricesDrawer({
+  ingredient,
+  canManage,
+  onClose,
+  onChange,
+}: IngredientPricesDrawerProps) {
+  const [prices, setPrices] = useState<IngredientPrice[]>([]);
+  const [loading, setLoading] = useState(false);
+  // Ingredient the prices were loaded for, they are loading while another one is open
+  const [loadedFor, setLoadedFor] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [pagination, setPagination] = useState({
+    current: 1,
+    pageSize: 10,
+    total: 0,
+  });
+  const [form] = Form.useForm();
+
+  const fetchPrices = async (
+    ingredientId: number,
+    current = 1,
+    pageSize = 10
+  ) => {
+    setLoading(true);
+    const page = await loadPrices(ingredientId, current, pageSize);
+    if (page) {
+      setPrices(page.prices);
+      setPagination(page.pagination);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (!ingredient) return;
+    // A response for an ingredient that is no longer open is dropped
+    let active = true;
+    loadPrices(ingredient.id, 1, 10).then((page) => {
+      if (!active) return;
+      if (page) {
+        setPrices(page.prices);
+        setPagination(page.pagination);
+      }
+      setLoadedFor(ingredient.id);
+    });
+    return () => {
+      active = false;
+    };
+  }, [ingredient]);
+
+  const handleAdd = async () => {
+    if (!ingredient) return;
+    try {
+      const values = await form.validateFields();
+      setSaving(true);
+      const response = await ingredientApi.addPrice(ingredient.id, {
+        price: values.price,
+        unit: values.unit,
+        effectiveFrom: values.effectiveFrom?.startOf("day").toISOString(),
+      });
+      if (response.success) {
+        message.success("Price recorded");
+        form.resetFields();
+        fetchPrices(ingredient.id, 1, pagination.pageSize);
+        onChange?.();
+      } else {
+        message.error(response.error?.message || "Failed to record price");
+      }
+    } catch (error) {
+      console.error("Validation failed:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (priceId: number) => {
+    if (!ingredient) return;
+    try {
+      const response = await ingredientApi.deletePrice(ingredient.id, priceId);
+      if (response.success) {
+        message.success("Deleted successfully");
+        fetchPrices(ingredient.id, pagination.current, pagination.pageSize);
+        onChange?.();
+      } else {
+        message.error(response.error?.message || "Failed to delete");
+      }
+    } catch {
+      message.error("Failed to delete");
+    }
+  };
+
+  const columns = [
+    {
+      title: "Effective From",
+      dataIndex: "effectiveFrom",
+      key: "effectiveFrom",
+      render: (text: string, record: IngredientPrice) => (
+        <span>
+          {new Date(text).toLocaleDateString("en-US")}
+          {record.effective && (
+            <Tag color="green" style={{ marginLeft: 8 }}>
+              Current
+            </Tag>
+          )}
+        </span>
+      ),
+    },
+    {
+      title: "Price",
+      key: "price",
+      render: (_: unknown, record: IngredientPrice) =>
+        `${record.price} / ${record.unit}`,
+    },
+    {
+      title: "Actions",
+      key: "action",
+      width: 100,
+      hidden: !canManage,
+      render: (_: unknown, record: IngredientPrice) => (
+        <Popconfirm
+          title="Are you sure you want to delete?"
+          onConfirm={() => handleDelete(record.id)}
+        >
+          <Button type="link" danger icon={<DeleteOutlined />}>
+            Delete
+          </Button>
+        </Popconfirm>
+      ),
+    },
+  ];
+
+  return (
+    <Drawer
+      title={`Prices of ${ingredient?.name || ""}`}
+      placement="right"
+      onClose={() => {
+        form.resetFields();
+        onClose();
+      }}
+      open={ingredient !== null}
+      size={640}
+    >
+      {canManage && ingredient && (
+        <Form
+          form={form}
+          layout="inline"
+          style={{ marginBottom: 16, rowGap: 8 }}
+        >
+          <Form.Item
+            name="price"
+            rules={[{ required: true, message: "Please enter price" }]}
+          >
+            <InputNumber placeholder="Price" min={0} style={{ width: 120 }} />
+          </Form.Item>
+          <Form.Item name="unit">
+            <Select
+              placeholder={`per ${ingredient.unit}`}
+              allowClear
+              style={{ width: 120 }}
+              options={getIngredientUnits(
+                ingredient.unit,
+                ingredient.packs,
+                ingredient.density
+              ).map((unit) => ({
+                label: `per ${unit}`,
+                value: unit,
+              }))}
+            />
+          </Form.Item>
+          <Form.Item name="effectiveFrom">
+            <DatePicker placeholder="Effective today" />
+          </Form.Item>
+          <Form.Item>
+            <Button
+              type="primary"
+              icon={<PlusOutlined />}
+              loading={saving}
+              onClick={handleAdd}
+            >
+              Add
+            </Button>
+          </Form.Item>
+        </Form>
+      )}
+      <Table
+        columns={columns}
+        dataSource={prices}
+        rowKey="id"
+        loading={loading || loadedFor !== ingredient?.id}
+        pagination={false}
+        size="small"
+      />
+      {pagination.total > 0 && (
+        <div style={{ marginTop: 16, textAlign: "center" }}>
+          <Pagination
+            current={pagination.current}
+            pageSize={pagination.pageSize}
+            total={pagination.total}
+            onChange={(page, pageSize) => {
+              if (ingredient) {
+                fetchPrices(ingredient.id, page, pageSize);
+              }
+            }}
+            showSizeChanger
+            showTotal={(total, range) =>
+              `${range[0]}-${range[1]} of ${total} prices`
+            }
+          />
+        </div>
+      )}
+    </Drawer>
+  );
+}
@@ -0,0 +1,289 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Drawer,
+  Table,
+  Form,
+  Input,
+  InputNumber,
+  Select,
+  Button,
+  Popconfirm,
+  Space,
+  message,
+} from "antd";
+import {
+  DeleteOutlined,
+  EditOutlined,
+  PlusOutlined,
+} from "@ant-design/icons";
+import {
+  ingredientApi,
+  type Ingredient,
+  type IngredientSubstitute,
+} from "@/lib/api-client";
+
+interface IngredientSubstitutesDrawerProps {
+  ingredient: Ingredient | null;
+  canManage: boolean;
+  onClose: () => void;
+  // Called after a substitute was added or removed so the list can refresh its count
+  onChange?: () => void;
+}
+
+// Null when the substitutes could not be loaded, the error is shown
+async function loadSubstitutes(
+  ingredientId: number
+): Promise<IngredientSubstitute[] | null> {
+  try {
+    const response = await ingredientApi.getSubstitutes(ingredientId);
+    if (response.success && response.data) {
+      return response.data;
+    }
+    message.error(response.error?.message || "Failed to fetch substitutes");
+  } catch {
+    message.error("Failed to fetch substitutes");
+  }
+  return null;
+}
+
+export function IngredientSubstitutesDrawer({
+  ingredient,
+  canManage,
+  onClose,
+  onChange,
+}: IngredientSubstitutesDrawerProps) {
+  const [substitutes, setSubstitutes] = useState<IngredientSubstitute[]>([]);
+  const [candidates, setCandidates] = useState<Ingredient[]>([]);
+  const [loading, setLoading] = useState(false);
+  // Ingredient the substitutes were loaded for, they are loading while another one is open
+  const [loadedFor, setLoadedFor] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  // Substitute whose ratio and notes are being edited
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form] = Form.useForm();
+
+  const fetchSubstitutes = async (ingredientId: number) => {
+    setLoading(true);
+    const loaded = await loadSubstitutes(ingredientId);
+    if (loaded) setSubstitutes(loaded);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (!ingredient) return;
+    // A response for an ingredient that is no longer open is dropped
+    let active = true;
+    loadSubstitutes(ingredient.id).then((loaded) => {
+      if (!active) return;
+      if (loaded) setSubstitutes(loaded);
+      setLoadedFor(ingredient.id);
+    });
+    if (canManage) {
+      ingredientApi.getAll(1, 1000).then((response) => {
+        if (active && response.success && response.data) {
+          setCandidates(
+            response.data.filter((candidate) => candidate.id !== ingredient.id)
+          );
+        }
+      });
+    }
+    return () => {
+      active = false;
+    };
+  }, [ingredient, canManage]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    form.resetFields();
+  };
+
+  const handleSave = async () => {
+    if (!ingredient) return;
+    try {
+      const values = await form.validateFields();
+      setSaving(true);
+      const response =
+        editingId !== null
+          ? await ingredientApi.updateSubstitute(ingredient.id, editingId, {
+              ratio: values.ratio,
+              notes: values.notes || null,
+            })
+          : await ingredientApi.addSubstitute(ingredient.id, {
+              substituteId: values.substituteId,
+              ratio: values.ratio,
+              notes: values.notes || null,
+            });
+      if (response.success) {
+        message.success(
+          editingId !== null ? "Substitute updated" : "Substitute added"
+        );
+        resetForm();
+        fetchSubstitutes(ingredient.id);
+        onChange?.();
+      } else {
+        message.error(response.error?.message || "Failed to save substitute");
+      }
+    } catch (error) {
+      console.error("Validation failed:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (substitute: IngredientSubstitute) => {
+    setEditingId(substitute.substituteId);
+    form.setFieldsValue({
+      substituteId: substitute.substituteId,
+      ratio: substitute.ratio,
+      notes: substitute.notes ?? undefined,
+    });
+  };
+
+  const handleRemove = async (substituteId: number) => {
+    if (!ingredient) return;
+    try {
+      const response = await ingredientApi.removeSubstitute(
+        ingredient.id,
+        substituteId
+      );
+      if (response.success) {
+        message.success("Removed successfully");
+        if (editingId === substituteId) {
+          resetForm();
+        }
+        fetchSubstitutes(ingredient.id);
+        onChange?.();
+      } else {
+        message.error(response.error?.message || "Failed to remove");
+      }
+    } catch {
+      message.error("Failed to remove");
+    }
+  };
+
+  const columns = [
+    {
+      title: "Substitute",
+      dataIndex: "substituteName",
+      key: "substituteName",
+    },
+    {
+      title: "Ratio",
+      key: "ratio",
+      render: (_: unknown, record: IngredientSubstitute) =>
+        `1 ${ingredient?.unit ?? ""} → ${record.ratio} ${record.substituteUnit}`,
+    },
+    {
+      title: "On Hand",
+      key: "onHand",
+      render: (_: unknown, record: IngredientSubstitute) =>
+        record.onHand === null || record.onHand === undefined
+          ? "-"
+          : `${record.onHand} ${record.substituteUnit}`,
+    },
+    {
+      title: "Notes",
+      dataIndex: "notes",
+      key: "notes",
+      render: (value: string | null) => value || "-",
+    },
+    {
+      title: "Actions",
+      key: "action",
+      width: 180,
+      hidden: !canManage,
+      render: (_: unknown, record: IngredientSubstitute) => (
+        <Space>
+          <Button
+            type="link"
+            icon={<EditOutlined />}
+            onClick={() => handleEdit(record)}
+          >
+            Edit
+          </Button>
+          <Popconfirm
+            title="Are you sure you want to remove this substitute?"
+            onConfirm={() => handleRemove(record.substituteId)}
+          >
+            <Button type="link" danger icon={<DeleteOutlined />}>
+              Remove
+            </Button>
+          </Popconfirm>
+        </Space>
+      ),
+    },
+  ];
+
+  return (
+    <Drawer
+      title={`Substitutes for ${ingredient?.name || ""}`}
+      placement="right"
+      onClose={() => {
+        resetForm();
+        onClose();
+      }}
+      open={ingredient !== null}
+      size={720}
+    >
+      {canManage && ingredient && (
+        <Form
+          form={form}
+          layout="inline"
+          style={{ marginBottom: 16, rowGap: 8 }}
+        >
+          <Form.Item
+            name="substituteId"
+            rules={[{ required: true, message: "Please select a substitute" }]}
+          >
+            <Select
+              placeholder="Substitute"
+              style={{ width: 200 }}
+              disabled={editingId !== null}
+              showSearch={{ optionFilterProp: "label" }}
+              options={candidates.map((candidate) => ({
+                label: `${candidate.name} (${candidate.unit})`,
+                value: candidate.id,
+              }))}
+            />
+          </Form.Item>
+          <Form.Item
+            name="ratio"
+            rules={[{ required: true, message: "Please enter ratio" }]}
+          >
+            <InputNumber
+              placeholder={`Ratio per ${ingredient.unit}`}
+              min={0}
+              style={{ width: 140 }}
+            />
+          </Form.Item>
+          <Form.Item name="notes">
+            <Input placeholder="Notes" style={{ width: 180 }} />
+          </Form.Item>
+          <Form.Item>
+            <Space>
+              <Button
+                type="primary"
+                icon={editingId !== null ? <EditOutlined /> : <PlusOutlined />}
+                loading={saving}
+                onClick={handleSave}
+              >
+                {editingId !== null ? "Save" : "Add"}
+              </Button>
+              {editingId !== null && <Button onClick={resetForm}>Cancel</Button>}
+            </Space>
+          </Form.Item>
+        </Form>
+      )}
+      <Table
+        columns={columns}
+        dataSource={substitutes}
+        rowKey="id"
+        loading={loading || loadedFor !== ingredient?.id}
+        pagination={false}
+        size="small"
+      />
+    </Drawer>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { Alert, Table } from "antd";
+import { NUTRIENTS, type DishNutrition } from "@/lib/nutrition";
+
+interface NutritionPanelProps {
+  nutrition: DishNutrition;
+}
+
+const SKIPPED_REASONS = {
+  missing_nutrition: "no nutrition data",
+  unit_not_convertible: "amount cannot be converted to the nutrition basis",
+  density_required: "mass and volume convert only with the ingredient's density",
+};
+
+export function NutritionPanel({ nutrition }: NutritionPanelProps) {
+  const rows = NUTRIENTS.map((nutrient) => ({
+    key: nutrient.key,
+    label: `${nutrient.label} (${nutrient.unit})`,
+    total: nutrition.total[nutrient.key],
+    perServing: nutrition.perServing[nutrient.key],
+  }));
+
+  return (
+    <div>
+      {!nutrition.complete && (
+        <Alert
+          type="warning"
+          showIcon
+          style={{ marginBottom: 16 }}
+          title="Some ingredients are not counted, the values are too low"
+          description={
+            <ul style={{ margin: 0, paddingLeft: 20 }}>
+              {nutrition.skippedLines.map((line) => (
+                <li key={line.ingredientId}>
+                  {line.ingredientName} ({line.amount} {line.unit}):{" "}
+                  {SKIPPED_REASONS[line.reason]}
+                </li>
+              ))}
+            </ul>
+          }
+        />
+      )}
+      <Table
+        size="small"
+        pagination={false}
+        dataSource={rows}
+        columns={[
+          { title: "Nutrient", dataIndex: "label", key: "label" },
+          { title: "Total", dataIndex: "total", key: "total" },
+          {
+            title: `Per Serving (${nutrition.servings})`,
+            dataIndex: "perServing",
+            key: "perServing",
+          },
+        ]}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { Button, Dropdown } from "antd";
+import { PrinterOutlined } from "@ant-design/icons";
+import {
+  STORAGE_CONDITIONS,
+  type StorageCondition,
+} from "@/lib/shelf-life";
+
+interface PrintLabelButtonProps {
+  // URL of the label page for a storage condition
+  getUrl: (storage: StorageCondition) => string;
+  // Conditions a label can be printed for, all of them when omitted
+  available?: StorageCondition[];
+  disabled?: boolean;
+}
+
+// Opens the printable prep label for the chosen storage condition in a new tab
+export function PrintLabelButton({
+  getUrl,
+  available,
+  disabled,
+}: PrintLabelButtonProps) {
+  const items = STORAGE_CONDITIONS.map((condition) => ({
+    key: condition.code,
+    label: condition.label,
+    disabled: available !== undefined && !available.includes(condition.code),
+  }));
+
+  const unavailable =
+    disabled || (available !== undefined && available.length === 0);
+
+  return (
+    <Dropdown
+      menu={{
+        items,
+        onClick: ({ key }) =>
+          window.open(getUrl(key as StorageCondition), "_blank"),
+      }}
+      disabled={unavailable}
+    >
+      <Button
+        type="link"
+        style={{ padding: 0 }}
+        icon={<PrinterOutlined />}
+        disabled={unavailable}
+      >
+        Label
+      </Button>
+    </Dropdown>
+  );
+}
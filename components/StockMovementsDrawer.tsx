@@ -0,0 +1,335 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Drawer,
+  Table,
+  Form,
+  Input,
+  InputNumber,
+  Select,
+  Button,
+  Pagination,
+  Tag,
+  message,
+} from "antd";
+import { PlusOutlined } from "@ant-design/icons";
+import {
+  inventoryApi,
+  type Ingredient,
+  type StockMovement,
+} from "@/lib/api-client";
+import { formatPackBreakdown, getIngredientUnits } from "@/lib/packs";
+import {
+  STOCK_CORRECTION_TYPES,
+  STOCK_MOVEMENT_LABELS,
+  RECORDABLE_STOCK_MOVEMENT_TYPES,
+  type RecordableStockMovementType,
+  type StockMovementType,
+} from "@/lib/stock";
+
+interface StockMovementsDrawerProps {
+  ingredient: Ingredient | null;
+  canRecord: boolean;
+  // Adjustments and counts
+  canCorrect: boolean;
+  onClose: () => void;
+  // Called after a movement was recorded so the list can refresh the stock level
+  onChange?: () => void;
+}
+
+const MOVEMENT_COLORS: Record<StockMovementType, string> = {
+  receipt: "green",
+  usage: "blue",
+  waste: "red",
+  adjustment: "orange",
+  count: "purple",
+  unit_change: "default",
+};
+
+const QUANTITY_PLACEHOLDERS: Record<RecordableStockMovementType, string> = {
+  receipt: "Quantity received",
+  usage: "Quantity used",
+  waste: "Quantity wasted",
+  adjustment: "Change (+/-)",
+  count: "Quantity counted",
+};
+
+// A page of stock movements, null when it could not be loaded, the error is shown
+async function loadMovements(
+  ingredientId: number,
+  current: number,
+  pageSize: number
+) {
+  try {
+    const response = await inventoryApi.getMovements(current, pageSize, {
+      ingredientId,
+    });
+    if (response.success && response.data) {
+      return {
+        movements: response.data,
+        pagination: {
+          current: response.current || current,
+          pageSize: response.pageSize || pageSize,
+          total: response.total || 0,
+        },
+        // The newest movement carries the current level
+        onHand: current === 1 ? (response.data[0]?.balanceAfter ?? 0) : null,
+      };
+    }
+    message.error(
+      response.error?.message || "Failed to fetch stock movements"
+    );
+  } catch {
+    message.error("Failed to fetch stock movements");
+  }
+  return null;
+}
+
+export function StockMovementsDrawer({
+  ingredient,
+  canRecord,
+  canCorrect,
+  onClose,
+  onChange,
+}: StockMovementsDrawerProps) {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [onHand, setOnHand] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  // Ingredient the movements were loaded for, they are loading while another one is open
+  const [loadedFor, setLoadedFor] = useState<number | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [pagination, setPagination] = useState({
+    current: 1,
+    pageSize: 10,
+    total: 0,
+  });
+  const [form] = Form.useForm();
+  const movementType: RecordableStockMovementType =
+    Form.useWatch("type", form) ?? "receipt";
+
+  const fetchMovements = async (
+    ingredientId: number,
+    current = 1,
+    pageSize = 10
+  ) => {
+    setLoading(true);
+    const page = await loadMovements(ingredientId, current, pageSize);
+    if (page) {
+      setMovements(page.movements);
+      setPagination(page.pagination);
+      if (page.onHand !== null) setOnHand(page.onHand);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (!ingredient) return;
+    // A response for an ingredient that is no longer open is dropped
+    let active = true;
+    loadMovements(ingredient.id, 1, 10).then((page) => {
+      if (!active) return;
+      if (page) {
+        setMovements(page.movements);
+        setPagination(page.pagination);
+        setOnHand(page.onHand);
+      }
+      setLoadedFor(ingredient.id);
+    });
+    return () => {
+      active = false;
+    };
+  }, [ingredient]);
+
+  const handleRecord = async () => {
+    if (!ingredient) return;
+    try {
+      const values = await form.validateFields();
+      setSaving(true);
+      const response = await inventoryApi.recordMovement({
+        ingredientId: ingredient.id,
+        type: values.type,
+        quantity: values.quantity,
+        unit: values.unit,
+        note: values.note,
+      });
+      if (response.success) {
+        message.success("Stock movement recorded");
+        form.resetFields();
+        fetchMovements(ingredient.id, 1, pagination.pageSize);
+        onChange?.();
+      } else {
+        message.error(
+          response.error?.message || "Failed to record stock movement"
+        );
+      }
+    } catch (error) {
+      console.error("Validation failed:", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const columns = [
+    {
+      title: "Date",
+      dataIndex: "createdAt",
+      key: "createdAt",
+      width: 180,
+      render: (text: string) => new Date(text).toLocaleString("en-US"),
+    },
+    {
+      title: "Type",
+      dataIndex: "type",
+      key: "type",
+      width: 110,
+      render: (type: StockMovementType) => (
+        <Tag color={MOVEMENT_COLORS[type]}>{STOCK_MOVEMENT_LABELS[type]}</Tag>
+      ),
+    },
+    {
+      title: "Change",
+      key: "quantity",
+      render: (_: unknown, record: StockMovement) => (
+        <span>
+          {record.quantity > 0 ? "+" : ""}
+          {record.quantity} {record.unit}
+          {record.enteredUnit !== record.unit &&
+            ` (${record.enteredQuantity} ${record.enteredUnit})`}
+        </span>
+      ),
+    },
+    {
+      title: "Balance",
+      key: "balanceAfter",
+      render: (_: unknown, record: StockMovement) =>
+        `${record.balanceAfter} ${record.unit}`,
+    },
+    {
+      title: "By",
+      dataIndex: "createdByName",
+      key: "createdByName",
+      render: (value: string | null) => value || "-",
+    },
+    {
+      title: "Note",
+      dataIndex: "note",
+      key: "note",
+      render: (value: string | null) => value || "-",
+    },
+  ];
+
+  return (
+    <Drawer
+      title={`Stock of ${ingredient?.name || ""}`}
+      placement="right"
+      onClose={() => {
+        form.resetFields();
+        setOnHand(null);
+        onClose();
+      }}
+      open={ingredient !== null}
+      size={800}
+    >
+      {ingredient && (
+        <p>
+          On hand: {onHand ?? ingredient.onHand ?? 0} {ingredient.unit}
+          {ingredient.packs &&
+            ingredient.packs.length > 0 &&
+            ` (${formatPackBreakdown(
+              onHand ?? ingredient.onHand ?? 0,
+              ingredient.unit,
+              ingredient.packs
+            )})`}
+          {ingredient.lowStockThreshold !== null &&
+            ingredient.lowStockThreshold !== undefined &&
+            `, low at ${ingredient.lowStockThreshold} ${ingredient.unit}`}
+        </p>
+      )}
+      {canRecord && ingredient && (
+        <Form
+          form={form}
+          layout="inline"
+          initialValues={{ type: "receipt" }}
+          style={{ marginBottom: 16, rowGap: 8 }}
+        >
+          <Form.Item name="type">
+            <Select
+              style={{ width: 130 }}
+              options={RECORDABLE_STOCK_MOVEMENT_TYPES.filter(
+                (type) => canCorrect || !STOCK_CORRECTION_TYPES.includes(type)
+              ).map((type) => ({
+                label: STOCK_MOVEMENT_LABELS[type],
+                value: type,
+              }))}
+            />
+          </Form.Item>
+          <Form.Item
+            name="quantity"
+            rules={[{ required: true, message: "Please enter quantity" }]}
+          >
+            <InputNumber
+              placeholder={QUANTITY_PLACEHOLDERS[movementType]}
+              min={movementType === "adjustment" ? undefined : 0}
+              style={{ width: 150 }}
+            />
+          </Form.Item>
+          <Form.Item name="unit">
+            <Select
+              placeholder={ingredient.unit}
+              allowClear
+              style={{ width: 90 }}
+              options={getIngredientUnits(
+                ingredient.unit,
+                ingredient.packs,
+                ingredient.density
+              ).map((unit) => ({
+                label: unit,
+                value: unit,
+              }))}
+            />
+          </Form.Item>
+          <Form.Item name="note">
+            <Input placeholder="Note" style={{ width: 180 }} />
+          </Form.Item>
+          <Form.Item>
+            <Button
+              type="primary"
+              icon={<PlusOutlined />}
+              loading={saving}
+              onClick={handleRecord}
+            >
+              Record
+            </Button>
+          </Form.Item>
+        </Form>
+      )}
+      <Table
+        columns={columns}
+        dataSource={movements}
+        rowKey="id"
+        loading={loading || loadedFor !== ingredient?.id}
+        pagination={false}
+        size="small"
+      />
+      {pagination.total > 0 && (
+        <div style={{ marginTop: 16, textAlign: "center" }}>
+          <Pagination
+            current={pagination.current}
+            pageSize={pagination.pageSize}
+            total={pagination.total}
+            onChange={(page, pageSize) => {
+              if (ingredient) {
+                fetchMovements(ingredient.id, page, pageSize);
+              }
+            }}
+            showSizeChanger
+            showTotal={(total, range) =>
+              `${range[0]}-${range[1]} of ${total} movements`
+            }
+          />
+        </div>
+      )}
+    </Drawer>
+  );
+}
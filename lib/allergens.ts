@@ -0,0 +1,94 @@
+// Major food allergens, stored as one flag per allergen on the ingredient and shared by the API and the UI
+
+export type AllergenCode =
+  | 'milk'
+  | 'eggs'
+  | 'fish'
+  | 'shellfish'
+  | 'tree_nuts'
+  | 'peanuts'
+  | 'wheat'
+  | 'soybeans'
+  | 'sesame'
+
+export type AllergenField =
+  | 'containsMilk'
+  | 'containsEggs'
+  | 'containsFish'
+  | 'containsShellfish'
+  | 'containsTreeNuts'
+  | 'containsPeanuts'
+  | 'containsWheat'
+  | 'containsSoybeans'
+  | 'containsSesame'
+
+export interface AllergenDefinition {
+  code: AllergenCode
+  label: string
+  field: AllergenField
+}
+
+export const ALLERGENS: AllergenDefinition[] = [
+  { code: 'milk', label: 'Milk', field: 'containsMilk' },
+  { code: 'eggs', label: 'Eggs', field: 'containsEggs' },
+  { code: 'fish', label: 'Fish', field: 'containsFish' },
+  { code: 'shellfish', label: 'Shellfish', field: 'containsShellfish' },
+  { code: 'tree_nuts', label: 'Tree Nuts', field: 'containsTreeNuts' },
+  { code: 'peanuts', label: 'Peanuts', field: 'containsPeanuts' },
+  { code: 'wheat', label: 'Wheat', field: 'containsWheat' },
+  { code: 'soybeans', label: 'Soybeans', field: 'containsSoybeans' },
+  { code: 'sesame', label: 'Sesame', field: 'containsSesame' },
+]
+
+export const ALLERGEN_CODES = ALLERGENS.map((allergen) => allergen.code) as [AllergenCode, ...AllergenCode[]]
+
+export type AllergenFlags = Record<AllergenField, boolean>
+
+// Prisma select for all allergen flags of an ingredient
+export const ALLERGEN_SELECT = Object.fromEntries(
+  ALLERGENS.map((allergen) => [allergen.field, true])
+) as Record<AllergenField, true>
+
+export function isAllergenCode(input: string): input is AllergenCode {
+  return ALLERGEN_CODES.includes(input as AllergenCode)
+}
+
+export function getAllergenLabel(code: string): string {
+  return ALLERGENS.find((allergen) => allergen.code === code)?.label ?? code
+}
+
+// Every flag is set, allergens not in the list are cleared
+export function toAllergenFlags(codes: AllergenCode[]): AllergenFlags {
+  return Object.fromEntries(
+    ALLERGENS.map((allergen) => [allergen.field, codes.includes(allergen.code)])
+  ) as AllergenFlags
+}
+
+export function getAllergenCodes(flags: Partial<AllergenFlags>): AllergenCode[] {
+  return ALLERGENS.filter((allergen) => flags[allergen.field]).map((allergen) => allergen.code)
+}
+
+// Union of the allergens of several ingredients, in catalog order
+export function combineAllergens(ingredients: Partial<AllergenFlags>[]): AllergenCode[] {
+  return ALLERGENS.filter((allergen) => ingredients.some((flags) => flags[allergen.field])).map(
+    (allergen) => allergen.code
+  )
+}
+
+// Ingredient filter matching any of the allergens
+export function containsAnyAllergen(codes: AllergenCode[]): { OR: Partial<AllergenFlags>[] } {
+  return {
+    OR: ALLERGENS.filter((allergen) => codes.includes(allergen.code)).map(
+      (allergen) => ({ [allergen.field]: true }) as Partial<AllergenFlags>
+    ),
+  }
+}
+
+// Replace the flag columns of an ingredient row with its list of allergen codes
+export function withAllergens<T extends AllergenFlags>(row: T): Omit<T, AllergenField> & { allergens: AllergenCode[] } {
+  const rest: Record<string, unknown> = { ...row }
+  for (const allergen of ALLERGENS) {
+    delete rest[allergen.field]
+  }
+  return { ...(rest as Omit<T, AllergenField>), allergens: getAllergenCodes(row) }
+}
@@ -1,6 +1,15 @@
 // API Client utility functions
 
 import { auth } from './auth'
+import type { ChefRole } from './permissions'
+import type { AllergenCode } from './allergens'
+import type { DishNutrition, NutritionBasis } from './nutrition'
+import type { DishCost, EffectivePrice, PriceSource } from './costing'
+import type { RecordableStockMovementType, StockMovementType } from './stock'
+import type { ProposedDishIngredient, SubstitutionLine } from './substitutes'
+import type { IngredientPack as PackDefinition, PackCount } from './packs'
+import type { IngredientShelfLife, StorageCondition } from './shelf-life'
+import type { DishAvailability, IngredientSeason } from './seasons'
 
 const API_BASE_URL = '/api'
 
@@ -23,6 +32,10 @@ export interface Chef {
   id: number
   name: string
   username: string
+  role: ChefRole
+  active: boolean
+  deactivatedAt?: string | null
+  lockedUntil?: string | null
   createdAt: string
   updatedAt: string
 }
@@ -31,29 +44,236 @@ export interface CreateChefData {
   name: string
   username: string
   password: string
+  role?: ChefRole
 }
 
 export interface UpdateChefData {
   name: string
+  role?: ChefRole
+}
+
+// Returned by the password step of login when the chef has two-factor enabled
+export interface TwoFactorChallenge {
+  twoFactorRequired: true
+  challengeToken: string
+}
+
+export type LoginResult = Chef | TwoFactorChallenge
+
+export interface TwoFactorStatus {
+  enabled: boolean
+  recoveryCodesRemaining: number
+}
+
+export interface TwoFactorEnrollment {
+  secret: string
+  otpauthUri: string
 }
 
 // Ingredient related types
-export interface Ingredient {
+// Nutrition values per 100 g or 100 ml depending on nutritionBasis, null when unknown
+export interface IngredientNutritionData {
+  nutritionBasis?: NutritionBasis
+  energyKcal?: number | null
+  proteinG?: number | null
+  fatG?: number | null
+  carbsG?: number | null
+  sodiumMg?: number | null
+}
+
+export interface Ingredient extends IngredientNutritionData {
   id: number
   name: string
+  // Other names the ingredient is found by
+  aliases?: string[]
   unit: string
+  // Set on ingredients that were deleted but are kept for dish history
+  deletedAt?: string | null
+  // Set when a merged ingredient ID was requested and this ingredient was returned instead
+  redirectedFrom?: number | null
+  // Dishes whose current version uses the ingredient, returned by the list endpoint
+  usageCount?: number
+  categoryId?: number | null
+  category?: { id: number; name: string } | null
+  allergens?: AllergenCode[]
+  // Price effective now, returned by the list endpoint
+  currentPrice?: EffectivePrice | null
+  // Stock level at or below which the ingredient is reported as low, in its unit
+  lowStockThreshold?: number | null
+  // Grams per milliliter, lets amounts convert between mass and volume
+  density?: number | null
+  // Hours the ingredient keeps under each storage condition, null when unknown
+  shelfLifeAmbientHours?: number | null
+  shelfLifeChilledHours?: number | null
+  shelfLifeFrozenHours?: number | null
+  storageNotes?: string | null
+  // Months the ingredient is in season, available all year when empty
+  seasons?: IngredientSeason[]
+  // Stock on hand in the ingredient's unit, returned by the list endpoint
+  onHand?: number
+  lowStock?: boolean
+  // Ingredients that can stand in for this one, returned by the list endpoint
+  substituteCount?: number
+  // Packs the ingredient is bought and counted in, their names can be used as units
+  packs?: PackDefinition[]
   createdAt: string
   updatedAt: string
 }
 
-export interface CreateIngredientData {
+export interface CreateIngredientData extends IngredientNutritionData, Partial<IngredientShelfLife> {
   name: string
+  aliases?: string[]
   unit: string
+  categoryId?: number | null
+  allergens?: AllergenCode[]
+  lowStockThreshold?: number | null
+  density?: number | null
+  storageNotes?: string | null
+  seasons?: IngredientSeason[]
 }
 
-export interface UpdateIngredientData {
+export interface UpdateIngredientData extends IngredientNutritionData, Partial<IngredientShelfLife> {
   name?: string
+  aliases?: string[]
   unit?: string
+  categoryId?: number | null
+  allergens?: AllergenCode[]
+  lowStockThreshold?: number | null
+  density?: number | null
+  storageNotes?: string | null
+  seasons?: IngredientSeason[]
+  unitChange?: 'reject' | 'convert'
+}
+
+// Price per unit of an ingredient from effectiveFrom until the next recorded price
+export interface IngredientPrice {
+  id: number
+  ingredientId: number
+  price: number
+  unit: string
+  effectiveFrom: string
+  createdById: number | null
+  createdAt: string
+  // True for the price that applies now
+  effective: boolean
+}
+
+export interface IngredientPriceData {
+  price: number
+  unit?: string
+  effectiveFrom?: string
+}
+
+// An ingredient that can stand in for another, the amount is scaled by ratio
+export interface IngredientSubstitute {
+  id: number
+  ingredientId: number
+  substituteId: number
+  substituteName: string
+  substituteUnit: string
+  ratio: number
+  notes: string | null
+  // Stock of the substitute, null when it is not tracked
+  onHand?: number | null
+  createdAt: string
+  updatedAt: string
+}
+
+export interface IngredientSubstituteData {
+  substituteId?: number
+  ratio?: number
+  notes?: string | null
+}
+
+// A pack of an ingredient, quantity is of the contained pack or of the ingredient's unit
+export interface IngredientPack extends PackDefinition {
+  ingredientId: number
+  containsPackName: string | null
+  // Contents in the ingredient's unit, null when the nesting cannot be resolved
+  baseQuantity: number | null
+  unit: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface IngredientPackData {
+  name?: string
+  quantity?: number
+  containsPackId?: number | null
+}
+
+// Impact of changing an ingredient's unit, returned by dry runs and with CONFLICT errors
+export interface UnitChangeReport {
+  ingredientId: number
+  fromUnit: string
+  toUnit: string
+  // Used to convert between mass and volume
+  density: number | null
+  convertible: boolean
+  affectedDishes: {
+    dishId: number
+    dishName: string
+    chefId: number
+    chefName: string
+    versionNumber: number
+    ingredientAmount: number
+    convertedAmount: number | null
+  }[]
+  historicalRowCount: number
+  stockMovementCount: number
+  // The low stock threshold in the new unit, null "to" clears it
+  lowStockThreshold: { from: number; to: number | null } | null
+}
+
+// Dish currently using an ingredient, returned with CONFLICT errors when deleting it
+export interface IngredientUsage {
+  dishId: number
+  dishName: string
+  chefId: number
+  chefName: string
+  versionNumber: number
+  ingredientAmount: number
+  enteredAmount: number | null
+  enteredUnit: string | null
+}
+
+// Entry of an ingredient's usage list, current is false for dishes that only used it in older versions
+export interface IngredientDishUsage extends IngredientUsage {
+  ingredientUnit: string
+  current: boolean
+}
+
+export interface IngredientDeleteResult {
+  id: number
+  retainedForHistory: boolean
+}
+
+export interface IngredientMergeResult {
+  targetIngredientId: number
+  sourceIngredientId: number
+  combinedDishes: { dishId: number; versionNumber: number }[]
+  repointedRowCount: number
+}
+
+// Ingredient category related types
+export interface Category {
+  id: number
+  name: string
+  parentId: number | null
+  // Only returned when fetching a single category, e.g. "Dairy / Cheese"
+  path?: string
+  createdAt?: string
+  updatedAt?: string
+}
+
+export interface CategoryNode extends Category {
+  ingredientCount: number
+  children: CategoryNode[]
+}
+
+export interface CategoryData {
+  name?: string
+  parentId?: number | null
 }
 
 // Dish related types
@@ -62,6 +282,9 @@ export interface DishIngredient {
   ingredientName: string
   ingredientUnit: string
   ingredientAmount: number
+  // Amount and unit as entered, ingredientAmount is normalized to ingredientUnit
+  enteredAmount: number
+  enteredUnit: string
 }
 
 export interface Dish {
@@ -69,18 +292,44 @@ export interface Dish {
   name: string
   chefId: number
   chefName?: string
+  chefActive?: boolean
   versionNumber: number
   ingredients: DishIngredient[]
+  // Allergens of the ingredients of the current version
+  allergens?: AllergenCode[]
+  servings?: number
+  // Only returned when fetching a single dish
+  nutrition?: DishNutrition
+  // Cost with the ingredient prices effective at the requested date
+  cost?: DishCost
+  // Ingredients of the current version out of season on the requested day, returned by the list endpoint
+  availability?: DishAvailability
   createdAt: string
   updatedAt: string
 }
 
+// Filters of the dish list
+export interface DishListFilters {
+  search?: string
+  excludeAllergens?: AllergenCode[]
+  // Date the dish costs are calculated for, now when omitted
+  asOf?: string
+  priceSource?: PriceSource
+  // YYYY-MM-DD, dishes with out of season ingredients on that day are left out
+  availableOn?: string
+  region?: string
+  // Keep the dishes that are not available, flagged in their availability
+  includeUnavailable?: boolean
+}
+
 export interface CreateDishData {
   name: string
   ingredients: {
     ingredientId: number
     ingredientAmount: number
+    unit?: string
   }[]
+  servings?: number
 }
 
 export interface UpdateDishData {
@@ -88,12 +337,64 @@ export interface UpdateDishData {
   ingredients: {
     ingredientId: number
     ingredientAmount: number
+    unit?: string
   }[]
+  servings?: number
+}
+
+// Lines of past versions carry the name and unit recorded with the version
+export interface DishHistoryIngredient extends DishIngredient {
+  ingredient: {
+    id: number
+    name: string
+    unit: string
+  }
 }
 
 export interface DishHistoryVersion {
   versionNumber: number
-  ingredients: DishIngredient[]
+  ingredients: DishHistoryIngredient[]
+  allergens: AllergenCode[]
+  nutrition: DishNutrition
+  cost: DishCost
+}
+
+// Ingredient list of a dish with substitutes applied, ingredients can be sent to the dish update
+export interface DishSubstitutionProposal {
+  dishId: number
+  dishName: string
+  versionNumber: number
+  lines: SubstitutionLine[]
+  ingredients: ProposedDishIngredient[]
+}
+
+export interface DishTransfer {
+  id: number
+  fromChefId: number
+  fromChefName: string
+  toChefId: number
+  toChefName: string
+  previousName: string
+  newName: string
+  versionNumber: number
+  transferredById: number | null
+  transferredByName: string | null
+  createdAt: string
+}
+
+export type TransferConflictStrategy = 'fail' | 'rename'
+
+export interface DishTransferResult {
+  dishId: number
+  previousName: string
+  newName: string
+  renamed: boolean
+}
+
+export interface DishNameConflict {
+  dishId: number
+  name: string
+  conflictingDishId: number
 }
 
 export interface DishHistoryResponse {
@@ -102,10 +403,154 @@ export interface DishHistoryResponse {
     name: string
     chefId: number
     currentVersionNumber: number
+    servings: number
     createdAt: string
     updatedAt: string
   }
   histories: DishHistoryVersion[]
+  transfers: DishTransfer[]
+}
+
+// Supplier related types
+export interface Supplier {
+  id: number
+  name: string
+  contactName: string | null
+  email: string | null
+  phone: string | null
+  address: string | null
+  notes: string | null
+  // Number of ingredients the supplier sells, returned by the list endpoint
+  ingredientCount?: number
+  createdAt: string
+  updatedAt: string
+}
+
+export interface SupplierData {
+  name?: string
+  contactName?: string | null
+  email?: string | null
+  phone?: string | null
+  address?: string | null
+  notes?: string | null
+}
+
+// price is per pack of packSize packUnit, unitPrice per packUnit
+export interface SupplierIngredient {
+  id: number
+  supplierId: number
+  ingredientId: number
+  packSize: number
+  packUnit: string
+  price: number
+  unitPrice: number
+  leadTimeDays: number | null
+  preferred: boolean
+  ingredient?: { id: number; name: string; unit: string; deletedAt: string | null }
+  createdAt: string
+  updatedAt: string
+}
+
+export interface SupplierDetail extends Supplier {
+  ingredients: SupplierIngredient[]
+}
+
+export interface SupplierIngredientData {
+  ingredientId?: number
+  packSize?: number
+  packUnit?: string
+  price?: number
+  leadTimeDays?: number | null
+  preferred?: boolean
+}
+
+// Options of the printable prep labels, times are printed in the browser's time zone
+export interface LabelParams {
+  storage: StorageCondition
+  // ISO date, defaults to now
+  preparedAt?: string
+  copies?: number
+}
+
+// Inventory related types, quantities are in the ingredient's unit
+export interface StockLevel {
+  ingredientId: number
+  ingredientName: string
+  unit: string
+  onHand: number
+  // onHand in whole packs, largest first, and the rest in the ingredient's unit
+  onHandInPacks: { packs: PackCount[]; rest: number }
+  lowStockThreshold: number | null
+  lowStock: boolean
+  lastMovementAt: string | null
+}
+
+export interface StockMovement {
+  id: number
+  ingredientId: number
+  ingredientName: string
+  unit: string
+  type: StockMovementType
+  // Change of the on-hand quantity
+  quantity: number
+  enteredQuantity: number
+  enteredUnit: string
+  balanceAfter: number
+  note: string | null
+  createdById: number | null
+  createdByName: string | null
+  createdAt: string
+}
+
+export interface StockMovementData {
+  ingredientId: number
+  type: RecordableStockMovementType
+  quantity: number
+  unit?: string
+  note?: string
+}
+
+export interface StockMovementFilters {
+  ingredientId?: number
+  type?: StockMovementType
+  from?: string
+  to?: string
+}
+
+// Audit log related types
+export interface AuditLogEntry {
+  id: number
+  actorChefId: number | null
+  actorName: string | null
+  entityType: 'chef' | 'ingredient' | 'category' | 'dish'
+  entityId: number
+  action: string
+  before: unknown
+  after: unknown
+  createdAt: string
+}
+
+export interface AuditLogFilters {
+  entityType?: string
+  entityId?: number
+  actorChefId?: number
+  from?: string
+  to?: string
+}
+
+// Labels are HTML pages opened in a new tab, the session cookie authenticates them
+function labelUrl(endpoint: string, { storage, preparedAt, copies }: LabelParams): string {
+  const params = new URLSearchParams({
+    storage,
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  })
+  if (preparedAt) {
+    params.append('preparedAt', preparedAt)
+  }
+  if (copies) {
+    params.append('copies', copies.toString())
+  }
+  return `${API_BASE_URL}${endpoint}?${params.toString()}`
 }
 
 // API request function
@@ -118,23 +563,30 @@ async function apiRequest<T>(
     ...(options.headers as Record<string, string>),
   }
 
-  // Automatically add X-Chef-Id header if chef is logged in
-  const chefId = auth.getCurrentChefId()
-  if (chefId !== null) {
-    headers['X-Chef-Id'] = chefId.toString()
-  }
-
+  // The session cookie issued at login is sent automatically (same origin)
   const response = await fetch(`${API_BASE_URL}${endpoint}`, {
     ...options,
     headers,
+    credentials: 'same-origin',
   })
 
+  // Session is missing or expired, drop the cached chef and go back to login
+  if (response.status === 401 && typeof window !== 'undefined' && auth.isAuthenticated()) {
+    auth.clearCurrentChef()
+    window.location.href = '/login'
+  }
+
   return response.json()
 }
 
 // Chef API
 export const chefApi = {
-  getAll: async (current = 1, pageSize = 10, search?: string): Promise<ApiResponse<Chef[]>> => {
+  getAll: async (
+    current = 1,
+    pageSize = 10,
+    search?: string,
+    includeInactive = false
+  ): Promise<ApiResponse<Chef[]>> => {
     const params = new URLSearchParams({
       current: current.toString(),
       pageSize: pageSize.toString(),
@@ -143,6 +595,9 @@ export const chefApi = {
     if (trimmedSearch) {
       params.append('search', trimmedSearch)
     }
+    if (includeInactive) {
+      params.append('includeInactive', 'true')
+    }
     return apiRequest<Chef[]>(`/chefs?${params.toString()}`)
   },
 
@@ -164,17 +619,111 @@ export const chefApi = {
     })
   },
 
-  login: async (username: string, password: string): Promise<ApiResponse<Chef>> => {
-    return apiRequest<Chef>('/chefs/login', {
+  login: async (username: string, password: string): Promise<ApiResponse<LoginResult>> => {
+    return apiRequest<LoginResult>('/chefs/login', {
       method: 'POST',
       body: JSON.stringify({ username, password }),
     })
   },
+
+  loginTwoFactor: async (challengeToken: string, code: string): Promise<ApiResponse<Chef>> => {
+    return apiRequest<Chef>('/chefs/login', {
+      method: 'POST',
+      body: JSON.stringify({ challengeToken, code }),
+    })
+  },
+
+  unlock: async (id: number): Promise<ApiResponse<void>> => {
+    return apiRequest<void>(`/chefs/${id}/unlock`, {
+      method: 'POST',
+    })
+  },
+
+  deactivate: async (id: number): Promise<ApiResponse<Chef>> => {
+    return apiRequest<Chef>(`/chefs/${id}/deactivate`, {
+      method: 'POST',
+    })
+  },
+
+  reactivate: async (id: number): Promise<ApiResponse<Chef>> => {
+    return apiRequest<Chef>(`/chefs/${id}/reactivate`, {
+      method: 'POST',
+    })
+  },
+
+  transferDishes: async (
+    id: number,
+    toChefId: number,
+    onConflict: TransferConflictStrategy = 'fail'
+  ): Promise<ApiResponse<{ fromChefId: number; toChefId: number; transferred: DishTransferResult[] }>> => {
+    return apiRequest<{ fromChefId: number; toChefId: number; transferred: DishTransferResult[] }>(
+      `/chefs/${id}/transfer-dishes`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ toChefId, onConflict }),
+      }
+    )
+  },
+
+  changePassword: async (currentPassword: string, newPassword: string): Promise<ApiResponse<void>> => {
+    return apiRequest<void>('/chefs/password', {
+      method: 'PUT',
+      body: JSON.stringify({ currentPassword, newPassword }),
+    })
+  },
+
+  requestPasswordReset: async (id: number): Promise<ApiResponse<{ expiresAt: string }>> => {
+    return apiRequest<{ expiresAt: string }>(`/chefs/${id}/password-reset`, {
+      method: 'POST',
+    })
+  },
+
+  resetPassword: async (token: string, newPassword: string): Promise<ApiResponse<void>> => {
+    return apiRequest<void>('/chefs/password-reset', {
+      method: 'POST',
+      body: JSON.stringify({ token, newPassword }),
+    })
+  },
+
+  logout: async (): Promise<ApiResponse<void>> => {
+    return apiRequest<void>('/chefs/logout', {
+      method: 'POST',
+    })
+  },
+
+  getTwoFactorStatus: async (): Promise<ApiResponse<TwoFactorStatus>> => {
+    return apiRequest<TwoFactorStatus>('/chefs/2fa')
+  },
+
+  enrollTwoFactor: async (): Promise<ApiResponse<TwoFactorEnrollment>> => {
+    return apiRequest<TwoFactorEnrollment>('/chefs/2fa/enroll', {
+      method: 'POST',
+    })
+  },
+
+  verifyTwoFactor: async (code: string): Promise<ApiResponse<{ recoveryCodes: string[] }>> => {
+    return apiRequest<{ recoveryCodes: string[] }>('/chefs/2fa/verify', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    })
+  },
+
+  disableTwoFactor: async (password: string): Promise<ApiResponse<void>> => {
+    return apiRequest<void>('/chefs/2fa', {
+      method: 'DELETE',
+      body: JSON.stringify({ password }),
+    })
+  },
 }
 
 // Ingredient API
 export const ingredientApi = {
-  getAll: async (current = 1, pageSize = 10, search?: string): Promise<ApiResponse<Ingredient[]>> => {
+  getAll: async (
+    current = 1,
+    pageSize = 10,
+    search?: string,
+    categoryId?: number
+  ): Promise<ApiResponse<Ingredient[]>> => {
     const params = new URLSearchParams({
       current: current.toString(),
       pageSize: pageSize.toString(),
@@ -183,6 +732,9 @@ export const ingredientApi = {
     if (trimmedSearch) {
       params.append('search', trimmedSearch)
     }
+    if (categoryId) {
+      params.append('categoryId', categoryId.toString())
+    }
     return apiRequest<Ingredient[]>(`/ingredients?${params.toString()}`)
   },
 
@@ -203,29 +755,203 @@ export const ingredientApi = {
       body: JSON.stringify(data),
     })
   },
+
+  previewUpdate: async (
+    id: number,
+    data: UpdateIngredientData
+  ): Promise<ApiResponse<{ unitChange: UnitChangeReport | null }>> => {
+    return apiRequest<{ unitChange: UnitChangeReport | null }>(`/ingredients/${id}?dryRun=true`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  },
+
+  getUsage: async (
+    id: number,
+    current = 1,
+    pageSize = 10,
+    includeHistorical = false
+  ): Promise<ApiResponse<IngredientDishUsage[]>> => {
+    const params = new URLSearchParams({
+      current: current.toString(),
+      pageSize: pageSize.toString(),
+    })
+    if (includeHistorical) {
+      params.append('includeHistorical', 'true')
+    }
+    return apiRequest<IngredientDishUsage[]>(`/ingredients/${id}/usage?${params.toString()}`)
+  },
+
+  delete: async (id: number): Promise<ApiResponse<IngredientDeleteResult>> => {
+    return apiRequest<IngredientDeleteResult>(`/ingredients/${id}`, {
+      method: 'DELETE',
+    })
+  },
+
+  merge: async (id: number, sourceIngredientId: number): Promise<ApiResponse<IngredientMergeResult>> => {
+    return apiRequest<IngredientMergeResult>(`/ingredients/${id}/merge`, {
+      method: 'POST',
+      body: JSON.stringify({ sourceIngredientId }),
+    })
+  },
+
+  getPrices: async (id: number, current = 1, pageSize = 10): Promise<ApiResponse<IngredientPrice[]>> => {
+    return apiRequest<IngredientPrice[]>(`/ingredients/${id}/prices?current=${current}&pageSize=${pageSize}`)
+  },
+
+  addPrice: async (id: number, data: IngredientPriceData): Promise<ApiResponse<IngredientPrice>> => {
+    return apiRequest<IngredientPrice>(`/ingredients/${id}/prices`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  },
+
+  deletePrice: async (id: number, priceId: number): Promise<ApiResponse<{ id: number }>> => {
+    return apiRequest<{ id: number }>(`/ingredients/${id}/prices/${priceId}`, {
+      method: 'DELETE',
+    })
+  },
+
+  getSubstitutes: async (id: number): Promise<ApiResponse<IngredientSubstitute[]>> => {
+    return apiRequest<IngredientSubstitute[]>(`/ingredients/${id}/substitutes`)
+  },
+
+  addSubstitute: async (id: number, data: IngredientSubstituteData): Promise<ApiResponse<IngredientSubstitute>> => {
+    return apiRequest<IngredientSubstitute>(`/ingredients/${id}/substitutes`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  },
+
+  updateSubstitute: async (
+    id: number,
+    substituteId: number,
+    data: IngredientSubstituteData
+  ): Promise<ApiResponse<IngredientSubstitute>> => {
+    return apiRequest<IngredientSubstitute>(`/ingredients/${id}/substitutes/${substituteId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  },
+
+  removeSubstitute: async (
+    id: number,
+    substituteId: number
+  ): Promise<ApiResponse<{ ingredientId: number; substituteId: number }>> => {
+    return apiRequest<{ ingredientId: number; substituteId: number }>(`/ingredients/${id}/substitutes/${substituteId}`, {
+      method: 'DELETE',
+    })
+  },
+
+  getPacks: async (id: number): Promise<ApiResponse<IngredientPack[]>> => {
+    return apiRequest<IngredientPack[]>(`/ingredients/${id}/packs`)
+  },
+
+  addPack: async (id: number, data: IngredientPackData): Promise<ApiResponse<IngredientPack>> => {
+    return apiRequest<IngredientPack>(`/ingredients/${id}/packs`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  },
+
+  updatePack: async (id: number, packId: number, data: IngredientPackData): Promise<ApiResponse<IngredientPack>> => {
+    return apiRequest<IngredientPack>(`/ingredients/${id}/packs/${packId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  },
+
+  removePack: async (id: number, packId: number): Promise<ApiResponse<{ id: number }>> => {
+    return apiRequest<{ id: number }>(`/ingredients/${id}/packs/${packId}`, {
+      method: 'DELETE',
+    })
+  },
+
+  getLabelUrl: (id: number, params: LabelParams): string => {
+    return labelUrl(`/ingredients/${id}/label`, params)
+  },
+}
+
+// Category API
+export const categoryApi = {
+  getTree: async (): Promise<ApiResponse<CategoryNode[]>> => {
+    return apiRequest<CategoryNode[]>('/categories')
+  },
+
+  getById: async (id: number): Promise<ApiResponse<Category>> => {
+    return apiRequest<Category>(`/categories/${id}`)
+  },
+
+  create: async (data: CategoryData): Promise<ApiResponse<Category>> => {
+    return apiRequest<Category>('/categories', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  },
+
+  update: async (id: number, data: CategoryData): Promise<ApiResponse<Category>> => {
+    return apiRequest<Category>(`/categories/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  },
+
+  delete: async (id: number): Promise<ApiResponse<{ id: number }>> => {
+    return apiRequest<{ id: number }>(`/categories/${id}`, {
+      method: 'DELETE',
+    })
+  },
 }
 
 // Dish API
 export const dishApi = {
-  getAll: async (current = 1, pageSize = 10, search?: string): Promise<ApiResponse<Dish[]>> => {
+  getAll: async (current = 1, pageSize = 10, filters: DishListFilters = {}): Promise<ApiResponse<Dish[]>> => {
     const params = new URLSearchParams({
       current: current.toString(),
       pageSize: pageSize.toString(),
     })
-    const trimmedSearch = search?.trim()
+    const trimmedSearch = filters.search?.trim()
     if (trimmedSearch) {
       params.append('search', trimmedSearch)
     }
+    if (filters.excludeAllergens && filters.excludeAllergens.length > 0) {
+      params.append('excludeAllergens', filters.excludeAllergens.join(','))
+    }
+    if (filters.asOf) {
+      params.append('asOf', filters.asOf)
+    }
+    if (filters.priceSource && filters.priceSource !== 'recorded') {
+      params.append('priceSource', filters.priceSource)
+    }
+    if (filters.availableOn) {
+      params.append('availableOn', filters.availableOn)
+    }
+    if (filters.region) {
+      params.append('region', filters.region)
+    }
+    if (filters.includeUnavailable) {
+      params.append('includeUnavailable', 'true')
+    }
     return apiRequest<Dish[]>(`/dishes?${params.toString()}`)
   },
 
-  getById: async (dishId: number): Promise<ApiResponse<Dish>> => {
-    // X-Chef-Id is automatically added by apiRequest
-    return apiRequest<Dish>(`/dishes/${dishId}/ingredients`)
+  getById: async (
+    dishId: number,
+    asOf?: string,
+    priceSource: PriceSource = 'recorded'
+  ): Promise<ApiResponse<Dish>> => {
+    const params = new URLSearchParams()
+    if (asOf) {
+      params.append('asOf', asOf)
+    }
+    if (priceSource !== 'recorded') {
+      params.append('priceSource', priceSource)
+    }
+    const query = params.toString()
+    return apiRequest<Dish>(`/dishes/${dishId}/ingredients${query ? `?${query}` : ''}`)
   },
 
   create: async (data: CreateDishData): Promise<ApiResponse<Dish>> => {
-    // X-Chef-Id is automatically added by apiRequest
     return apiRequest<Dish>('/dishes', {
       method: 'POST',
       body: JSON.stringify(data),
@@ -233,15 +959,185 @@ export const dishApi = {
   },
 
   update: async (dishId: number, data: UpdateDishData): Promise<ApiResponse<Dish>> => {
-    // X-Chef-Id is automatically added by apiRequest
     return apiRequest<Dish>(`/dishes/${dishId}/ingredients`, {
       method: 'PUT',
       body: JSON.stringify(data),
     })
   },
 
-  getHistory: async (dishId: number, current = 1, pageSize = 10): Promise<ApiResponse<DishHistoryResponse>> => {
-    return apiRequest<DishHistoryResponse>(`/dishes/${dishId}/ingredients/history?current=${current}&pageSize=${pageSize}`)
+  transfer: async (
+    dishId: number,
+    toChefId: number,
+    onConflict: TransferConflictStrategy = 'fail'
+  ): Promise<ApiResponse<DishTransferResult>> => {
+    return apiRequest<DishTransferResult>(`/dishes/${dishId}/transfer`, {
+      method: 'POST',
+      body: JSON.stringify({ toChefId, onConflict }),
+    })
+  },
+
+  getSubstitutions: async (
+    dishId: number,
+    replaceIds?: number[]
+  ): Promise<ApiResponse<DishSubstitutionProposal>> => {
+    const query = replaceIds && replaceIds.length > 0 ? `?replace=${replaceIds.join(',')}` : ''
+    return apiRequest<DishSubstitutionProposal>(`/dishes/${dishId}/substitutions${query}`)
+  },
+
+  getHistory: async (
+    dishId: number,
+    current = 1,
+    pageSize = 10,
+    asOf?: string,
+    priceSource: PriceSource = 'recorded'
+  ): Promise<ApiResponse<DishHistoryResponse>> => {
+    const params = new URLSearchParams({
+      current: current.toString(),
+      pageSize: pageSize.toString(),
+    })
+    if (asOf) {
+      params.append('asOf', asOf)
+    }
+    if (priceSource !== 'recorded') {
+      params.append('priceSource', priceSource)
+    }
+    return apiRequest<DishHistoryResponse>(`/dishes/${dishId}/ingredients/history?${params.toString()}`)
+  },
+
+  getLabelUrl: (dishId: number, params: LabelParams): string => {
+    return labelUrl(`/dishes/${dishId}/label`, params)
+  },
+}
+
+// Supplier API
+export const supplierApi = {
+  getAll: async (current = 1, pageSize = 10, search?: string): Promise<ApiResponse<Supplier[]>> => {
+    const params = new URLSearchParams({
+      current: current.toString(),
+      pageSize: pageSize.toString(),
+    })
+    const trimmedSearch = search?.trim()
+    if (trimmedSearch) {
+      params.append('search', trimmedSearch)
+    }
+    return apiRequest<Supplier[]>(`/suppliers?${params.toString()}`)
+  },
+
+  getById: async (id: number): Promise<ApiResponse<SupplierDetail>> => {
+    return apiRequest<SupplierDetail>(`/suppliers/${id}`)
+  },
+
+  create: async (data: SupplierData): Promise<ApiResponse<Supplier>> => {
+    return apiRequest<Supplier>('/suppliers', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  },
+
+  update: async (id: number, data: SupplierData): Promise<ApiResponse<Supplier>> => {
+    return apiRequest<Supplier>(`/suppliers/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  },
+
+  delete: async (id: number): Promise<ApiResponse<{ id: number }>> => {
+    return apiRequest<{ id: number }>(`/suppliers/${id}`, {
+      method: 'DELETE',
+    })
+  },
+
+  addIngredient: async (id: number, data: SupplierIngredientData): Promise<ApiResponse<SupplierIngredient>> => {
+    return apiRequest<SupplierIngredient>(`/suppliers/${id}/ingredients`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  },
+
+  updateIngredient: async (
+    id: number,
+    ingredientId: number,
+    data: SupplierIngredientData
+  ): Promise<ApiResponse<SupplierIngredient>> => {
+    return apiRequest<SupplierIngredient>(`/suppliers/${id}/ingredients/${ingredientId}`, {
+      method: 'PUT',
+      body: JSON.stringify(data),
+    })
+  },
+
+  removeIngredient: async (
+    id: number,
+    ingredientId: number
+  ): Promise<ApiResponse<{ supplierId: number; ingredientId: number }>> => {
+    return apiRequest<{ supplierId: number; ingredientId: number }>(`/suppliers/${id}/ingredients/${ingredientId}`, {
+      method: 'DELETE',
+    })
   },
 }
 
+// Inventory API
+export const inventoryApi = {
+  getLevels: async (
+    current = 1,
+    pageSize = 10,
+    search?: string,
+    lowStock = false
+  ): Promise<ApiResponse<StockLevel[]>> => {
+    const params = new URLSearchParams({
+      current: current.toString(),
+      pageSize: pageSize.toString(),
+    })
+    const trimmedSearch = search?.trim()
+    if (trimmedSearch) {
+      params.append('search', trimmedSearch)
+    }
+    if (lowStock) {
+      params.append('lowStock', 'true')
+    }
+    return apiRequest<StockLevel[]>(`/inventory?${params.toString()}`)
+  },
+
+  getMovements: async (
+    current = 1,
+    pageSize = 10,
+    filters: StockMovementFilters = {}
+  ): Promise<ApiResponse<StockMovement[]>> => {
+    const params = new URLSearchParams({
+      current: current.toString(),
+      pageSize: pageSize.toString(),
+    })
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        params.append(key, value.toString())
+      }
+    })
+    return apiRequest<StockMovement[]>(`/inventory/movements?${params.toString()}`)
+  },
+
+  recordMovement: async (data: StockMovementData): Promise<ApiResponse<StockMovement>> => {
+    return apiRequest<StockMovement>('/inventory/movements', {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  },
+}
+
+// Audit API
+export const auditApi = {
+  getAll: async (
+    current = 1,
+    pageSize = 10,
+    filters: AuditLogFilters = {}
+  ): Promise<ApiResponse<AuditLogEntry[]>> => {
+    const params = new URLSearchParams({
+      current: current.toString(),
+      pageSize: pageSize.toString(),
+    })
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') {
+        params.append(key, value.toString())
+      }
+    })
+    return apiRequest<AuditLogEntry[]>(`/audit?${params.toString()}`)
+  },
+}
@@ -0,0 +1,67 @@
+// Audit log of every write made through the API
+
+import { Prisma } from '@prisma/client'
+
+export type AuditEntityType = 'chef' | 'ingredient' | 'category' | 'dish' | 'supplier'
+
+export type AuditAction =
+  | 'create'
+  | 'update'
+  | 'unlock'
+  | 'password_change'
+  | 'password_reset_request'
+  | 'password_reset'
+  | 'two_factor_enable'
+  | 'two_factor_disable'
+  | 'deactivate'
+  | 'reactivate'
+  | 'transfer'
+  | 'delete'
+  | 'merge'
+  | 'price_create'
+  | 'price_delete'
+  | 'ingredient_add'
+  | 'ingredient_update'
+  | 'ingredient_remove'
+  | 'stock_movement'
+  | 'substitute_add'
+  | 'substitute_update'
+  | 'substitute_remove'
+  | 'pack_add'
+  | 'pack_update'
+  | 'pack_remove'
+
+export const AUDIT_ENTITY_TYPES: AuditEntityType[] = ['chef', 'ingredient', 'category', 'dish', 'supplier']
+
+export interface AuditEntry {
+  actorChefId: number | null
+  entityType: AuditEntityType
+  entityId: number
+  action: AuditAction
+  before?: unknown
+  after?: unknown
+}
+
+// Dates and other non-JSON values are serialized the same way as API responses
+function toJsonValue(value: unknown): Prisma.InputJsonValue | typeof Prisma.DbNull {
+  if (value === undefined || value === null) return Prisma.DbNull
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue
+}
+
+// Record an audit entry, pass the transaction client so the entry is written atomically with the change
+export async function recordAudit(
+  tx: Prisma.TransactionClient,
+  entry: AuditEntry
+): Promise<void> {
+  await tx.auditlog.create({
+    data: {
+      actorChefId: entry.actorChefId,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      action: entry.action,
+      before: toJsonValue(entry.before),
+      after: toJsonValue(entry.after),
+      createdAt: new Date(),
+    },
+  })
+}
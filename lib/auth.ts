@@ -1,11 +1,19 @@
 // Authentication utilities using session storage
 
+import type { ChefRole } from './permissions'
+
 const CHEF_STORAGE_KEY = 'current_chef'
 
+// Pages which can be visited without logging in
+const PUBLIC_PATHS = ['/login', '/reset-password']
+
+export const isPublicPath = (pathname: string): boolean => PUBLIC_PATHS.includes(pathname)
+
 export interface ChefInfo {
   id: number
   name: string
   username: string
+  role: ChefRole
 }
 
 export const auth = {
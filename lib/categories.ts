@@ -0,0 +1,118 @@
+// Ingredient categories form a tree, e.g. Dairy → Cheese → Cheddar
+
+import { Prisma } from '@prisma/client'
+import { ConflictError, NotFoundError, ValidationError } from './errors'
+
+export interface CategoryRecord {
+  id: number
+  name: string
+  parentId: number | null
+}
+
+export interface CategoryNode extends CategoryRecord {
+  // Ingredients directly in this category, not counting subcategories
+  ingredientCount: number
+  children: CategoryNode[]
+}
+
+// The whole taxonomy is small, it is loaded at once and walked in memory
+export async function loadCategories(client: Prisma.TransactionClient): Promise<CategoryRecord[]> {
+  return client.ingredientcategory.findMany({
+    select: { id: true, name: true, parentId: true },
+    orderBy: { name: 'asc' },
+  })
+}
+
+// The category itself and every category below it
+export function collectDescendantIds(categories: CategoryRecord[], rootId: number): number[] {
+  const ids = [rootId]
+  for (let i = 0; i < ids.length; i++) {
+    for (const category of categories) {
+      if (category.parentId === ids[i]) ids.push(category.id)
+    }
+  }
+  return ids
+}
+
+export function buildCategoryTree(
+  categories: CategoryRecord[],
+  ingredientCounts: Map<number, number> = new Map()
+): CategoryNode[] {
+  const nodes = new Map<number, CategoryNode>(
+    categories.map((category) => [
+      category.id,
+      { ...category, ingredientCount: ingredientCounts.get(category.id) ?? 0, children: [] },
+    ])
+  )
+
+  const roots: CategoryNode[] = []
+  for (const node of nodes.values()) {
+    const parent = node.parentId !== null ? nodes.get(node.parentId) : undefined
+    if (parent) {
+      parent.children.push(node)
+    } else {
+      roots.push(node)
+    }
+  }
+  return roots
+}
+
+// Names from the root down, e.g. "Dairy / Cheese / Cheddar"
+export function buildCategoryPath(categories: CategoryRecord[], categoryId: number): string {
+  const byId = new Map(categories.map((category) => [category.id, category]))
+  const names: string[] = []
+  const visited = new Set<number>()
+  let category = byId.get(categoryId)
+  while (category && !visited.has(category.id)) {
+    visited.add(category.id)
+    names.unshift(category.name)
+    category = category.parentId !== null ? byId.get(category.parentId) : undefined
+  }
+  return names.join(' / ')
+}
+
+export async function assertCategoryExists(
+  client: Prisma.TransactionClient,
+  categoryId: number
+): Promise<void> {
+  const category = await client.ingredientcategory.findUnique({
+    where: { id: categoryId },
+    select: { id: true },
+  })
+  if (!category) {
+    throw new NotFoundError('Category not found')
+  }
+}
+
+// A category can not be moved below itself or one of its own subcategories
+export async function assertValidParent(
+  client: Prisma.TransactionClient,
+  categoryId: number | null,
+  parentId: number | null
+): Promise<void> {
+  if (parentId === null) return
+
+  const categories = await loadCategories(client)
+  if (!categories.some((category) => category.id === parentId)) {
+    throw new NotFoundError('Parent category not found')
+  }
+  if (categoryId !== null && collectDescendantIds(categories, categoryId).includes(parentId)) {
+    throw new ValidationError('A category cannot be moved below itself or one of its subcategories')
+  }
+}
+
+// Sibling names are unique, the same name may appear under different parents
+export async function assertUniqueSiblingName(
+  client: Prisma.TransactionClient,
+  name: string,
+  parentId: number | null,
+  categoryId: number | null
+): Promise<void> {
+  const sibling = await client.ingredientcategory.findFirst({
+    where: { name, parentId, ...(categoryId !== null ? { id: { not: categoryId } } : {}) },
+    select: { id: true },
+  })
+  if (sibling) {
+    throw new ConflictError(`A category named "${name}" already exists at this level`)
+  }
+}
@@ -0,0 +1,99 @@
+// Dish cost from the ingredient prices effective at a given date, shared by the API and the UI
+
+import { convertAmount, needsDensity, roundAmount } from './units'
+
+export interface CostLine {
+  ingredientId: number
+  ingredientName: string
+  // Amount in the unit the line is stored in
+  amount: number
+  unit: string
+  // Grams per milliliter of the ingredient, lets a mass be priced per volume and the other way around
+  density?: number | null
+}
+
+// Where the price of an ingredient comes from: its recorded price history or one of its suppliers
+export const PRICE_SOURCES = ['recorded', 'preferred', 'cheapest'] as const
+
+export type PriceSource = (typeof PRICE_SOURCES)[number]
+
+// Price of one unit of the ingredient, the unit may differ from the ingredient's own unit
+export interface EffectivePrice {
+  price: number
+  unit: string
+  effectiveFrom: Date | string
+  // Set when the price comes from a supplier's pack price
+  supplierId?: number
+  supplierName?: string
+  // Set when the unit is a pack of the ingredient, its contents in the ingredient's unit
+  pack?: { quantity: number; unit: string }
+}
+
+export interface LineCost extends CostLine {
+  // Rounded for display, the cost is computed with the exact price
+  price: number | null
+  priceUnit: string | null
+  supplierName?: string
+  cost: number | null
+  // density_required: the amount is a mass and the price per volume or the other way around, and the
+  // ingredient has no density
+  reason?: 'missing_price' | 'unit_not_convertible' | 'density_required'
+}
+
+export interface DishCost {
+  asOf: Date | string
+  priceSource: PriceSource
+  total: number
+  // False when some lines have no price, the total is then too low
+  complete: boolean
+  lines: LineCost[]
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+// Amount expressed in price units, null when it cannot be converted
+function toPriceUnits(line: CostLine, price: EffectivePrice): number | null {
+  const priceUnit = price.pack ? price.pack.unit : price.unit
+  const converted = line.unit === priceUnit ? line.amount : convertAmount(line.amount, line.unit, priceUnit, line.density)
+  if (converted === null || !price.pack) return converted
+  return converted / price.pack.quantity
+}
+
+// Lines without a price effective at asOf or whose amount cannot be expressed in the price unit are not counted
+export function computeDishCost(
+  lines: CostLine[],
+  prices: Map<number, EffectivePrice>,
+  asOf: Date,
+  priceSource: PriceSource = 'recorded'
+): DishCost {
+  let total = 0
+  const costLines = lines.map((line): LineCost => {
+    const price = prices.get(line.ingredientId)
+    if (!price) {
+      return { ...line, price: null, priceUnit: null, cost: null, reason: 'missing_price' }
+    }
+
+    const supplier = price.supplierName ? { supplierName: price.supplierName } : {}
+    const priceAmount = toPriceUnits(line, price)
+    if (priceAmount === null) {
+      const reason = needsDensity(line.unit, price.pack ? price.pack.unit : price.unit)
+        ? 'density_required'
+        : 'unit_not_convertible'
+      return { ...line, ...supplier, price: roundAmount(price.price), priceUnit: price.unit, cost: null, reason }
+    }
+
+    const cost = priceAmount * price.price
+    total += cost
+    return { ...line, ...supplier, price: roundAmount(price.price), priceUnit: price.unit, cost: roundCost(cost) }
+  })
+
+  return {
+    asOf,
+    priceSource,
+    total: roundCost(total),
+    complete: costLines.every((line) => line.cost !== null),
+    lines: costLines,
+  }
+}
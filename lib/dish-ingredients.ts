@@ -0,0 +1,213 @@
+// Dish ingredient lines: validation and unit normalization on write, formatting on read
+
+import { Prisma } from '@prisma/client'
+import { NotFoundError, ValidationError } from './errors'
+import { needsDensity, normalizeUnitCode } from './units'
+import { convertWithPacks, findPack } from './packs'
+import { PACK_SELECT } from './ingredient-packs'
+import { lockIngredientsForShare } from './ingredient-locks'
+import type { IngredientNutrition, NutritionLine } from './nutrition'
+import type { CostLine } from './costing'
+
+export interface DishIngredientInput {
+  ingredientId: number
+  ingredientAmount: number
+  unit?: string
+}
+
+// ingredientAmount is always stored in the ingredient's own unit, the entered values are kept for display.
+// The ingredient's name and unit are snapshotted so later versions can not rewrite history.
+export interface ResolvedDishIngredient {
+  ingredientId: number
+  ingredientAmount: number
+  enteredAmount: number
+  enteredUnit: string
+  ingredientName: string
+  ingredientUnit: string
+}
+
+export interface DishIngredientRow {
+  ingredientId: number
+  ingredientAmount: number
+  enteredAmount: number | null
+  enteredUnit: string | null
+  ingredientName?: string | null
+  ingredientUnit?: string | null
+  ingredient: { name: string; unit: string; density?: number | null }
+}
+
+// Legacy free-text units that are not in the catalog are kept as they are
+function toUnitCode(unit: string): string {
+  return normalizeUnitCode(unit) ?? unit.trim()
+}
+
+// Verify the ingredients exist, are not deleted and are not repeated, then convert every amount to the ingredient's unit.
+// Amounts may be entered in one of the ingredient's packs. Call it first in the transaction that writes the lines,
+// the ingredients stay locked so their units cannot change before the lines are written.
+export async function resolveDishIngredients(
+  tx: Prisma.TransactionClient,
+  lines: DishIngredientInput[]
+): Promise<ResolvedDishIngredient[]> {
+  const ingredientIds = lines.map((line) => line.ingredientId)
+  await lockIngredientsForShare(tx, ingredientIds)
+  const existingIngredients = await tx.ingredient.findMany({
+    where: { id: { in: ingredientIds } },
+    select: { id: true, name: true, unit: true, density: true, deletedAt: true, mergedIntoId: true, ...PACK_SELECT },
+  })
+  const ingredientById = new Map(existingIngredients.map((ing) => [ing.id, ing]))
+
+  const missingIngredientIds = ingredientIds.filter((id) => !ingredientById.has(id))
+  if (missingIngredientIds.length > 0) {
+    throw new NotFoundError(
+      `The following ingredients do not exist: ${missingIngredientIds.join(', ')}`
+    )
+  }
+
+  // Merged ingredients point to their replacement so the client can swap the line
+  const deletedIngredients = existingIngredients.filter((ing) => ing.deletedAt)
+  if (deletedIngredients.length > 0) {
+    throw new ValidationError(
+      `The following ingredients have been deleted or merged: ${deletedIngredients.map((ing) => ing.name).join(', ')}`,
+      deletedIngredients.map((ing) => ({
+        ingredientId: ing.id,
+        ingredientName: ing.name,
+        mergedIntoId: ing.mergedIntoId,
+      }))
+    )
+  }
+
+  if (new Set(ingredientIds).size !== ingredientIds.length) {
+    throw new ValidationError('Duplicate ingredient IDs found in the ingredients list')
+  }
+
+  const unitErrors: Array<{
+    ingredientId: number
+    ingredientName: string
+    unit: string
+    ingredientUnit: string
+    reason: 'unit_not_convertible' | 'density_required'
+  }> = []
+  const resolved = lines.map((line) => {
+    const ingredient = ingredientById.get(line.ingredientId)!
+    const ingredientUnit = toUnitCode(ingredient.unit)
+    const pack = findPack(ingredient.packs, line.unit)
+    const enteredUnit = pack ? pack.name : line.unit ? toUnitCode(line.unit) : ingredientUnit
+    const ingredientAmount = convertWithPacks(
+      line.ingredientAmount,
+      enteredUnit,
+      ingredientUnit,
+      ingredientUnit,
+      ingredient.packs,
+      ingredient.density
+    )
+
+    if (ingredientAmount === null) {
+      unitErrors.push({
+        ingredientId: ingredient.id,
+        ingredientName: ingredient.name,
+        unit: line.unit!,
+        ingredientUnit: ingredient.unit,
+        // Mass and volume convert once the ingredient has a density
+        reason: needsDensity(enteredUnit, ingredientUnit) ? 'density_required' : 'unit_not_convertible',
+      })
+    }
+
+    return {
+      ingredientId: line.ingredientId,
+      ingredientAmount: ingredientAmount ?? 0,
+      enteredAmount: line.ingredientAmount,
+      enteredUnit,
+      ingredientName: ingredient.name,
+      ingredientUnit: ingredient.unit,
+    }
+  })
+
+  if (unitErrors.length > 0) {
+    throw new ValidationError(
+      'Some ingredient amounts use a unit that cannot be converted to the ingredient unit',
+      unitErrors
+    )
+  }
+
+  return resolved
+}
+
+// Rows written before units were tracked have no entered values, they were entered in the ingredient unit
+export function formatDishIngredient(row: DishIngredientRow) {
+  return {
+    ingredientId: row.ingredientId,
+    ingredientName: row.ingredient.name,
+    ingredientUnit: row.ingredient.unit,
+    ingredientAmount: row.ingredientAmount,
+    enteredAmount: row.enteredAmount ?? row.ingredientAmount,
+    enteredUnit: row.enteredUnit ?? row.ingredient.unit,
+  }
+}
+
+// Lines of past versions show the name and unit recorded with the version, the live ingredient is linked
+export function formatHistoricalDishIngredient(
+  row: DishIngredientRow & { ingredient: { id: number } }
+) {
+  const ingredientUnit = row.ingredientUnit ?? row.ingredient.unit
+  return {
+    ingredientId: row.ingredientId,
+    ingredientName: row.ingredientName ?? row.ingredient.name,
+    ingredientUnit,
+    ingredientAmount: row.ingredientAmount,
+    enteredAmount: row.enteredAmount ?? row.ingredientAmount,
+    enteredUnit: row.enteredUnit ?? ingredientUnit,
+    ingredient: {
+      id: row.ingredient.id,
+      name: row.ingredient.name,
+      unit: row.ingredient.unit,
+    },
+  }
+}
+
+// Nutrition input of a line, lines of past versions are read with the name and unit recorded with them
+export function toNutritionLine(
+  row: DishIngredientRow & { ingredient: IngredientNutrition },
+  historical = false
+): NutritionLine {
+  return {
+    ingredientId: row.ingredientId,
+    ingredientName: historical ? row.ingredientName ?? row.ingredient.name : row.ingredient.name,
+    amount: row.ingredientAmount,
+    unit: historical ? row.ingredientUnit ?? row.ingredient.unit : row.ingredient.unit,
+    nutrition: row.ingredient,
+    density: row.ingredient.density ?? null,
+  }
+}
+
+// Cost input of a line, past versions are costed with the amount and unit recorded with them
+export function toCostLine(row: DishIngredientRow, historical = false): CostLine {
+  return {
+    ingredientId: row.ingredientId,
+    ingredientName: historical ? row.ingredientName ?? row.ingredient.name : row.ingredient.name,
+    amount: row.ingredientAmount,
+    unit: historical ? row.ingredientUnit ?? row.ingredient.unit : row.ingredient.unit,
+    density: row.ingredient.density ?? null,
+  }
+}
+
+// Rows written before servings were snapshotted get the dish's servings from before they change
+export async function snapshotLegacyDishServings(
+  tx: Prisma.TransactionClient,
+  dish: { id: number; servings: number }
+): Promise<void> {
+  await tx.dishingredient.updateMany({
+    where: { dishId: dish.id, servings: null },
+    data: { servings: dish.servings },
+  })
+}
+
+// Rows written before snapshots existed get the ingredient's values from before a rename or unit change
+export async function snapshotLegacyDishIngredients(
+  tx: Prisma.TransactionClient,
+  ingredient: { id: number; name: string; unit: string }
+): Promise<void> {
+  await tx.dishingredient.updateMany({
+    where: { ingredientId: ingredient.id, ingredientName: null },
+    data: { ingredientName: ingredient.name, ingredientUnit: ingredient.unit },
+  })
+}
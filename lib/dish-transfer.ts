@@ -0,0 +1,136 @@
+// Move dishes between chefs while keeping dish names unique per chef
+
+import { Prisma } from '@prisma/client'
+import { recordAudit } from './audit'
+import { ConflictError, NotFoundError, ValidationError } from './errors'
+
+export type TransferConflictStrategy = 'fail' | 'rename'
+
+export interface DishTransferResult {
+  dishId: number
+  previousName: string
+  newName: string
+  renamed: boolean
+}
+
+interface TransferDishesOptions {
+  dishIds: number[]
+  toChefId: number
+  onConflict: TransferConflictStrategy
+  actorChefId: number
+}
+
+// Names are compared case-insensitively, like the database collation does
+function nameKey(name: string): string {
+  return name.trim().toLowerCase()
+}
+
+// "Soup" owned by Tim becomes "Soup (Tim)", then "Soup (Tim 2)" and so on
+function resolveRenamedName(name: string, fromChefName: string, takenNames: Set<string>): string {
+  let candidate = `${name} (${fromChefName})`
+  let counter = 2
+  while (takenNames.has(nameKey(candidate))) {
+    candidate = `${name} (${fromChefName} ${counter})`
+    counter++
+  }
+  return candidate
+}
+
+// Transfer the dishes to another chef, every transfer is recorded in the dish history and the audit log
+export async function transferDishes(
+  tx: Prisma.TransactionClient,
+  options: TransferDishesOptions
+): Promise<DishTransferResult[]> {
+  const targetChef = await tx.chef.findUnique({
+    where: { id: options.toChefId },
+    select: { id: true, active: true },
+  })
+
+  if (!targetChef) {
+    throw new NotFoundError('Target chef not found')
+  }
+  if (!targetChef.active) {
+    throw new ConflictError('Cannot transfer dishes to a deactivated chef')
+  }
+
+  const dishes = await tx.dish.findMany({
+    where: { id: { in: options.dishIds } },
+    select: {
+      id: true,
+      name: true,
+      chefId: true,
+      versionNumber: true,
+      chef: { select: { name: true } },
+    },
+    orderBy: { id: 'asc' },
+  })
+
+  if (dishes.some((dish) => dish.chefId === options.toChefId)) {
+    throw new ValidationError('Dish already belongs to the target chef')
+  }
+
+  const targetDishes = await tx.dish.findMany({
+    where: { chefId: options.toChefId },
+    select: { id: true, name: true },
+  })
+  const takenNames = new Set(targetDishes.map((dish) => nameKey(dish.name)))
+
+  const conflicts = dishes
+    .filter((dish) => takenNames.has(nameKey(dish.name)))
+    .map((dish) => ({
+      dishId: dish.id,
+      name: dish.name,
+      conflictingDishId: targetDishes.find((d) => nameKey(d.name) === nameKey(dish.name))!.id,
+    }))
+
+  if (conflicts.length > 0 && options.onConflict === 'fail') {
+    throw new ConflictError(
+      `${conflicts.length} dish name(s) already exist for the target chef`,
+      { conflicts }
+    )
+  }
+
+  const now = new Date()
+  const results: DishTransferResult[] = []
+
+  for (const dish of dishes) {
+    const renamed = takenNames.has(nameKey(dish.name))
+    const newName = renamed ? resolveRenamedName(dish.name, dish.chef.name, takenNames) : dish.name
+    takenNames.add(nameKey(newName))
+
+    await tx.dish.update({
+      where: { id: dish.id },
+      data: {
+        chefId: options.toChefId,
+        name: newName,
+        updatedAt: now,
+      },
+    })
+
+    await tx.dishtransfer.create({
+      data: {
+        dishId: dish.id,
+        fromChefId: dish.chefId,
+        toChefId: options.toChefId,
+        previousName: dish.name,
+        newName,
+        versionNumber: dish.versionNumber,
+        transferredById: options.actorChefId,
+        createdAt: now,
+      },
+    })
+
+    await recordAudit(tx, {
+      actorChefId: options.actorChefId,
+      entityType: 'dish',
+      entityId: dish.id,
+      action: 'transfer',
+      before: { chefId: dish.chefId, name: dish.name },
+      after: { chefId: options.toChefId, name: newName },
+    })
+
+    results.push({ dishId: dish.id, previousName: dish.name, newName, renamed })
+  }
+
+  return results
+}
@@ -29,8 +29,23 @@ export class ValidationError extends AppError {
 }
 
 export class ConflictError extends AppError {
-  constructor(message: string = 'Resource conflict') {
+  constructor(message: string = 'Resource conflict', public details?: unknown) {
     super(message, 409, 'CONFLICT')
   }
 }
 
+
+export class UnauthenticatedError extends AppError {
+  constructor(message: string = 'Authentication required') {
+    super(message, 401, 'UNAUTHENTICATED')
+  }
+}
+
+export class LockedError extends AppError {
+  constructor(
+    message: string = 'Too many failed login attempts, please try again later',
+    public retryAfterSeconds: number = 0
+  ) {
+    super(message, 423, 'LOCKED')
+  }
+}
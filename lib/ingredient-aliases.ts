@@ -0,0 +1,92 @@
+// Alias names of ingredients, names and aliases are unique across all ingredients ignoring case and accents
+
+import { Prisma } from '@prisma/client'
+import { ValidationError } from './errors'
+import { normalizeIngredientName } from './ingredient-names'
+
+export interface IngredientNameMatch {
+  ingredient: { id: number; name: string; deletedAt: Date | null }
+  // The name that was looked up
+  name: string
+}
+
+// Ingredients whose name or alias equals one of the names. Ingredients saved before names were
+// normalized have no normalizedName, their name is compared by the database collation.
+export async function findIngredientByName(
+  client: Prisma.TransactionClient,
+  names: string[],
+  excludeIngredientId?: number
+): Promise<IngredientNameMatch | null> {
+  const normalizedNames = names.map(normalizeIngredientName)
+  const matches = await client.ingredient.findMany({
+    where: {
+      ...(excludeIngredientId ? { id: { not: excludeIngredientId } } : {}),
+      OR: [
+        { normalizedName: { in: normalizedNames } },
+        { normalizedName: null, name: { in: names } },
+        { aliases: { some: { normalizedName: { in: normalizedNames } } } },
+      ],
+    },
+    select: {
+      id: true,
+      name: true,
+      normalizedName: true,
+      deletedAt: true,
+      aliases: { select: { normalizedName: true } },
+    },
+  })
+  if (matches.length === 0) return null
+
+  // Live ingredients are reported before deleted ones kept for dish history
+  const match = matches.find((ingredient) => !ingredient.deletedAt) ?? matches[0]
+  const matchedNames = new Set([
+    match.normalizedName ?? normalizeIngredientName(match.name),
+    ...match.aliases.map((alias) => alias.normalizedName),
+  ])
+  return {
+    ingredient: { id: match.id, name: match.name, deletedAt: match.deletedAt },
+    name: names.find((name) => matchedNames.has(normalizeIngredientName(name))) ?? names[0],
+  }
+}
+
+// An ingredient's aliases may not repeat each other or its name
+export function assertDistinctNames(name: string, aliases: string[]): void {
+  const seen = new Set([normalizeIngredientName(name)])
+  for (const alias of aliases) {
+    const normalized = normalizeIngredientName(alias)
+    if (seen.has(normalized)) {
+      throw new ValidationError(`The alias "${alias}" repeats the name or another alias of the ingredient`)
+    }
+    seen.add(normalized)
+  }
+}
+
+// Replace the full alias set of an ingredient
+export async function replaceIngredientAliases(
+  tx: Prisma.TransactionClient,
+  ingredientId: number,
+  aliases: string[]
+): Promise<void> {
+  await tx.ingredientalias.deleteMany({ where: { ingredientId } })
+  if (aliases.length === 0) return
+  const now = new Date()
+  await tx.ingredientalias.createMany({
+    data: aliases.map((alias) => ({
+      ingredientId,
+      name: alias,
+      normalizedName: normalizeIngredientName(alias),
+      createdAt: now,
+    })),
+  })
+}
+
+export const ALIAS_SELECT = {
+  aliases: { select: { name: true }, orderBy: { name: 'asc' as const } },
+}
+
+// Aliases are returned as a list of names
+export function withAliases<T extends { aliases: Array<{ name: string }> }>(
+  row: T
+): Omit<T, 'aliases'> & { aliases: string[] } {
+  return { ...row, aliases: row.aliases.map((alias) => alias.name) }
+}
@@ -0,0 +1,34 @@
+// Row locks on ingredients. Amounts are stored in the ingredient's unit, so whatever converts an amount to that unit
+// reads the unit from a locked row and keeps the lock until its transaction ends.
+
+import { Prisma } from '@prisma/client'
+
+export interface LockedIngredient {
+  id: number
+  name: string
+  unit: string
+  density: number | null
+  // In the ingredient's unit
+  lowStockThreshold: number | null
+  deletedAt: Date | null
+}
+
+// Lock the ingredient row for writing, null when it does not exist. The read sees the latest committed row rather
+// than the transaction's snapshot.
+export async function lockIngredient(
+  tx: Prisma.TransactionClient,
+  ingredientId: number
+): Promise<LockedIngredient | null> {
+  const [ingredient] = await tx.$queryRaw<LockedIngredient[]>`
+    SELECT id, name, unit, density, lowStockThreshold, deletedAt FROM ingredient WHERE id = ${ingredientId} FOR UPDATE`
+  return ingredient ?? null
+}
+
+// Lock the ingredient rows for reading, a unit change waits until the transaction ends and the transaction waits
+// for a unit change in progress. Take the locks before anything else is read so the reads that follow see the rows
+// as they were when locked.
+export async function lockIngredientsForShare(tx: Prisma.TransactionClient, ingredientIds: number[]): Promise<void> {
+  if (ingredientIds.length === 0) return
+  await tx.$queryRaw`
+    SELECT id FROM ingredient WHERE id IN (${Prisma.join([...new Set(ingredientIds)])}) LOCK IN SHARE MODE`
+}
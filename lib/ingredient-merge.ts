@@ -0,0 +1,368 @@
+// Folding a duplicate ingredient into another one
+
+import { Prisma } from '@prisma/client'
+import { recordAudit } from './audit'
+import { snapshotLegacyDishIngredients } from './dish-ingredients'
+import { ConflictError, ValidationError } from './errors'
+import { findCurrentUsage } from './ingredient-usage'
+import { normalizeIngredientName } from './ingredient-names'
+import { loadIngredientPacks } from './ingredient-packs'
+import { appendStockMovement, loadStockLevels } from './inventory'
+import { findPack, packBaseQuantities } from './packs'
+import { convertAmount, needsDensity, roundAmount } from './units'
+
+interface MergeIngredient {
+  id: number
+  name: string
+  unit: string
+  density?: number | null
+}
+
+export interface IngredientMergeResult {
+  targetIngredientId: number
+  sourceIngredientId: number
+  // Dishes whose current version had both ingredients and got a new version with the combined amount
+  combinedDishes: Array<{ dishId: number; versionNumber: number }>
+  repointedRowCount: number
+}
+
+// Fold the source into the target: dishingredient rows are re-pointed to the target, dishes that
+// currently use both get a new version with the amounts combined, and the source is left as a
+// tombstone that redirects to the target. Both ingredients are expected to be locked with lockIngredient, their
+// units and densities as read under the lock.
+export async function mergeIngredients(
+  tx: Prisma.TransactionClient,
+  target: MergeIngredient,
+  source: MergeIngredient,
+  actorChefId: number
+): Promise<IngredientMergeResult> {
+  const now = new Date()
+  // Legacy free-text units only merge with the exact same unit, mass and volume need a density
+  const density = target.density ?? source.density
+  const toTargetUnit = (amount: number) =>
+    source.unit === target.unit ? amount : convertAmount(amount, source.unit, target.unit, density)
+
+  if (toTargetUnit(1) === null && needsDensity(source.unit, target.unit)) {
+    throw new ValidationError(
+      `Cannot merge "${source.name}" (${source.unit}) into "${target.name}" (${target.unit}) without a density, record the density of one of them first`
+    )
+  }
+  if (toTargetUnit(1) === null) {
+    throw new ValidationError(
+      `Cannot merge "${source.name}" (${source.unit}) into "${target.name}" (${target.unit}), the units are not compatible`
+    )
+  }
+
+  // A pack the target has by the same name takes the place of the source's pack, so supplier listings priced per
+  // pack keep their meaning only when both packs hold the same quantity
+  const packs = await loadIngredientPacks(tx, [source.id, target.id])
+  const sourcePackList = packs.get(source.id) ?? []
+  const targetPackList = packs.get(target.id) ?? []
+  const sourceContents = packBaseQuantities(sourcePackList)
+  const targetContents = packBaseQuantities(targetPackList)
+  const packConflicts = sourcePackList.flatMap((pack) => {
+    const targetPack = findPack(targetPackList, pack.name)
+    if (!targetPack) return []
+    const sourceQuantity = sourceContents.get(pack.id)
+    const targetQuantity = targetContents.get(targetPack.id)
+    const converted = sourceQuantity === undefined ? null : toTargetUnit(sourceQuantity)
+    if (converted !== null && targetQuantity !== undefined && roundAmount(converted) === targetQuantity) return []
+    return [
+      {
+        packName: pack.name,
+        sourceQuantity: sourceQuantity ?? null,
+        sourceUnit: source.unit,
+        targetQuantity: targetQuantity ?? null,
+        targetUnit: target.unit,
+      },
+    ]
+  })
+  if (packConflicts.length > 0) {
+    const packNames = packConflicts.map((conflict) => `"${conflict.packName}"`).join(', ')
+    throw new ConflictError(
+      `Cannot merge "${source.name}" into "${target.name}", the packs ${packNames} hold different quantities in each, rename one of them first`,
+      packConflicts
+    )
+  }
+
+  // History keeps the names and units it was recorded with
+  await snapshotLegacyDishIngredients(tx, source)
+  await snapshotLegacyDishIngredients(tx, target)
+
+  const sourceUsage = await findCurrentUsage(tx, source.id)
+  const targetDishIds = new Set((await findCurrentUsage(tx, target.id)).map((row) => row.dishId))
+  const combinedDishes: IngredientMergeResult['combinedDishes'] = []
+
+  for (const affected of sourceUsage.filter((row) => targetDishIds.has(row.dishId))) {
+    const currentLines = await tx.dishingredient.findMany({
+      where: { dishId: affected.dishId, versionNumber: affected.versionNumber },
+      select: {
+        ingredientId: true,
+        ingredientAmount: true,
+        enteredAmount: true,
+        enteredUnit: true,
+        ingredientName: true,
+        ingredientUnit: true,
+        ingredient: { select: { name: true, unit: true } },
+      },
+      orderBy: { ingredientId: 'asc' },
+    })
+    const sourceLine = currentLines.find((line) => line.ingredientId === source.id)!
+    const targetLine = currentLines.find((line) => line.ingredientId === target.id)!
+
+    const updatedDish = await tx.dish.update({
+      where: { id: affected.dishId },
+      data: { versionNumber: { increment: 1 }, updatedAt: now },
+      select: { versionNumber: true, servings: true },
+    })
+
+    // A combined amount can only be expressed in the target unit
+    const combinedAmount = toTargetUnit(sourceLine.ingredientAmount)! + targetLine.ingredientAmount
+
+    await tx.dishingredient.createMany({
+      data: currentLines
+        .filter((line) => line.ingredientId !== source.id)
+        .map((line) => {
+          const ingredientUnit = line.ingredientUnit ?? line.ingredient.unit
+          const isTarget = line.ingredientId === target.id
+          return {
+            dishId: affected.dishId,
+            ingredientId: line.ingredientId,
+            ingredientAmount: isTarget ? combinedAmount : line.ingredientAmount,
+            enteredAmount: isTarget ? combinedAmount : line.enteredAmount ?? line.ingredientAmount,
+            enteredUnit: isTarget ? target.unit : line.enteredUnit ?? ingredientUnit,
+            ingredientName: isTarget ? target.name : line.ingredientName ?? line.ingredient.name,
+            ingredientUnit: isTarget ? target.unit : ingredientUnit,
+            servings: updatedDish.servings,
+            versionNumber: updatedDish.versionNumber,
+            createdAt: now,
+            updatedAt: now,
+          }
+        }),
+    })
+
+    await recordAudit(tx, {
+      actorChefId,
+      entityType: 'dish',
+      entityId: affected.dishId,
+      action: 'update',
+      before: {
+        versionNumber: affected.versionNumber,
+        ingredients: [
+          { ingredientId: source.id, ingredientAmount: sourceLine.ingredientAmount, ingredientUnit: source.unit },
+          { ingredientId: target.id, ingredientAmount: targetLine.ingredientAmount, ingredientUnit: target.unit },
+        ],
+      },
+      after: {
+        versionNumber: updatedDish.versionNumber,
+        ingredients: [{ ingredientId: target.id, ingredientAmount: combinedAmount, ingredientUnit: target.unit }],
+      },
+    })
+
+    combinedDishes.push({ dishId: affected.dishId, versionNumber: updatedDish.versionNumber })
+  }
+
+  // Versions that already had a target line keep their source line, the tombstone still resolves it
+  const sourceRows = await tx.dishingredient.findMany({
+    where: { ingredientId: source.id },
+    select: {
+      id: true,
+      dishId: true,
+      versionNumber: true,
+      ingredientAmount: true,
+      enteredAmount: true,
+      enteredUnit: true,
+      dish: { select: { versionNumber: true } },
+    },
+  })
+  const targetRows = await tx.dishingredient.findMany({
+    where: { ingredientId: target.id, dishId: { in: sourceRows.map((row) => row.dishId) } },
+    select: { dishId: true, versionNumber: true },
+  })
+  const takenVersions = new Set(targetRows.map((row) => `${row.dishId}:${row.versionNumber}`))
+  const repointRows = sourceRows.filter((row) => !takenVersions.has(`${row.dishId}:${row.versionNumber}`))
+
+  // Past versions are read with their snapshotted unit, so only current lines need converting
+  const historicalIds = repointRows
+    .filter((row) => row.versionNumber !== row.dish.versionNumber)
+    .map((row) => row.id)
+  if (historicalIds.length > 0) {
+    await tx.dishingredient.updateMany({
+      where: { id: { in: historicalIds } },
+      data: { ingredientId: target.id, updatedAt: now },
+    })
+  }
+
+  for (const row of repointRows.filter((row) => row.versionNumber === row.dish.versionNumber)) {
+    await tx.dishingredient.update({
+      where: { id: row.id },
+      data: {
+        ingredientId: target.id,
+        ingredientAmount: toTargetUnit(row.ingredientAmount)!,
+        enteredAmount: row.enteredAmount ?? row.ingredientAmount,
+        enteredUnit: row.enteredUnit ?? source.unit,
+        ingredientUnit: target.unit,
+        updatedAt: now,
+      },
+    })
+  }
+
+  // Packs move to the target, prices and supplier listings refer to them by name. A pack the target already
+  // has by that name takes the place of the source's pack, both hold the same quantity.
+  const targetPackIds = new Map(
+    (
+      await tx.ingredientpack.findMany({ where: { ingredientId: target.id }, select: { id: true, name: true } })
+    ).map((pack) => [pack.name.toLowerCase(), pack.id])
+  )
+  const sourcePacks = await tx.ingredientpack.findMany({ where: { ingredientId: source.id } })
+  for (const pack of sourcePacks) {
+    const targetPackId = targetPackIds.get(pack.name.toLowerCase())
+    if (targetPackId !== undefined) {
+      await tx.ingredientpack.updateMany({
+        where: { containsPackId: pack.id },
+        data: { containsPackId: targetPackId, updatedAt: now },
+      })
+      await tx.ingredientpack.delete({ where: { id: pack.id } })
+      continue
+    }
+    await tx.ingredientpack.update({
+      where: { id: pack.id },
+      data: {
+        ingredientId: target.id,
+        quantity: pack.containsPackId === null ? toTargetUnit(pack.quantity)! : pack.quantity,
+        updatedAt: now,
+      },
+    })
+  }
+
+  // Supplier listings move to the target unless the supplier already sells it, the target keeps its preferred supplier
+  const targetLinks = await tx.supplieringredient.findMany({
+    where: { ingredientId: target.id },
+    select: { supplierId: true, preferred: true },
+  })
+  await tx.supplieringredient.deleteMany({
+    where: { ingredientId: source.id, supplierId: { in: targetLinks.map((link) => link.supplierId) } },
+  })
+  await tx.supplieringredient.updateMany({
+    where: { ingredientId: source.id },
+    data: {
+      ingredientId: target.id,
+      ...(targetLinks.some((link) => link.preferred) ? { preferred: false } : {}),
+      updatedAt: now,
+    },
+  })
+
+  // Substitutes move to the target. Ratios between units that cannot be converted are per unit, they
+  // are rescaled to the target unit. Duplicates and the target standing in for itself are dropped.
+  const substituteRows = await tx.ingredientsubstitute.findMany({
+    where: { OR: [{ ingredientId: source.id }, { substituteId: source.id }] },
+    include: {
+      ingredient: { select: { unit: true } },
+      substitute: { select: { unit: true, density: true } },
+    },
+  })
+  const targetPairs = new Set(
+    (
+      await tx.ingredientsubstitute.findMany({
+        where: { OR: [{ ingredientId: target.id }, { substituteId: target.id }] },
+        select: { ingredientId: true, substituteId: true },
+      })
+    ).map((row) => `${row.ingredientId}:${row.substituteId}`)
+  )
+  for (const row of substituteRows) {
+    const asIngredient = row.ingredientId === source.id
+    const ingredientId = asIngredient ? target.id : row.ingredientId
+    const substituteId = asIngredient ? row.substituteId : target.id
+    const pair = `${ingredientId}:${substituteId}`
+    if (ingredientId === substituteId || targetPairs.has(pair)) {
+      await tx.ingredientsubstitute.delete({ where: { id: row.id } })
+      continue
+    }
+
+    const otherUnit = asIngredient ? row.substitute.unit : row.ingredient.unit
+    // Amounts are converted with the substitute's density
+    const pairDensity = asIngredient ? row.substitute.density : source.density
+    const perUnit = otherUnit !== source.unit && convertAmount(1, source.unit, otherUnit, pairDensity) === null
+    // Source units in one target unit
+    const sourcePerTarget = 1 / toTargetUnit(1)!
+    const ratio = !perUnit ? row.ratio : asIngredient ? row.ratio * sourcePerTarget : row.ratio / sourcePerTarget
+    await tx.ingredientsubstitute.update({
+      where: { id: row.id },
+      data: { ingredientId, substituteId, ratio, updatedAt: now },
+    })
+    targetPairs.add(pair)
+  }
+
+  // Stock on hand moves to the target with a pair of adjustments, the source's ledger stays with it
+  const sourceOnHand = (await loadStockLevels(tx, [source.id])).get(source.id)?.onHand ?? 0
+  if (sourceOnHand > 0) {
+    await appendStockMovement(tx, {
+      ingredientId: source.id,
+      type: 'adjustment',
+      quantity: -sourceOnHand,
+      unit: source.unit,
+      enteredQuantity: -sourceOnHand,
+      enteredUnit: source.unit,
+      note: `Merged into "${target.name}"`,
+      createdById: actorChefId,
+    })
+    await appendStockMovement(tx, {
+      ingredientId: target.id,
+      type: 'adjustment',
+      quantity: toTargetUnit(sourceOnHand)!,
+      unit: target.unit,
+      enteredQuantity: sourceOnHand,
+      enteredUnit: source.unit,
+      note: `Merged from "${source.name}"`,
+      createdById: actorChefId,
+    })
+  }
+
+  // Cooks keep finding the target by the source's name and aliases
+  await tx.ingredientalias.updateMany({
+    where: { ingredientId: source.id },
+    data: { ingredientId: target.id },
+  })
+  const sourceName = normalizeIngredientName(source.name)
+  const targetAlias = await tx.ingredientalias.findUnique({ where: { normalizedName: sourceName } })
+  if (!targetAlias && sourceName !== normalizeIngredientName(target.name)) {
+    await tx.ingredientalias.create({
+      data: { ingredientId: target.id, name: source.name, normalizedName: sourceName, createdAt: now },
+    })
+  }
+
+  // Tombstones merged into the source now redirect straight to the target
+  await tx.ingredient.updateMany({
+    where: { mergedIntoId: source.id },
+    data: { mergedIntoId: target.id, updatedAt: now },
+  })
+
+  // The target keeps the density its converted amounts relied on
+  if (!target.density && source.density) {
+    await tx.ingredient.update({
+      where: { id: target.id },
+      data: { density: source.density, updatedAt: now },
+    })
+  }
+
+  const mergedSource = await tx.ingredient.update({
+    where: { id: source.id },
+    data: { mergedIntoId: target.id, deletedAt: now, updatedAt: now },
+  })
+
+  await recordAudit(tx, {
+    actorChefId,
+    entityType: 'ingredient',
+    entityId: source.id,
+    action: 'merge',
+    before: source,
+    after: mergedSource,
+  })
+
+  return {
+    targetIngredientId: target.id,
+    sourceIngredientId: source.id,
+    combinedDishes,
+    repointedRowCount: repointRows.length,
+  }
+}
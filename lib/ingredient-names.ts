@@ -0,0 +1,89 @@
+// Ingredient names and aliases: normalization for duplicate detection, fuzzy matching for search.
+// Shared by the API and the dish form's ingredient picker.
+
+// Whitespace runs collapse to a single space, otherwise names are stored as typed
+export function cleanIngredientName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ')
+}
+
+// Case, accents and whitespace are ignored when names are compared
+export function normalizeIngredientName(name: string): string {
+  return cleanIngredientName(name)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+}
+
+// Edits needed to turn a into b, swapping two adjacent letters counts as one edit
+function editDistance(a: string, b: string): number {
+  const distances = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  )
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      distances[i][j] = Math.min(distances[i - 1][j] + 1, distances[i][j - 1] + 1, distances[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distances[i][j] = Math.min(distances[i][j], distances[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return distances[a.length][b.length]
+}
+
+function trigrams(value: string): Set<string> {
+  const padded = `  ${value} `
+  const result = new Set<string>()
+  for (let i = 0; i < padded.length - 2; i++) {
+    result.add(padded.slice(i, i + 3))
+  }
+  return result
+}
+
+// Dice coefficient of the trigrams of both values
+function trigramSimilarity(a: string, b: string): number {
+  const left = trigrams(a)
+  const right = trigrams(b)
+  let shared = 0
+  for (const trigram of left) {
+    if (right.has(trigram)) shared++
+  }
+  return (2 * shared) / (left.size + right.size)
+}
+
+// Typos allowed in a word of the query, short words must match exactly
+function allowedTypos(word: string): number {
+  return word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0
+}
+
+// How well a search query matches a name, from 0 (no match) to 1 (the same name)
+export function scoreNameMatch(query: string, name: string): number {
+  const normalizedQuery = normalizeIngredientName(query)
+  const normalizedName = normalizeIngredientName(name)
+  if (!normalizedQuery || !normalizedName) return 0
+  if (normalizedName === normalizedQuery) return 1
+  if (normalizedName.startsWith(normalizedQuery)) return 0.9
+
+  const words = normalizedName.split(' ')
+  if (words.some((word) => word.startsWith(normalizedQuery))) return 0.85
+  if (normalizedName.includes(normalizedQuery)) return 0.75
+
+  // Every word of the query is a word of the name, or the start of one, with a typo or two
+  const queryWords = normalizedQuery.split(' ')
+  const typoMatch = queryWords.every((queryWord) =>
+    words.some(
+      (word) =>
+        editDistance(queryWord, word) <= allowedTypos(queryWord) ||
+        editDistance(queryWord, word.slice(0, queryWord.length)) <= allowedTypos(queryWord)
+    )
+  )
+  if (typoMatch) return 0.7
+
+  const similarity = trigramSimilarity(normalizedQuery, normalizedName)
+  return similarity >= 0.3 ? similarity * 0.6 : 0
+}
+
+// Best match over the name and the aliases of an ingredient
+export function scoreIngredientMatch(query: string, names: string[]): number {
+  return Math.max(0, ...names.map((name) => scoreNameMatch(query, name)))
+}
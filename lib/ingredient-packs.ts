@@ -0,0 +1,128 @@
+// Pack definitions of ingredients. Prices, supplier listings and stock movements refer to a pack by its name.
+
+import { Prisma } from '@prisma/client'
+import { ValidationError } from './errors'
+import { convertAmount, findUnit, roundAmount } from './units'
+import { findPack, packBaseQuantities, type IngredientPack } from './packs'
+import type { EffectivePrice } from './costing'
+
+export const PACK_SELECT = {
+  packs: {
+    select: { id: true, name: true, quantity: true, containsPackId: true },
+    orderBy: { id: 'asc' as const },
+  },
+}
+
+// Packs of each ingredient, ingredients without packs are left out
+export async function loadIngredientPacks(
+  client: Prisma.TransactionClient,
+  ingredientIds: number[]
+): Promise<Map<number, IngredientPack[]>> {
+  const packs = new Map<number, IngredientPack[]>()
+  if (ingredientIds.length === 0) return packs
+
+  const rows = await client.ingredientpack.findMany({
+    where: { ingredientId: { in: [...new Set(ingredientIds)] } },
+    select: { id: true, ingredientId: true, name: true, quantity: true, containsPackId: true },
+    orderBy: { id: 'asc' },
+  })
+  for (const { ingredientId, ...pack } of rows) {
+    packs.set(ingredientId, [...(packs.get(ingredientId) ?? []), pack])
+  }
+  return packs
+}
+
+// Prices quoted in a pack carry its contents so amounts in the ingredient's unit can be costed
+export async function addPackContents(
+  client: Prisma.TransactionClient,
+  prices: Map<number, EffectivePrice>
+): Promise<void> {
+  const ingredientIds = [...prices].filter(([, price]) => !findUnit(price.unit)).map(([ingredientId]) => ingredientId)
+  if (ingredientIds.length === 0) return
+
+  const ingredients = await client.ingredient.findMany({
+    where: { id: { in: ingredientIds } },
+    select: { id: true, unit: true, ...PACK_SELECT },
+  })
+  for (const ingredient of ingredients) {
+    const price = prices.get(ingredient.id)!
+    const pack = findPack(ingredient.packs, price.unit)
+    const quantity = pack ? packBaseQuantities(ingredient.packs).get(pack.id) : undefined
+    if (quantity) {
+      price.pack = { quantity, unit: ingredient.unit }
+    }
+  }
+}
+
+// The contained pack has to be another pack of the same ingredient that does not contain this one
+export function assertPackNesting(packs: IngredientPack[], packId: number | null, containsPackId: number): void {
+  const byId = new Map(packs.map((pack) => [pack.id, pack]))
+  if (!byId.has(containsPackId)) {
+    throw new ValidationError('The contained pack does not belong to the ingredient')
+  }
+  let current: number | null = containsPackId
+  const visited = new Set<number>()
+  while (current !== null && !visited.has(current)) {
+    if (current === packId) {
+      throw new ValidationError('A pack cannot contain itself, directly or through another pack')
+    }
+    visited.add(current)
+    current = byId.get(current)?.containsPackId ?? null
+  }
+}
+
+// Prices and supplier listings quoted in the pack, it cannot be removed while they exist
+export async function countPackReferences(
+  client: Prisma.TransactionClient,
+  ingredientId: number,
+  name: string
+): Promise<{ priceCount: number; supplierCount: number }> {
+  const [priceCount, supplierCount] = await Promise.all([
+    client.ingredientprice.count({ where: { ingredientId, unit: name } }),
+    client.supplieringredient.count({ where: { ingredientId, packUnit: name } }),
+  ])
+  return { priceCount, supplierCount }
+}
+
+// A renamed pack keeps its prices and supplier listings
+export async function renamePackReferences(
+  tx: Prisma.TransactionClient,
+  ingredientId: number,
+  fromName: string,
+  toName: string
+): Promise<void> {
+  await tx.ingredientprice.updateMany({ where: { ingredientId, unit: fromName }, data: { unit: toName } })
+  await tx.supplieringredient.updateMany({
+    where: { ingredientId, packUnit: fromName },
+    data: { packUnit: toName, updatedAt: new Date() },
+  })
+}
+
+// Packs that contain no other pack hold a quantity of the ingredient's unit, keep their contents when it changes
+export async function rescalePackQuantities(
+  tx: Prisma.TransactionClient,
+  ingredientId: number,
+  fromUnit: string,
+  toUnit: string,
+  density?: number | null
+): Promise<void> {
+  const factor = convertAmount(1, fromUnit, toUnit, density)
+  if (factor === 1) return
+
+  const rows = await tx.ingredientpack.findMany({
+    where: { ingredientId, containsPackId: null },
+    select: { id: true, quantity: true },
+  })
+  if (rows.length === 0) return
+  if (factor === null) {
+    throw new ValidationError(
+      `Pack quantities cannot be converted from "${fromUnit}" to "${toUnit}", change or remove the packs first`
+    )
+  }
+  for (const row of rows) {
+    await tx.ingredientpack.update({
+      where: { id: row.id },
+      data: { quantity: roundAmount(row.quantity * factor), updatedAt: new Date() },
+    })
+  }
+}
@@ -0,0 +1,86 @@
+// Price records of ingredients, each one applies from its effectiveFrom date until the next one
+
+import { Prisma } from '@prisma/client'
+import { ValidationError } from './errors'
+import { convertAmount, normalizeUnitCode } from './units'
+import { loadSupplierPrices } from './suppliers'
+import { findPack, type IngredientPack } from './packs'
+import { addPackContents } from './ingredient-packs'
+import { PRICE_SOURCES, type EffectivePrice, type PriceSource } from './costing'
+
+// asOf query parameter of the cost endpoints, defaults to now
+export function parseAsOf(value: string | null): Date {
+  if (!value) return new Date()
+  const date = new Date(value)
+  if (isNaN(date.getTime())) {
+    throw new ValidationError('Invalid asOf date')
+  }
+  return date
+}
+
+// priceSource query parameter of the cost endpoints, defaults to the recorded price history
+export function parsePriceSource(value: string | null): PriceSource {
+  if (!value) return 'recorded'
+  if (!PRICE_SOURCES.includes(value as PriceSource)) {
+    throw new ValidationError(`Invalid priceSource, expected one of: ${PRICE_SOURCES.join(', ')}`)
+  }
+  return value as PriceSource
+}
+
+// The latest price of each ingredient that took effect at or before asOf
+export async function loadEffectivePrices(
+  client: Prisma.TransactionClient,
+  ingredientIds: number[],
+  asOf: Date
+): Promise<Map<number, EffectivePrice>> {
+  const prices = new Map<number, EffectivePrice>()
+  if (ingredientIds.length === 0) return prices
+
+  const rows = await client.ingredientprice.findMany({
+    where: { ingredientId: { in: [...new Set(ingredientIds)] }, effectiveFrom: { lte: asOf } },
+    select: { ingredientId: true, price: true, unit: true, effectiveFrom: true },
+    orderBy: [{ ingredientId: 'asc' }, { effectiveFrom: 'desc' }],
+  })
+  for (const row of rows) {
+    if (!prices.has(row.ingredientId)) {
+      prices.set(row.ingredientId, { price: row.price, unit: row.unit, effectiveFrom: row.effectiveFrom })
+    }
+  }
+  await addPackContents(client, prices)
+  return prices
+}
+
+// Prices used to cost dishes. Supplier prices have no history, ingredients without a matching
+// supplier fall back to their recorded price effective at asOf.
+export async function loadCostPrices(
+  client: Prisma.TransactionClient,
+  ingredientIds: number[],
+  asOf: Date,
+  source: PriceSource
+): Promise<Map<number, EffectivePrice>> {
+  const prices = await loadEffectivePrices(client, ingredientIds, asOf)
+  if (source === 'recorded') return prices
+
+  const supplierPrices = await loadSupplierPrices(client, ingredientIds, source)
+  for (const [ingredientId, price] of supplierPrices) {
+    prices.set(ingredientId, price)
+  }
+  return prices
+}
+
+// Prices default to the ingredient's unit, another unit has to be convertible to it or be one of its packs
+export function resolvePriceUnit(
+  ingredientUnit: string,
+  unit?: string,
+  packs: IngredientPack[] = [],
+  density?: number | null
+): string {
+  if (!unit || unit.trim() === ingredientUnit) return ingredientUnit
+  const pack = findPack(packs, unit)
+  if (pack) return pack.name
+  const code = normalizeUnitCode(unit)
+  if (!code || (code !== ingredientUnit && convertAmount(1, code, ingredientUnit, density) === null)) {
+    throw new ValidationError(`Unit "${unit}" cannot be converted to the ingredient unit "${ingredientUnit}"`)
+  }
+  return code
+}
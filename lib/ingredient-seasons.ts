@@ -0,0 +1,87 @@
+// Seasonal availability of ingredients and of the dishes using them
+
+import { Prisma } from '@prisma/client'
+import { ValidationError } from './errors'
+import { getApplicableSeasons, isInSeason, type DishAvailability, type IngredientSeason } from './seasons'
+
+export const SEASON_SELECT = {
+  seasons: {
+    select: { startMonth: true, endMonth: true, region: true },
+    orderBy: [{ region: 'asc' as const }, { startMonth: 'asc' as const }],
+  },
+}
+
+// availableOn query parameter of the dish list, a calendar day (YYYY-MM-DD), null when omitted
+export function parseAvailableOn(value: string | null): Date | null {
+  if (!value) return null
+  const date = new Date(value)
+  // Impossible days such as 2026-02-31 would otherwise roll over into the next month
+  const valid = /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+  if (!valid) {
+    throw new ValidationError('Invalid availableOn date, expected YYYY-MM-DD')
+  }
+  return date
+}
+
+// Replace the full season set of an ingredient
+export async function replaceIngredientSeasons(
+  tx: Prisma.TransactionClient,
+  ingredientId: number,
+  seasons: IngredientSeason[]
+): Promise<void> {
+  await tx.ingredientseason.deleteMany({ where: { ingredientId } })
+  if (seasons.length === 0) return
+  const now = new Date()
+  await tx.ingredientseason.createMany({
+    data: seasons.map((season) => ({ ingredientId, ...season, createdAt: now })),
+  })
+}
+
+// Seasons of the ingredients that have any, all seasonal ingredients when no IDs are given
+export async function loadIngredientSeasons(
+  client: Prisma.TransactionClient,
+  ingredientIds?: number[]
+): Promise<Map<number, IngredientSeason[]>> {
+  const seasons = new Map<number, IngredientSeason[]>()
+  if (ingredientIds?.length === 0) return seasons
+
+  const rows = await client.ingredientseason.findMany({
+    where: ingredientIds ? { ingredientId: { in: [...new Set(ingredientIds)] } } : {},
+    select: { ingredientId: true, startMonth: true, endMonth: true, region: true },
+    orderBy: [{ region: 'asc' }, { startMonth: 'asc' }],
+  })
+  for (const { ingredientId, ...season } of rows) {
+    seasons.set(ingredientId, [...(seasons.get(ingredientId) ?? []), season])
+  }
+  return seasons
+}
+
+// Ingredients that are out of season on the date
+export async function findOutOfSeasonIngredientIds(
+  client: Prisma.TransactionClient,
+  date: Date,
+  region: string | null
+): Promise<number[]> {
+  const seasons = await loadIngredientSeasons(client)
+  return [...seasons]
+    .filter(([, ingredientSeasons]) => !isInSeason(ingredientSeasons, date, region))
+    .map(([ingredientId]) => ingredientId)
+}
+
+// Availability of a dish from the ingredients of its current version
+export function computeDishAvailability(
+  lines: Array<{ ingredientId: number; ingredientName: string }>,
+  seasons: Map<number, IngredientSeason[]>,
+  date: Date,
+  region: string | null
+): DishAvailability {
+  const outOfSeason = lines
+    .filter((line) => !isInSeason(seasons.get(line.ingredientId) ?? [], date, region))
+    .map((line) => ({ ...line, seasons: getApplicableSeasons(seasons.get(line.ingredientId)!, region) }))
+  return {
+    date: date.toISOString().slice(0, 10),
+    region,
+    available: outOfSeason.length === 0,
+    outOfSeason,
+  }
+}
@@ -0,0 +1,122 @@
+// Substitute relationships between ingredients, one ingredient can stand in for another at a ratio
+
+import { Prisma } from '@prisma/client'
+import { loadStockLevels } from './inventory'
+import { convertAmount } from './units'
+import {
+  compareSubstituteOptions,
+  coversAmount,
+  substituteAmount,
+  type SubstitutionLine,
+} from './substitutes'
+
+export interface SubstitutionInput {
+  ingredientId: number
+  ingredientName: string
+  // In the ingredient's unit
+  amount: number
+  unit: string
+  enteredAmount: number
+  enteredUnit: string
+}
+
+// Substitutes of each ingredient, deleted substitutes are left out
+export async function loadSubstitutes(client: Prisma.TransactionClient, ingredientIds: number[]) {
+  const rows = await client.ingredientsubstitute.findMany({
+    where: { ingredientId: { in: [...new Set(ingredientIds)] }, substitute: { deletedAt: null } },
+    select: {
+      ingredientId: true,
+      ratio: true,
+      notes: true,
+      substitute: { select: { id: true, name: true, unit: true, density: true } },
+    },
+    orderBy: { id: 'asc' },
+  })
+
+  const substitutes = new Map<number, typeof rows>()
+  for (const row of rows) {
+    substitutes.set(row.ingredientId, [...(substitutes.get(row.ingredientId) ?? []), row])
+  }
+  return substitutes
+}
+
+// Substitute options of every line of a dish. Lines listed in replaceIds, or when it is null the lines
+// whose stock does not cover the amount, get the first option proposed.
+export async function buildSubstitutionLines(
+  client: Prisma.TransactionClient,
+  lines: SubstitutionInput[],
+  replaceIds: number[] | null
+): Promise<SubstitutionLine[]> {
+  const substitutes = await loadSubstitutes(client, lines.map((line) => line.ingredientId))
+  const stockIds = [
+    ...lines.map((line) => line.ingredientId),
+    ...[...substitutes.values()].flat().map((row) => row.substitute.id),
+  ]
+  const levels = await loadStockLevels(client, stockIds)
+  // Ingredients without movements are not tracked in the inventory
+  const onHandOf = (ingredientId: number) => levels.get(ingredientId)?.onHand ?? null
+
+  return lines.map((line) => {
+    const onHand = onHandOf(line.ingredientId)
+    const inStock = coversAmount(onHand, line.amount)
+    const options = (substitutes.get(line.ingredientId) ?? [])
+      .map((row) => {
+        const amount = substituteAmount(line.amount, line.unit, row.substitute.unit, row.ratio, row.substitute.density)
+        const substituteOnHand = onHandOf(row.substitute.id)
+        return {
+          ingredientId: row.substitute.id,
+          ingredientName: row.substitute.name,
+          unit: row.substitute.unit,
+          ratio: row.ratio,
+          notes: row.notes,
+          amount,
+          ...(amount === null ? { reason: 'density_required' as const } : {}),
+          onHand: substituteOnHand,
+          inStock: amount === null ? null : coversAmount(substituteOnHand, amount),
+        }
+      })
+      .sort(compareSubstituteOptions)
+
+    const replace = replaceIds ? replaceIds.includes(line.ingredientId) : inStock === false
+    return {
+      ...line,
+      onHand,
+      inStock,
+      substituteId: replace ? options.find((option) => option.amount !== null)?.ingredientId ?? null : null,
+      options,
+    }
+  })
+}
+
+// Ratios between units that cannot be converted are per unit, they follow a change of the ingredient's unit
+export async function rescaleSubstituteRatios(
+  tx: Prisma.TransactionClient,
+  ingredientId: number,
+  fromUnit: string,
+  toUnit: string,
+  density?: number | null
+): Promise<void> {
+  // Old units in one new unit
+  const factor = convertAmount(1, toUnit, fromUnit, density)
+  if (factor === null || factor === 1) return
+
+  const rows = await tx.ingredientsubstitute.findMany({
+    where: { OR: [{ ingredientId }, { substituteId: ingredientId }] },
+    include: {
+      ingredient: { select: { unit: true } },
+      substitute: { select: { unit: true, density: true } },
+    },
+  })
+  for (const row of rows) {
+    const asIngredient = row.ingredientId === ingredientId
+    const otherUnit = asIngredient ? row.substitute.unit : row.ingredient.unit
+    // Amounts are converted with the substitute's density
+    const pairDensity = asIngredient ? row.substitute.density : density
+    if (otherUnit === fromUnit || convertAmount(1, fromUnit, otherUnit, pairDensity) !== null) continue
+
+    await tx.ingredientsubstitute.update({
+      where: { id: row.id },
+      data: { ratio: asIngredient ? row.ratio * factor : row.ratio / factor, updatedAt: new Date() },
+    })
+  }
+}
@@ -0,0 +1,193 @@
+// Changing the unit of an ingredient that dishes already use
+
+import { Prisma } from '@prisma/client'
+import { recordAudit } from './audit'
+import { ConflictError, ValidationError } from './errors'
+import { countHistoricalUsage, findCurrentUsage } from './ingredient-usage'
+import { bookUnitChange } from './inventory'
+import { convertAmount, normalizeUnitCode } from './units'
+
+export type UnitChangeStrategy = 'reject' | 'convert'
+
+export interface UnitChangeReport {
+  ingredientId: number
+  fromUnit: string
+  toUnit: string
+  // False when no conversion between the units is known
+  convertible: boolean
+  // Grams per milliliter used to convert between mass and volume
+  density: number | null
+  affectedDishes: Array<{
+    dishId: number
+    dishName: string
+    chefId: number
+    chefName: string
+    versionNumber: number
+    ingredientAmount: number
+    convertedAmount: number | null
+  }>
+  historicalRowCount: number
+  // Stock movements, the on-hand quantity is booked again in the new unit
+  stockMovementCount: number
+  // The low stock threshold in the new unit, cleared when the units cannot be converted
+  lowStockThreshold: { from: number; to: number | null } | null
+}
+
+export function isUnitChange(currentUnit: string, newUnit: string): boolean {
+  return (normalizeUnitCode(currentUnit) ?? currentUnit) !== newUnit
+}
+
+// Older versions snapshot their unit, only dishes currently using the ingredient and its stock are affected
+export function hasUnitChangeImpact(report: UnitChangeReport): boolean {
+  return report.affectedDishes.length > 0 || report.stockMovementCount > 0
+}
+
+// Amounts of dishes and stock are stored in the ingredient's unit, never change it silently
+export function assertUnitChangeAllowed(report: UnitChangeReport, strategy: UnitChangeStrategy | undefined): void {
+  if (!hasUnitChangeImpact(report)) return
+  if (strategy !== 'convert') {
+    throw new ConflictError(
+      'The unit of an ingredient used by dishes or with stock movements can only be changed with unitChange "convert"',
+      report
+    )
+  }
+  if (!report.convertible) {
+    throw new ValidationError(`Amounts cannot be converted from "${report.fromUnit}" to "${report.toUnit}"`, report)
+  }
+}
+
+// Impact of changing the unit, used for dry runs and to reject unsafe changes. Before applying a change, build it
+// inside the transaction from the ingredient as read by lockIngredient, the plain reads here take no locks.
+export async function buildUnitChangeReport(
+  client: Prisma.TransactionClient,
+  ingredient: { id: number; unit: string; density?: number | null; lowStockThreshold?: number | null },
+  toUnit: string
+): Promise<UnitChangeReport> {
+  const density = ingredient.density ?? null
+  const [usage, historicalRowCount, stockMovementCount] = await Promise.all([
+    findCurrentUsage(client, ingredient.id),
+    countHistoricalUsage(client, ingredient.id),
+    client.stockmovement.count({ where: { ingredientId: ingredient.id } }),
+  ])
+  const convertible = convertAmount(1, ingredient.unit, toUnit, density) !== null
+
+  return {
+    ingredientId: ingredient.id,
+    fromUnit: ingredient.unit,
+    toUnit,
+    convertible,
+    density,
+    affectedDishes: usage.map((row) => ({
+      dishId: row.dishId,
+      dishName: row.dishName,
+      chefId: row.chefId,
+      chefName: row.chefName,
+      versionNumber: row.versionNumber,
+      ingredientAmount: row.ingredientAmount,
+      convertedAmount: convertAmount(row.ingredientAmount, ingredient.unit, toUnit, density),
+    })),
+    historicalRowCount,
+    stockMovementCount,
+    lowStockThreshold:
+      ingredient.lowStockThreshold != null
+        ? {
+            from: ingredient.lowStockThreshold,
+            to: convertAmount(ingredient.lowStockThreshold, ingredient.unit, toUnit, density),
+          }
+        : null,
+  }
+}
+
+// Give each dish currently using the ingredient a new version with the converted amount.
+// Older versions keep their amounts, they are read with the unit snapshotted on each line.
+// Stock movements are left as they were recorded, a unit change movement books the level in the new unit.
+export async function applyUnitChange(
+  tx: Prisma.TransactionClient,
+  report: UnitChangeReport,
+  ingredientName: string,
+  actorChefId: number
+): Promise<void> {
+  const now = new Date()
+
+  if (report.stockMovementCount > 0) {
+    const movement = await bookUnitChange(
+      tx,
+      report.ingredientId,
+      report.fromUnit,
+      report.toUnit,
+      report.density,
+      actorChefId
+    )
+    await recordAudit(tx, {
+      actorChefId,
+      entityType: 'ingredient',
+      entityId: report.ingredientId,
+      action: 'stock_movement',
+      after: movement,
+    })
+  }
+
+  for (const affected of report.affectedDishes) {
+    const currentLines = await tx.dishingredient.findMany({
+      where: { dishId: affected.dishId, versionNumber: affected.versionNumber },
+      select: {
+        ingredientId: true,
+        ingredientAmount: true,
+        enteredAmount: true,
+        enteredUnit: true,
+        ingredientName: true,
+        ingredientUnit: true,
+        ingredient: { select: { name: true, unit: true } },
+      },
+      orderBy: { ingredientId: 'asc' },
+    })
+
+    const updatedDish = await tx.dish.update({
+      where: { id: affected.dishId },
+      data: { versionNumber: { increment: 1 }, updatedAt: now },
+      select: { versionNumber: true, servings: true },
+    })
+
+    await tx.dishingredient.createMany({
+      data: currentLines.map((line) => {
+        const ingredientUnit = line.ingredientUnit ?? line.ingredient.unit
+        const isChanged = line.ingredientId === report.ingredientId
+        return {
+          dishId: affected.dishId,
+          ingredientId: line.ingredientId,
+          ingredientAmount: isChanged
+            ? convertAmount(line.ingredientAmount, report.fromUnit, report.toUnit, report.density)!
+            : line.ingredientAmount,
+          // What the chef entered stays as it was, expressed in the entered unit
+          enteredAmount: line.enteredAmount ?? line.ingredientAmount,
+          enteredUnit: line.enteredUnit ?? ingredientUnit,
+          ingredientName: isChanged ? ingredientName : line.ingredientName ?? line.ingredient.name,
+          ingredientUnit: isChanged ? report.toUnit : ingredientUnit,
+          servings: updatedDish.servings,
+          versionNumber: updatedDish.versionNumber,
+          createdAt: now,
+          updatedAt: now,
+        }
+      }),
+    })
+
+    await recordAudit(tx, {
+      actorChefId,
+      entityType: 'dish',
+      entityId: affected.dishId,
+      action: 'update',
+      before: {
+        versionNumber: affected.versionNumber,
+        ingredientId: report.ingredientId,
+        ingredientAmount: affected.ingredientAmount,
+        ingredientUnit: report.fromUnit,
+      },
+      after: {
+        versionNumber: updatedDish.versionNumber,
+        ingredientId: report.ingredientId,
+        ingredientAmount: affected.convertedAmount,
+        ingredientUnit: report.toUnit,
+      },
+    })
+  }
+}
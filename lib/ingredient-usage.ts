@@ -0,0 +1,142 @@
+// Where an ingredient is used, distinguishing current dish versions from history
+
+import { Prisma } from '@prisma/client'
+
+export interface IngredientUsage {
+  dishId: number
+  dishName: string
+  chefId: number
+  chefName: string
+  versionNumber: number
+  ingredientAmount: number
+  enteredAmount: number | null
+  enteredUnit: string | null
+}
+
+// Dishes whose current version contains the ingredient
+export async function findCurrentUsage(
+  client: Prisma.TransactionClient,
+  ingredientId: number
+): Promise<IngredientUsage[]> {
+  const rows = await client.dishingredient.findMany({
+    where: { ingredientId },
+    select: {
+      versionNumber: true,
+      ingredientAmount: true,
+      enteredAmount: true,
+      enteredUnit: true,
+      dish: {
+        select: {
+          id: true,
+          name: true,
+          chefId: true,
+          versionNumber: true,
+          chef: { select: { name: true } },
+        },
+      },
+    },
+    orderBy: { dishId: 'asc' },
+  })
+
+  return rows
+    .filter((row) => row.versionNumber === row.dish.versionNumber)
+    .map((row) => ({
+      dishId: row.dish.id,
+      dishName: row.dish.name,
+      chefId: row.dish.chefId,
+      chefName: row.dish.chef.name,
+      versionNumber: row.versionNumber,
+      ingredientAmount: row.ingredientAmount,
+      enteredAmount: row.enteredAmount,
+      enteredUnit: row.enteredUnit,
+    }))
+}
+
+// Number of rows in superseded dish versions that reference the ingredient
+export async function countHistoricalUsage(
+  client: Prisma.TransactionClient,
+  ingredientId: number
+): Promise<number> {
+  const rows = await client.dishingredient.findMany({
+    where: { ingredientId },
+    select: { versionNumber: true, dish: { select: { versionNumber: true } } },
+  })
+  return rows.filter((row) => row.versionNumber !== row.dish.versionNumber).length
+}
+
+export interface DishUsage extends IngredientUsage {
+  // Unit of ingredientAmount, superseded versions keep the unit recorded with them
+  ingredientUnit: string
+  // False when only superseded versions of the dish use the ingredient
+  current: boolean
+}
+
+// One entry per dish: its current version when that uses the ingredient, otherwise
+// the latest superseded version that did. Current usage is listed first.
+export async function findDishUsage(
+  client: Prisma.TransactionClient,
+  ingredientId: number,
+  includeHistorical: boolean
+): Promise<DishUsage[]> {
+  const rows = await client.dishingredient.findMany({
+    where: { ingredientId },
+    select: {
+      versionNumber: true,
+      ingredientAmount: true,
+      enteredAmount: true,
+      enteredUnit: true,
+      ingredientUnit: true,
+      ingredient: { select: { unit: true } },
+      dish: {
+        select: {
+          id: true,
+          name: true,
+          chefId: true,
+          versionNumber: true,
+          chef: { select: { name: true } },
+        },
+      },
+    },
+    orderBy: [{ dishId: 'asc' }, { versionNumber: 'desc' }],
+  })
+
+  const usage: DishUsage[] = []
+  for (const row of rows) {
+    if (usage.at(-1)?.dishId === row.dish.id) continue
+    const current = row.versionNumber === row.dish.versionNumber
+    if (!current && !includeHistorical) continue
+    usage.push({
+      dishId: row.dish.id,
+      dishName: row.dish.name,
+      chefId: row.dish.chefId,
+      chefName: row.dish.chef.name,
+      versionNumber: row.versionNumber,
+      ingredientAmount: row.ingredientAmount,
+      ingredientUnit: current ? row.ingredient.unit : row.ingredientUnit ?? row.ingredient.unit,
+      enteredAmount: row.enteredAmount,
+      enteredUnit: row.enteredUnit,
+      current,
+    })
+  }
+
+  return usage.sort((a, b) => Number(b.current) - Number(a.current))
+}
+
+// Number of dishes whose current version uses each of the ingredients
+export async function countCurrentUsage(
+  client: Prisma.TransactionClient,
+  ingredientIds: number[]
+): Promise<Map<number, number>> {
+  const rows = await client.dishingredient.findMany({
+    where: { ingredientId: { in: ingredientIds } },
+    select: { ingredientId: true, versionNumber: true, dish: { select: { versionNumber: true } } },
+  })
+
+  const counts = new Map(ingredientIds.map((id) => [id, 0]))
+  for (const row of rows) {
+    if (row.versionNumber === row.dish.versionNumber) {
+      counts.set(row.ingredientId, (counts.get(row.ingredientId) ?? 0) + 1)
+    }
+  }
+  return counts
+}
@@ -0,0 +1,155 @@
+// Append-only stock ledger, the on-hand quantity of an ingredient is the sum of its movements. A unit change books a
+// movement that brings the sum into the new unit, each movement keeps the unit it was recorded in.
+
+import { Prisma } from '@prisma/client'
+import { ConflictError, NotFoundError, ValidationError } from './errors'
+import { lockIngredient } from './ingredient-locks'
+import { convertAmount, normalizeUnitCode, roundAmount } from './units'
+import { toStockDelta, type StockMovementType } from './stock'
+import { findPack, packBaseQuantities, type IngredientPack } from './packs'
+
+export interface StockLevel {
+  // In the ingredient's unit
+  onHand: number
+  lastMovementAt: Date | null
+}
+
+export interface StockMovementEntry {
+  ingredientId: number
+  type: StockMovementType
+  // In the ingredient's unit, read from the ingredient row locked in the same transaction
+  quantity: number
+  unit: string
+  enteredQuantity: number
+  enteredUnit: string
+  note?: string | null
+  createdById: number | null
+}
+
+// Stock level of each ingredient, ingredients without movements are left out
+export async function loadStockLevels(
+  client: Prisma.TransactionClient,
+  ingredientIds: number[]
+): Promise<Map<number, StockLevel>> {
+  const levels = new Map<number, StockLevel>()
+  if (ingredientIds.length === 0) return levels
+
+  const rows = await client.stockmovement.groupBy({
+    by: ['ingredientId'],
+    where: { ingredientId: { in: [...new Set(ingredientIds)] } },
+    _sum: { quantity: true },
+    _max: { createdAt: true },
+  })
+  for (const row of rows) {
+    levels.set(row.ingredientId, {
+      onHand: roundAmount(row._sum.quantity ?? 0),
+      lastMovementAt: row._max.createdAt,
+    })
+  }
+  return levels
+}
+
+// Quantities may be entered in any unit convertible to the ingredient's unit or in one of its packs, they are
+// stored in the ingredient's unit
+export function toIngredientQuantity(
+  quantity: number,
+  ingredientUnit: string,
+  unit?: string,
+  packs: IngredientPack[] = [],
+  density?: number | null
+): { quantity: number; unit: string } {
+  if (!unit || unit.trim() === ingredientUnit) return { quantity, unit: ingredientUnit }
+  const pack = findPack(packs, unit)
+  if (pack) {
+    const contents = packBaseQuantities(packs).get(pack.id)
+    if (contents === undefined) {
+      throw new ValidationError(`The contents of the pack "${pack.name}" cannot be determined`)
+    }
+    return { quantity: roundAmount(quantity * contents), unit: pack.name }
+  }
+  const code = normalizeUnitCode(unit)
+  const converted = !code ? null : code === ingredientUnit ? quantity : convertAmount(quantity, code, ingredientUnit, density)
+  if (converted === null) {
+    throw new ValidationError(`Unit "${unit}" cannot be converted to the ingredient unit "${ingredientUnit}"`)
+  }
+  return { quantity: roundAmount(converted), unit: code! }
+}
+
+// Lock the ingredient row until the transaction ends so movements of one ingredient are appended one at a time.
+// The sum is a locking read, it sees the latest committed movements rather than the transaction's snapshot.
+async function lockStockLevel(
+  tx: Prisma.TransactionClient,
+  ingredientId: number
+): Promise<{ onHand: number; unit: string }> {
+  const ingredient = await lockIngredient(tx, ingredientId)
+  if (!ingredient) {
+    throw new NotFoundError('Ingredient not found')
+  }
+  const [row] = await tx.$queryRaw<Array<{ onHand: number | null }>>`
+    SELECT SUM(quantity) AS onHand FROM stockmovement WHERE ingredientId = ${ingredientId} LOCK IN SHARE MODE`
+  return { onHand: roundAmount(Number(row?.onHand ?? 0)), unit: ingredient.unit }
+}
+
+// Append a movement to the ledger. Stock cannot go below zero, the balance after the movement is kept on it. A
+// quantity converted to a unit the ingredient no longer has is refused rather than booked in the wrong unit.
+export async function appendStockMovement(tx: Prisma.TransactionClient, entry: StockMovementEntry) {
+  const { onHand, unit } = await lockStockLevel(tx, entry.ingredientId)
+  if (unit !== entry.unit) {
+    throw new ConflictError(`The ingredient's unit changed from "${entry.unit}" to "${unit}", record the movement again`)
+  }
+  const delta = roundAmount(toStockDelta(entry.type, entry.quantity, onHand))
+  const balanceAfter = roundAmount(onHand + delta)
+  if (balanceAfter < 0) {
+    throw new ValidationError(`Not enough stock, only ${onHand} on hand`, { onHand })
+  }
+
+  return tx.stockmovement.create({
+    data: {
+      ingredientId: entry.ingredientId,
+      type: entry.type,
+      quantity: delta,
+      enteredQuantity: entry.enteredQuantity,
+      enteredUnit: entry.enteredUnit,
+      unit,
+      balanceAfter,
+      note: entry.note ?? null,
+      createdById: entry.createdById,
+      createdAt: new Date(),
+    },
+  })
+}
+
+// Book the on-hand quantity again in the new unit when the ingredient's unit changes. Earlier movements keep their
+// figures, they are read in the unit recorded on each of them.
+export async function bookUnitChange(
+  tx: Prisma.TransactionClient,
+  ingredientId: number,
+  fromUnit: string,
+  toUnit: string,
+  density: number | null,
+  createdById: number
+) {
+  const factor = convertAmount(1, fromUnit, toUnit, density)
+  if (factor === null) {
+    throw new ValidationError(`Stock cannot be converted from "${fromUnit}" to "${toUnit}"`)
+  }
+  const { onHand } = await lockStockLevel(tx, ingredientId)
+  // Movements recorded before units were kept on them are in the unit being replaced
+  await tx.stockmovement.updateMany({ where: { ingredientId, unit: null }, data: { unit: fromUnit } })
+
+  const balanceAfter = roundAmount(onHand * factor)
+  return tx.stockmovement.create({
+    data: {
+      ingredientId,
+      type: 'unit_change',
+      quantity: toStockDelta('unit_change', balanceAfter, onHand),
+      enteredQuantity: onHand,
+      enteredUnit: fromUnit,
+      unit: toUnit,
+      balanceAfter,
+      note: `Unit changed from ${fromUnit} to ${toUnit}`,
+      createdById,
+      createdAt: new Date(),
+    },
+  })
+}
@@ -0,0 +1,140 @@
+// Prep labels, rendered as a standalone HTML page that is printed from the browser
+
+import { ValidationError } from './errors'
+import {
+  STORAGE_CONDITION_CODES,
+  getStorageLabel,
+  isStorageCondition,
+  type StorageCondition,
+} from './shelf-life'
+
+const MAX_COPIES = 100
+
+export interface LabelOptions {
+  storage: StorageCondition
+  preparedAt: Date
+  // IANA time zone the timestamps are printed in, the server's when omitted
+  timeZone?: string
+  copies: number
+}
+
+export interface PrepLabel {
+  title: string
+  // Printed under the title, e.g. the dish version and servings
+  subtitle?: string
+  storage: StorageCondition
+  preparedAt: Date
+  useBy: Date
+  preparedBy: string
+  details: Array<{ label: string; value: string }>
+  notes?: string | null
+}
+
+// Query parameters of the label endpoints: storage (defaults to chilled), preparedAt (ISO date, defaults to
+// now), timeZone and copies (defaults to 1)
+export function parseLabelOptions(searchParams: URLSearchParams): LabelOptions {
+  const storage = searchParams.get('storage') || 'chilled'
+  if (!isStorageCondition(storage)) {
+    throw new ValidationError(`Invalid storage, expected one of: ${STORAGE_CONDITION_CODES.join(', ')}`)
+  }
+
+  const preparedAtParam = searchParams.get('preparedAt')
+  const preparedAt = preparedAtParam ? new Date(preparedAtParam) : new Date()
+  if (isNaN(preparedAt.getTime())) {
+    throw new ValidationError('Invalid preparedAt date')
+  }
+
+  const timeZone = searchParams.get('timeZone') || undefined
+  if (timeZone) {
+    try {
+      new Intl.DateTimeFormat('en-GB', { timeZone })
+    } catch {
+      throw new ValidationError('Invalid timeZone')
+    }
+  }
+
+  const copiesParam = searchParams.get('copies')
+  const copies = copiesParam ? parseInt(copiesParam, 10) : 1
+  if (isNaN(copies) || copies <= 0 || copies > MAX_COPIES) {
+    throw new ValidationError(`copies must be between 1 and ${MAX_COPIES}`)
+  }
+
+  return { storage, preparedAt, timeZone, copies }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// e.g. "Wed, 14/10/2026, 09:30"
+function formatLabelTime(date: Date, timeZone?: string): string {
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    weekday: 'short',
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(date)
+}
+
+function renderLabel(label: PrepLabel, timeZone?: string): string {
+  const rows: Array<{ label: string; value: string; emphasis?: boolean }> = [
+    { label: 'Prepared', value: formatLabelTime(label.preparedAt, timeZone) },
+    { label: 'Use by', value: formatLabelTime(label.useBy, timeZone), emphasis: true },
+    { label: 'Storage', value: getStorageLabel(label.storage) },
+    ...label.details,
+    { label: 'By', value: label.preparedBy },
+  ]
+  return [
+    '<section class="label">',
+    `<h1>${escapeHtml(label.title)}</h1>`,
+    label.subtitle ? `<p class="subtitle">${escapeHtml(label.subtitle)}</p>` : '',
+    '<table>',
+    ...rows.map(
+      (row) =>
+        `<tr${row.emphasis ? ' class="use-by"' : ''}><th>${escapeHtml(row.label)}</th><td>${escapeHtml(row.value)}</td></tr>`
+    ),
+    '</table>',
+    label.notes ? `<p class="notes">${escapeHtml(label.notes)}</p>` : '',
+    '</section>',
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
+
+// A full page with the label repeated copies times, sized for 62 mm label rolls
+export function renderLabelPage(label: PrepLabel, options: Pick<LabelOptions, 'timeZone' | 'copies'>): string {
+  const rendered = renderLabel(label, options.timeZone)
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Label: ${escapeHtml(label.title)}</title>
+<style>
+  @page { margin: 0; }
+  body { margin: 0; font-family: Arial, Helvetica, sans-serif; color: #000; }
+  .label { width: 58mm; padding: 2mm; border-bottom: 1px dashed #999; break-after: page; page-break-after: always; }
+  .label:last-child { break-after: auto; page-break-after: auto; }
+  h1 { font-size: 14pt; margin: 0 0 1mm; }
+  .subtitle { font-size: 8pt; margin: 0 0 1mm; }
+  table { width: 100%; border-collapse: collapse; font-size: 9pt; }
+  th { text-align: left; font-weight: normal; padding-right: 2mm; vertical-align: top; white-space: nowrap; }
+  td { font-weight: bold; }
+  .use-by th, .use-by td { font-size: 11pt; font-weight: bold; }
+  .notes { font-size: 8pt; margin: 1mm 0 0; }
+  @media screen { .label { border: 1px solid #ccc; margin: 4mm; } }
+</style>
+</head>
+<body>
+${Array.from({ length: options.copies }, () => rendered).join('\n')}
+</body>
+</html>
+`
+}
@@ -0,0 +1,155 @@
+// Brute-force protection for chef login, failures are tracked per username and, behind a trusted proxy, per client IP
+
+import { NextRequest } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { LockedError } from './errors'
+
+type ThrottleScope = 'username' | 'ip'
+
+const DEFAULT_MAX_FAILURES = 5
+const DEFAULT_MAX_FAILURES_PER_IP = 20
+const DEFAULT_LOCKOUT_SECONDS = 15 * 60
+
+function readPositiveInt(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value || '', 10)
+  return isNaN(parsed) || parsed <= 0 ? fallback : parsed
+}
+
+function getMaxFailures(scope: ThrottleScope): number {
+  return scope === 'username'
+    ? readPositiveInt(process.env.LOGIN_MAX_FAILURES, DEFAULT_MAX_FAILURES)
+    : readPositiveInt(process.env.LOGIN_MAX_FAILURES_PER_IP, DEFAULT_MAX_FAILURES_PER_IP)
+}
+
+function getLockoutSeconds(): number {
+  return readPositiveInt(process.env.LOGIN_LOCKOUT_SECONDS, DEFAULT_LOCKOUT_SECONDS)
+}
+
+function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase()
+}
+
+// Any client can send the forwarding headers, they are only read when TRUST_PROXY=true says a proxy sets them.
+// Null when the client IP is not known, failures are then only tracked per username.
+export function getClientIp(request: NextRequest): string | null {
+  if (process.env.TRUST_PROXY !== 'true') return null
+  const forwardedFor = request.headers.get('x-forwarded-for')
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim()
+  }
+  return request.headers.get('x-real-ip') || null
+}
+
+function secondsUntil(date: Date): number {
+  return Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000))
+}
+
+// Throws a LockedError while either the username or the client IP is locked
+export async function assertLoginAllowed(username: string, ip: string | null): Promise<void> {
+  const throttles = await prisma.loginthrottle.findMany({
+    where: {
+      OR: [
+        { scope: 'username', key: normalizeUsername(username) },
+        ...(ip ? [{ scope: 'ip', key: ip }] : []),
+      ],
+      lockedUntil: { gt: new Date() },
+    },
+    select: { lockedUntil: true },
+  })
+
+  if (throttles.length > 0) {
+    const lockedUntil = new Date(
+      Math.max(...throttles.map((throttle) => throttle.lockedUntil!.getTime()))
+    )
+    throw new LockedError(undefined, secondsUntil(lockedUntil))
+  }
+}
+
+function isUniqueConstraintError(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002'
+}
+
+// The first failures for a key can arrive together, the one that loses the create race updates instead
+async function incrementFailures(scope: ThrottleScope, key: string, now: Date) {
+  const upsert = () =>
+    prisma.loginthrottle.upsert({
+      where: { scope_key: { scope, key } },
+      create: { scope, key, failureCount: 1, lastFailureAt: now, createdAt: now, updatedAt: now },
+      update: { failureCount: { increment: 1 }, lastFailureAt: now, updatedAt: now },
+      select: { id: true, failureCount: true },
+    })
+  try {
+    return await upsert()
+  } catch (error) {
+    if (!isUniqueConstraintError(error)) throw error
+    return upsert()
+  }
+}
+
+// Every step is a single atomic statement so parallel attempts cannot under-count failures
+async function recordFailure(scope: ThrottleScope, key: string): Promise<Date | null> {
+  const now = new Date()
+  const lockoutSeconds = getLockoutSeconds()
+
+  // Failures older than the lockout window no longer count
+  await prisma.loginthrottle.updateMany({
+    where: { scope, key, lastFailureAt: { lt: new Date(now.getTime() - lockoutSeconds * 1000) } },
+    data: { failureCount: 0 },
+  })
+
+  const throttle = await incrementFailures(scope, key, now)
+  if (throttle.failureCount < getMaxFailures(scope)) return null
+
+  // Only the attempt that reaches the limit first starts the lockout
+  const lockedUntil = new Date(now.getTime() + lockoutSeconds * 1000)
+  const locked = await prisma.loginthrottle.updateMany({
+    where: { id: throttle.id, failureCount: { gte: getMaxFailures(scope) } },
+    data: { failureCount: 0, lockedUntil, updatedAt: now },
+  })
+  return locked.count > 0 ? lockedUntil : null
+}
+
+// Count a failed attempt, throws a LockedError when this attempt triggers a lockout
+export async function recordLoginFailure(username: string, ip: string | null): Promise<void> {
+  const lockedUntilDates = await Promise.all([
+    recordFailure('username', normalizeUsername(username)),
+    ip ? recordFailure('ip', ip) : null,
+  ])
+
+  const lockedUntil = lockedUntilDates.filter((date): date is Date => date !== null)
+  if (lockedUntil.length > 0) {
+    throw new LockedError(
+      undefined,
+      secondsUntil(new Date(Math.max(...lockedUntil.map((date) => date.getTime()))))
+    )
+  }
+}
+
+// Reset the username counter after a successful login or an admin unlock
+export async function clearLoginFailures(username: string): Promise<void> {
+  await prisma.loginthrottle.deleteMany({
+    where: { scope: 'username', key: normalizeUsername(username) },
+  })
+}
+
+// Remaining lock per username, used to show lock state in the chef list
+export async function getUsernameLocks(usernames: string[]): Promise<Record<string, Date>> {
+  if (usernames.length === 0) return {}
+
+  const throttles = await prisma.loginthrottle.findMany({
+    where: {
+      scope: 'username',
+      key: { in: usernames.map(normalizeUsername) },
+      lockedUntil: { gt: new Date() },
+    },
+    select: { key: true, lockedUntil: true },
+  })
+
+  const locks: Record<string, Date> = {}
+  for (const username of usernames) {
+    const throttle = throttles.find((t) => t.key === normalizeUsername(username))
+    if (throttle?.lockedUntil) locks[username] = throttle.lockedUntil
+  }
+  return locks
+}
@@ -0,0 +1,51 @@
+// Pluggable delivery of notifications to chefs (password reset links etc.)
+
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export interface Notification {
+  to: {
+    chefId: number
+    username: string
+    name: string
+  }
+  subject: string
+  body: string
+}
+
+export interface Notifier {
+  send(notification: Notification): Promise<void>
+}
+
+// Prints notifications to the server log
+export const consoleNotifier: Notifier = {
+  async send(notification) {
+    console.info(
+      `[notification] to ${notification.to.username}: ${notification.subject}\n${notification.body}`
+    )
+  },
+}
+
+// Writes every notification as a JSON file into a local outbox directory
+export function createFileOutboxNotifier(outboxDir: string): Notifier {
+  return {
+    async send(notification) {
+      await fs.mkdir(outboxDir, { recursive: true })
+      const fileName = `${Date.now()}-${notification.to.username.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`
+      await fs.writeFile(
+        path.join(outboxDir, fileName),
+        JSON.stringify({ ...notification, createdAt: new Date().toISOString() }, null, 2)
+      )
+    },
+  }
+}
+
+// Selected with NOTIFIER=console|file, the file outbox location comes from NOTIFIER_OUTBOX_DIR
+export function getNotifier(): Notifier {
+  if (process.env.NOTIFIER === 'file') {
+    return createFileOutboxNotifier(
+      process.env.NOTIFIER_OUTBOX_DIR || path.join(process.cwd(), 'outbox')
+    )
+  }
+  return consoleNotifier
+}
@@ -0,0 +1,138 @@
+// Nutrition values are stored per 100 g or 100 ml of an ingredient and summed up per dish version
+
+import { convertAmount, needsDensity } from './units'
+
+export type NutrientKey = 'energyKcal' | 'proteinG' | 'fatG' | 'carbsG' | 'sodiumMg'
+
+export const NUTRITION_BASES = ['g', 'ml'] as const
+
+export type NutritionBasis = (typeof NUTRITION_BASES)[number]
+
+export const NUTRIENTS: Array<{ key: NutrientKey; label: string; unit: string }> = [
+  { key: 'energyKcal', label: 'Energy', unit: 'kcal' },
+  { key: 'proteinG', label: 'Protein', unit: 'g' },
+  { key: 'fatG', label: 'Fat', unit: 'g' },
+  { key: 'carbsG', label: 'Carbohydrates', unit: 'g' },
+  { key: 'sodiumMg', label: 'Sodium', unit: 'mg' },
+]
+
+export type NutritionValues = Record<NutrientKey, number>
+
+export type IngredientNutrition = { nutritionBasis: string } & Record<NutrientKey, number | null>
+
+// Prisma select for the nutrition columns of an ingredient
+export const NUTRITION_SELECT = {
+  nutritionBasis: true,
+  energyKcal: true,
+  proteinG: true,
+  fatG: true,
+  carbsG: true,
+  sodiumMg: true,
+} as const
+
+export interface NutritionLine {
+  ingredientId: number
+  ingredientName: string
+  // Amount in the unit the line is stored in
+  amount: number
+  unit: string
+  nutrition: IngredientNutrition
+  // Grams per milliliter of the ingredient, lets a volume be counted against a per 100 g basis and the other way around
+  density?: number | null
+}
+
+export interface SkippedNutritionLine {
+  ingredientId: number
+  ingredientName: string
+  amount: number
+  unit: string
+  // density_required: the amount is a volume and the basis a mass or the other way around, and the ingredient has
+  // no density
+  reason: 'missing_nutrition' | 'unit_not_convertible' | 'density_required'
+  // The unit the amount had to be converted to
+  basis?: string
+}
+
+export interface DishNutrition {
+  servings: number
+  total: NutritionValues
+  perServing: NutritionValues
+  // False when some lines could not be counted, the totals are then too low
+  complete: boolean
+  skippedLines: SkippedNutritionLine[]
+}
+
+function emptyValues(): NutritionValues {
+  return { energyKcal: 0, proteinG: 0, fatG: 0, carbsG: 0, sodiumMg: 0 }
+}
+
+function roundValue(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+export function hasNutritionData(nutrition: IngredientNutrition): boolean {
+  return NUTRIENTS.some((nutrient) => nutrition[nutrient.key] !== null)
+}
+
+// Default basis for a new ingredient, liquids are usually labelled per 100 ml
+export function defaultNutritionBasis(unit: string): NutritionBasis {
+  return convertAmount(1, unit, 'ml') !== null ? 'ml' : 'g'
+}
+
+// Missing values of an ingredient count as 0, lines whose amount cannot be expressed in the basis are skipped
+export function computeDishNutrition(lines: NutritionLine[], servings: number): DishNutrition {
+  const total = emptyValues()
+  const skippedLines: SkippedNutritionLine[] = []
+
+  for (const line of lines) {
+    const skipped = {
+      ingredientId: line.ingredientId,
+      ingredientName: line.ingredientName,
+      amount: line.amount,
+      unit: line.unit,
+    }
+    if (!hasNutritionData(line.nutrition)) {
+      skippedLines.push({ ...skipped, reason: 'missing_nutrition' })
+      continue
+    }
+
+    const basisAmount = convertAmount(line.amount, line.unit, line.nutrition.nutritionBasis, line.density)
+    if (basisAmount === null) {
+      skippedLines.push({
+        ...skipped,
+        reason: needsDensity(line.unit, line.nutrition.nutritionBasis) ? 'density_required' : 'unit_not_convertible',
+        basis: line.nutrition.nutritionBasis,
+      })
+      continue
+    }
+
+    for (const nutrient of NUTRIENTS) {
+      total[nutrient.key] += ((line.nutrition[nutrient.key] ?? 0) * basisAmount) / 100
+    }
+  }
+
+  const perServing = emptyValues()
+  for (const nutrient of NUTRIENTS) {
+    perServing[nutrient.key] = roundValue(total[nutrient.key] / servings)
+    total[nutrient.key] = roundValue(total[nutrient.key])
+  }
+
+  return {
+    servings,
+    total,
+    perServing,
+    complete: skippedLines.length === 0,
+    skippedLines,
+  }
+}
+
+// Nutrient values present in a request, undefined ones are left unchanged
+export function pickNutrientValues(
+  data: Partial<Record<NutrientKey, number | null>>
+): Partial<Record<NutrientKey, number | null>> {
+  const values: Partial<Record<NutrientKey, number | null>> = {}
+  for (const nutrient of NUTRIENTS) {
+    if (data[nutrient.key] !== undefined) values[nutrient.key] = data[nutrient.key]
+  }
+  return values
+}
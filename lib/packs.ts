@@ -0,0 +1,120 @@
+// Packs an ingredient is bought and counted in, shared by the API and the UI. A pack holds a quantity of
+// the ingredient's unit or of a smaller pack, e.g. a case of 12 bottles of 1 l.
+
+import { convertAmount, findUnit, getCompatibleUnits, roundAmount } from './units'
+
+export interface IngredientPack {
+  id: number
+  name: string
+  // Of the contained pack, or of the ingredient's unit when it contains no pack
+  quantity: number
+  containsPackId: number | null
+}
+
+export interface PackCount {
+  name: string
+  count: number
+}
+
+// Contents of each pack in the ingredient's unit. Packs in a nesting cycle are left out.
+export function packBaseQuantities(packs: IngredientPack[]): Map<number, number> {
+  const byId = new Map(packs.map((pack) => [pack.id, pack]))
+  const quantities = new Map<number, number>()
+  const resolve = (pack: IngredientPack, visiting: Set<number>): number | null => {
+    const known = quantities.get(pack.id)
+    if (known !== undefined) return known
+    if (visiting.has(pack.id)) return null
+    visiting.add(pack.id)
+
+    let quantity: number | null = pack.quantity
+    if (pack.containsPackId !== null) {
+      const inner = byId.get(pack.containsPackId)
+      const innerQuantity = inner ? resolve(inner, visiting) : null
+      quantity = innerQuantity === null ? null : pack.quantity * innerQuantity
+    }
+    if (quantity !== null) quantities.set(pack.id, roundAmount(quantity))
+    return quantity
+  }
+  for (const pack of packs) {
+    resolve(pack, new Set())
+  }
+  return quantities
+}
+
+// Pack names are matched ignoring case and surrounding whitespace
+export function findPack(packs: IngredientPack[], name: string | null | undefined): IngredientPack | undefined {
+  if (!name) return undefined
+  const wanted = name.trim().toLowerCase()
+  return packs.find((pack) => pack.name.toLowerCase() === wanted)
+}
+
+// Units of the ingredient in one of unit: catalog units convert by their factor, packs by their contents.
+// Null when the unit is neither convertible nor a pack of the ingredient.
+export function ingredientUnitsPer(
+  unit: string,
+  ingredientUnit: string,
+  packs: IngredientPack[],
+  density?: number | null
+): number | null {
+  if (unit === ingredientUnit) return 1
+  const pack = findPack(packs, unit)
+  if (pack) return packBaseQuantities(packs).get(pack.id) ?? null
+  return convertAmount(1, unit, ingredientUnit, density)
+}
+
+// Like convertAmount, with the packs of the ingredient as additional units
+export function convertWithPacks(
+  amount: number,
+  fromUnit: string,
+  toUnit: string,
+  ingredientUnit: string,
+  packs: IngredientPack[],
+  density?: number | null
+): number | null {
+  if (fromUnit === toUnit) return amount
+  if (!findPack(packs, fromUnit) && !findPack(packs, toUnit)) return convertAmount(amount, fromUnit, toUnit, density)
+  const from = ingredientUnitsPer(fromUnit, ingredientUnit, packs, density)
+  const to = ingredientUnitsPer(toUnit, ingredientUnit, packs, density)
+  if (from === null || to === null || to === 0) return null
+  return roundAmount((amount * from) / to)
+}
+
+// A quantity in the ingredient's unit as whole packs, largest first, and the rest in the ingredient's unit
+export function packBreakdown(quantity: number, packs: IngredientPack[]): { packs: PackCount[]; rest: number } {
+  const quantities = packBaseQuantities(packs)
+  const sizes = packs
+    .filter((pack) => (quantities.get(pack.id) ?? 0) > 0)
+    .sort((a, b) => quantities.get(b.id)! - quantities.get(a.id)!)
+  const counts: PackCount[] = []
+  let rest = quantity
+  for (const pack of sizes) {
+    // Small tolerance so 11.9999999 bottles still count as 12
+    const count = Math.floor(roundAmount(rest / quantities.get(pack.id)!))
+    if (count > 0) {
+      counts.push({ name: pack.name, count })
+      rest = roundAmount(rest - count * quantities.get(pack.id)!)
+    }
+  }
+  return { packs: counts, rest }
+}
+
+// e.g. "2 case, 3 bottle + 200 ml", the quantity alone when the ingredient has no packs
+export function formatPackBreakdown(quantity: number, unit: string, packs: IngredientPack[]): string {
+  const breakdown = packBreakdown(quantity, packs)
+  if (breakdown.packs.length === 0) return `${quantity} ${unit}`
+  const counted = breakdown.packs.map((pack) => `${pack.count} ${pack.name}`).join(', ')
+  return breakdown.rest > 0 ? `${counted} + ${breakdown.rest} ${unit}` : counted
+}
+
+// Units an amount of the ingredient can be entered in: the compatible catalog units, then its packs
+export function getIngredientUnits(unit: string, packs: IngredientPack[] = [], density?: number | null): string[] {
+  return [
+    ...getCompatibleUnits(unit, density).map((candidate) => candidate.code),
+    ...packs.map((pack) => pack.name),
+  ]
+}
+
+// Pack names are used as units, they may not be mistaken for a catalog unit
+export function isReservedPackName(name: string): boolean {
+  return findUnit(name) !== undefined
+}
@@ -0,0 +1,64 @@
+// Role based access control shared by the API routes and the UI
+
+import { UnauthorizedError } from './errors'
+
+export type ChefRole = 'admin' | 'head_chef' | 'cook'
+
+export const CHEF_ROLES: ChefRole[] = ['admin', 'head_chef', 'cook']
+
+export const CHEF_ROLE_LABELS: Record<ChefRole, string> = {
+  admin: 'Admin',
+  head_chef: 'Head Chef',
+  cook: 'Cook',
+}
+
+export type Permission =
+  | 'chef:manage'
+  | 'ingredient:manage'
+  | 'supplier:manage'
+  | 'inventory:record'
+  | 'inventory:manage'
+  | 'dish:create'
+  | 'dish:edit-any'
+  | 'dish:transfer'
+  | 'audit:read'
+
+// Which roles are granted each permission
+const PERMISSION_MATRIX: Record<Permission, ChefRole[]> = {
+  'chef:manage': ['admin'],
+  'ingredient:manage': ['admin', 'head_chef'],
+  'supplier:manage': ['admin', 'head_chef'],
+  // Receipts, usage and waste, corrections of the stock level need inventory:manage
+  'inventory:record': ['admin', 'head_chef', 'cook'],
+  'inventory:manage': ['admin', 'head_chef'],
+  'dish:create': ['admin', 'head_chef', 'cook'],
+  'dish:edit-any': ['admin', 'head_chef'],
+  'dish:transfer': ['admin', 'head_chef'],
+  'audit:read': ['admin'],
+}
+
+export function hasPermission(role: ChefRole | undefined | null, permission: Permission): boolean {
+  if (!role) return false
+  return PERMISSION_MATRIX[permission].includes(role)
+}
+
+// Cooks may only edit their own dishes, head chefs and admins may edit any dish
+export function canEditDish(
+  chef: { id: number; role: ChefRole } | null | undefined,
+  dish: { chefId: number }
+): boolean {
+  if (!chef) return false
+  return dish.chefId === chef.id || hasPermission(chef.role, 'dish:edit-any')
+}
+
+// Throws when the chef's role is not granted the permission
+export function requirePermission(chef: { role: ChefRole }, permission: Permission): void {
+  if (!hasPermission(chef.role, permission)) {
+    throw new UnauthorizedError('You do not have permission to perform this action')
+  }
+}
+
+// Landing page after login
+export function getHomePath(role: ChefRole | undefined | null): string {
+  return hasPermission(role, 'chef:manage') ? '/chefs' : '/dishes'
+}
@@ -0,0 +1,56 @@
+// Months of the year an ingredient is in season, optionally per region, shared by the API and the UI.
+// Ingredients without seasons are available all year.
+
+export interface IngredientSeason {
+  // 1 to 12, a range whose end is before its start wraps around the new year, e.g. November to February
+  startMonth: number
+  endMonth: number
+  // null when the season applies in every region
+  region: string | null
+}
+
+export interface DishAvailability {
+  // The calendar day checked, as YYYY-MM-DD
+  date: string
+  region: string | null
+  available: boolean
+  // Ingredients of the current version that are out of season on the date, with their seasons in the region
+  outOfSeason: Array<{ ingredientId: number; ingredientName: string; seasons: IngredientSeason[] }>
+}
+
+export const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+export function isMonthInSeason(month: number, season: IngredientSeason): boolean {
+  return season.startMonth <= season.endMonth
+    ? month >= season.startMonth && month <= season.endMonth
+    : month >= season.startMonth || month <= season.endMonth
+}
+
+// Regions are compared ignoring case and surrounding whitespace
+function sameRegion(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase()
+}
+
+// Without a region every season counts. With one, the seasons of that region and those without a region count.
+export function getApplicableSeasons(seasons: IngredientSeason[], region?: string | null): IngredientSeason[] {
+  if (!region) return seasons
+  return seasons.filter((season) => season.region === null || sameRegion(season.region, region))
+}
+
+// Ingredients without applicable seasons are available all year
+export function isInSeason(seasons: IngredientSeason[], date: Date, region?: string | null): boolean {
+  const applicable = getApplicableSeasons(seasons, region)
+  if (applicable.length === 0) return true
+  // Dates are taken as calendar days, availableOn=2026-12-01 is in December in every time zone
+  const month = date.getUTCMonth() + 1
+  return applicable.some((season) => isMonthInSeason(month, season))
+}
+
+// e.g. "Apr-Jun (Germany)", "Nov-Feb", "Jul"
+export function formatSeason(season: IngredientSeason): string {
+  const months =
+    season.startMonth === season.endMonth
+      ? MONTH_LABELS[season.startMonth - 1]
+      : `${MONTH_LABELS[season.startMonth - 1]}-${MONTH_LABELS[season.endMonth - 1]}`
+  return season.region ? `${months} (${season.region})` : months
+}
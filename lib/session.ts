@@ -0,0 +1,181 @@
+// Signed session tokens stored in an HttpOnly cookie
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from './prisma'
+import { UnauthenticatedError } from './errors'
+import type { ChefRole } from './permissions'
+
+export const SESSION_COOKIE_NAME = 'dish_ms_session'
+
+const DEFAULT_SESSION_TTL_SECONDS = 8 * 60 * 60
+const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60
+
+// A session token authenticates requests, a two-factor challenge only proves the password step
+type TokenPurpose = 'session' | 'two_factor'
+
+export interface SessionPayload {
+  chefId: number
+  purpose: TokenPurpose
+  iat: number
+  exp: number
+}
+
+export interface SessionChef {
+  id: number
+  name: string
+  username: string
+  role: ChefRole
+}
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET
+  if (secret) return secret
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET environment variable is not set')
+  }
+  return 'dish-ms-development-session-secret'
+}
+
+function getSessionTtlSeconds(): number {
+  const ttl = parseInt(process.env.SESSION_TTL_SECONDS || '', 10)
+  return isNaN(ttl) || ttl <= 0 ? DEFAULT_SESSION_TTL_SECONDS : ttl
+}
+
+function sign(value: string): string {
+  return createHmac('sha256', getSessionSecret()).update(value).digest('base64url')
+}
+
+// Create a token of the form <base64url(payload)>.<base64url(hmac)>
+function createSignedToken(
+  chefId: number,
+  purpose: TokenPurpose,
+  ttlSeconds: number
+): { token: string; expiresAt: Date } {
+  const now = Math.floor(Date.now() / 1000)
+  const payload: SessionPayload = {
+    chefId,
+    purpose,
+    iat: now,
+    exp: now + ttlSeconds,
+  }
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url')
+
+  return {
+    token: `${encodedPayload}.${sign(encodedPayload)}`,
+    expiresAt: new Date(payload.exp * 1000),
+  }
+}
+
+// Returns the payload when the signature is valid, the purpose matches and the token has not expired
+function verifySignedToken(token: string, purpose: TokenPurpose): SessionPayload | null {
+  const [encodedPayload, signature] = token.split('.')
+  if (!encodedPayload || !signature) return null
+
+  const expected = Buffer.from(sign(encodedPayload))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(encodedPayload, 'base64url').toString('utf8')
+    ) as SessionPayload
+    if (!Number.isInteger(payload.chefId) || typeof payload.exp !== 'number') {
+      return null
+    }
+    if (payload.purpose !== purpose) return null
+    if (payload.exp <= Math.floor(Date.now() / 1000)) return null
+    return payload
+  } catch {
+    return null
+  }
+}
+
+export function createSessionToken(chefId: number): { token: string; expiresAt: Date } {
+  return createSignedToken(chefId, 'session', getSessionTtlSeconds())
+}
+
+export function verifySessionToken(token: string): SessionPayload | null {
+  return verifySignedToken(token, 'session')
+}
+
+// Short-lived token returned after the password step when the chef has two-factor enabled
+export function createTwoFactorChallenge(chefId: number): string {
+  return createSignedToken(chefId, 'two_factor', TWO_FACTOR_CHALLENGE_TTL_SECONDS).token
+}
+
+export function verifyTwoFactorChallenge(token: string): SessionPayload | null {
+  return verifySignedToken(token, 'two_factor')
+}
+
+export function setSessionCookie(response: NextResponse, token: string, expiresAt: Date): void {
+  response.cookies.set(SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  })
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set(SESSION_COOKIE_NAME, '', {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: 0,
+  })
+}
+
+// Resolve the authenticated chef for a route handler, throws if there is no valid session
+export async function requireChef(request: NextRequest): Promise<SessionChef> {
+  const token = request.cookies.get(SESSION_COOKIE_NAME)?.value
+  if (!token) {
+    throw new UnauthenticatedError()
+  }
+
+  const payload = verifySessionToken(token)
+  if (!payload) {
+    throw new UnauthenticatedError('Session is invalid or has expired')
+  }
+
+  const chef = await prisma.chef.findUnique({
+    where: { id: payload.chefId },
+    select: {
+      id: true,
+      name: true,
+      username: true,
+      role: true,
+      active: true,
+      passwordChangedAt: true,
+    },
+  })
+
+  if (!chef) {
+    throw new UnauthenticatedError('Session is invalid or has expired')
+  }
+
+  // Deactivating a chef ends all of their sessions
+  if (!chef.active) {
+    throw new UnauthenticatedError('This account has been deactivated')
+  }
+
+  // Sessions issued before the last password change are no longer valid
+  if (
+    chef.passwordChangedAt &&
+    payload.iat < Math.floor(chef.passwordChangedAt.getTime() / 1000)
+  ) {
+    throw new UnauthenticatedError('Session is invalid or has expired')
+  }
+
+  return {
+    id: chef.id,
+    name: chef.name,
+    username: chef.username,
+    role: chef.role,
+  }
+}
@@ -0,0 +1,97 @@
+// How long an ingredient keeps under each storage condition, in hours, shared by the API and the UI
+
+export type StorageCondition = 'ambient' | 'chilled' | 'frozen'
+
+export type ShelfLifeField = 'shelfLifeAmbientHours' | 'shelfLifeChilledHours' | 'shelfLifeFrozenHours'
+
+export const STORAGE_CONDITIONS: Array<{ code: StorageCondition; label: string; field: ShelfLifeField }> = [
+  { code: 'ambient', label: 'Ambient', field: 'shelfLifeAmbientHours' },
+  { code: 'chilled', label: 'Chilled', field: 'shelfLifeChilledHours' },
+  { code: 'frozen', label: 'Frozen', field: 'shelfLifeFrozenHours' },
+]
+
+export const STORAGE_CONDITION_CODES = STORAGE_CONDITIONS.map((condition) => condition.code) as [
+  StorageCondition,
+  ...StorageCondition[],
+]
+
+export type IngredientShelfLife = Record<ShelfLifeField, number | null>
+
+// Prisma select for the shelf life columns of an ingredient
+export const SHELF_LIFE_SELECT = {
+  shelfLifeAmbientHours: true,
+  shelfLifeChilledHours: true,
+  shelfLifeFrozenHours: true,
+} as const
+
+export function isStorageCondition(input: string): input is StorageCondition {
+  return STORAGE_CONDITION_CODES.includes(input as StorageCondition)
+}
+
+export function getStorageLabel(code: StorageCondition): string {
+  return STORAGE_CONDITIONS.find((condition) => condition.code === code)?.label ?? code
+}
+
+// Null when no shelf life is recorded for the condition
+export function getShelfLifeHours(shelfLife: Partial<IngredientShelfLife>, storage: StorageCondition): number | null {
+  const condition = STORAGE_CONDITIONS.find((candidate) => candidate.code === storage)!
+  return shelfLife[condition.field] ?? null
+}
+
+// Only the shelf life values that were sent, null clears a value
+export function pickShelfLifeValues(
+  data: Partial<Record<ShelfLifeField, number | null>>
+): Partial<Record<ShelfLifeField, number | null>> {
+  const values: Partial<Record<ShelfLifeField, number | null>> = {}
+  for (const condition of STORAGE_CONDITIONS) {
+    if (data[condition.field] !== undefined) values[condition.field] = data[condition.field]
+  }
+  return values
+}
+
+export interface ShelfLifeLine {
+  ingredientId: number
+  ingredientName: string
+  shelfLife: Partial<IngredientShelfLife>
+}
+
+export interface BatchShelfLife {
+  storage: StorageCondition
+  // Shortest shelf life among the ingredients, null when none of them has one for the condition
+  hours: number | null
+  // Ingredients with the shortest shelf life
+  limitingIngredients: Array<{ ingredientId: number; ingredientName: string }>
+  // Ingredients without a shelf life for the condition, the batch's shelf life is unknown while there are any
+  unknownIngredients: Array<{ ingredientId: number; ingredientName: string }>
+}
+
+// A batch keeps as long as its most perishable ingredient
+export function computeBatchShelfLife(lines: ShelfLifeLine[], storage: StorageCondition): BatchShelfLife {
+  const known = lines
+    .map((line) => ({ line, hours: getShelfLifeHours(line.shelfLife, storage) }))
+    .filter((entry): entry is { line: ShelfLifeLine; hours: number } => entry.hours !== null)
+  const hours = known.length > 0 ? Math.min(...known.map((entry) => entry.hours)) : null
+  const toIngredient = (line: ShelfLifeLine) => ({ ingredientId: line.ingredientId, ingredientName: line.ingredientName })
+
+  return {
+    storage,
+    hours,
+    limitingIngredients: known.filter((entry) => entry.hours === hours).map((entry) => toIngredient(entry.line)),
+    unknownIngredients: lines
+      .filter((line) => getShelfLifeHours(line.shelfLife, storage) === null)
+      .map(toIngredient),
+  }
+}
+
+export function computeUseBy(preparedAt: Date, hours: number): Date {
+  return new Date(preparedAt.getTime() + hours * 60 * 60 * 1000)
+}
+
+// e.g. "36 h", "3 days", "2 days 6 h"
+export function formatShelfLife(hours: number): string {
+  const days = Math.floor(hours / 24)
+  const rest = hours % 24
+  if (days === 0) return `${rest} h`
+  const dayText = `${days} ${days === 1 ? 'day' : 'days'}`
+  return rest === 0 ? dayText : `${dayText} ${rest} h`
+}
@@ -0,0 +1,47 @@
+// Stock movements of the inventory ledger, shared by the API and the UI
+
+import { roundAmount } from './units'
+
+// Movements chefs record, a unit change is booked when the ingredient's unit changes
+export const RECORDABLE_STOCK_MOVEMENT_TYPES = ['receipt', 'usage', 'waste', 'adjustment', 'count'] as const
+
+export const STOCK_MOVEMENT_TYPES = [...RECORDABLE_STOCK_MOVEMENT_TYPES, 'unit_change'] as const
+
+export type RecordableStockMovementType = (typeof RECORDABLE_STOCK_MOVEMENT_TYPES)[number]
+
+export type StockMovementType = (typeof STOCK_MOVEMENT_TYPES)[number]
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  receipt: 'Receipt',
+  usage: 'Usage',
+  waste: 'Waste',
+  adjustment: 'Adjustment',
+  count: 'Count',
+  unit_change: 'Unit change',
+}
+
+// Corrections of the stock level, only admins and head chefs may record them
+export const STOCK_CORRECTION_TYPES: StockMovementType[] = ['adjustment', 'count']
+
+// Change of the on-hand quantity. Usage and waste take stock out, an adjustment is signed and
+// a count is the level found, the difference with the current level is booked. A unit change
+// books the difference between the level in the new unit and in the old one.
+export function toStockDelta(type: StockMovementType, quantity: number, onHand: number): number {
+  switch (type) {
+    case 'receipt':
+      return quantity
+    case 'usage':
+    case 'waste':
+      return -quantity
+    case 'adjustment':
+      return quantity
+    case 'count':
+    case 'unit_change':
+      return roundAmount(quantity - onHand)
+  }
+}
+
+// Stock at or below the threshold needs reordering, ingredients without a threshold are never low
+export function isLowStock(onHand: number, threshold: number | null): boolean {
+  return threshold !== null && onHand <= threshold
+}
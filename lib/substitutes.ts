@@ -0,0 +1,114 @@
+// Swapping dish ingredients for their substitutes, shared by the API and the UI
+
+import { convertAmount, needsDensity, roundAmount } from './units'
+
+export interface SubstituteOption {
+  // The substitute ingredient
+  ingredientId: number
+  ingredientName: string
+  unit: string
+  ratio: number
+  notes: string | null
+  // Amount of the substitute replacing the line, in its unit. Null when it cannot be worked out, the option
+  // cannot be chosen then.
+  amount: number | null
+  // density_required: the amounts are a mass and a volume and the substitute has no density
+  reason?: 'density_required'
+  // Null when the stock of the substitute is not tracked
+  onHand: number | null
+  inStock: boolean | null
+}
+
+export interface SubstitutionLine {
+  ingredientId: number
+  ingredientName: string
+  // In the ingredient's unit
+  amount: number
+  unit: string
+  enteredAmount: number
+  enteredUnit: string
+  onHand: number | null
+  inStock: boolean | null
+  // Proposed substitute, set for lines that were asked to be replaced or are short of stock
+  substituteId: number | null
+  options: SubstituteOption[]
+}
+
+// In the shape of the dish update body
+export interface ProposedDishIngredient {
+  ingredientId: number
+  ingredientAmount: number
+  unit?: string
+}
+
+// Amount of the substitute replacing amount of the ingredient. The ratio scales the amount, which is then
+// converted to the substitute's unit, between mass and volume with the substitute's density. Between units
+// that cannot be converted the ratio is substitute units per ingredient unit. Null between mass and volume
+// while the substitute has no density.
+export function substituteAmount(
+  amount: number,
+  fromUnit: string,
+  toUnit: string,
+  ratio: number,
+  density?: number | null
+): number | null {
+  const scaled = amount * ratio
+  const converted = fromUnit === toUnit ? scaled : convertAmount(scaled, fromUnit, toUnit, density)
+  if (converted === null && needsDensity(fromUnit, toUnit)) return null
+  return roundAmount(converted ?? scaled)
+}
+
+// Null when stock is not tracked, nothing is known about it then
+export function coversAmount(onHand: number | null, amount: number): boolean | null {
+  return onHand === null ? null : onHand >= amount
+}
+
+// Substitutes in stock first, then those whose stock is not tracked, those without an amount last
+export function compareSubstituteOptions(a: SubstituteOption, b: SubstituteOption): number {
+  const rank = (option: SubstituteOption) =>
+    option.amount === null ? 3 : option.inStock === true ? 0 : option.inStock === null ? 1 : 2
+  return rank(a) - rank(b) || a.ingredientName.localeCompare(b.ingredientName)
+}
+
+// The ingredient list of the dish with the chosen substitutes, lines without a choice are kept as entered.
+// A substitute the dish already uses is combined with that line, in the ingredient's unit.
+export function applySubstitutions(
+  lines: SubstitutionLine[],
+  choices: Map<number, number | null>
+): ProposedDishIngredient[] {
+  const entries = new Map<number, { entered: ProposedDishIngredient; amount: number; unit: string; parts: number }>()
+  const add = (entered: ProposedDishIngredient, amount: number, unit: string) => {
+    const existing = entries.get(entered.ingredientId)
+    if (existing) {
+      existing.amount = roundAmount(existing.amount + amount)
+      existing.parts += 1
+    } else {
+      entries.set(entered.ingredientId, { entered, amount, unit, parts: 1 })
+    }
+  }
+
+  for (const line of lines) {
+    const option = line.options.find(
+      (candidate) => candidate.ingredientId === choices.get(line.ingredientId) && candidate.amount !== null
+    )
+    if (option && option.amount !== null) {
+      add(
+        { ingredientId: option.ingredientId, ingredientAmount: option.amount, unit: option.unit },
+        option.amount,
+        option.unit
+      )
+    } else {
+      add(
+        { ingredientId: line.ingredientId, ingredientAmount: line.enteredAmount, unit: line.enteredUnit },
+        line.amount,
+        line.unit
+      )
+    }
+  }
+
+  return [...entries.values()].map((entry) =>
+    entry.parts === 1
+      ? entry.entered
+      : { ingredientId: entry.entered.ingredientId, ingredientAmount: entry.amount, unit: entry.unit }
+  )
+}
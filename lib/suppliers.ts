@@ -0,0 +1,84 @@
+// Suppliers sell ingredients in packs, pack prices are turned into a price per pack unit for costing
+
+import { Prisma } from '@prisma/client'
+import { findPack, ingredientUnitsPer } from './packs'
+import { roundAmount } from './units'
+import { PACK_SELECT } from './ingredient-packs'
+import type { EffectivePrice, PriceSource } from './costing'
+
+// Price of each ingredient from its preferred supplier, or from the supplier with the lowest price
+// per ingredient unit. Ingredients without a matching supplier are left out.
+export async function loadSupplierPrices(
+  client: Prisma.TransactionClient,
+  ingredientIds: number[],
+  source: Exclude<PriceSource, 'recorded'>
+): Promise<Map<number, EffectivePrice>> {
+  const prices = new Map<number, EffectivePrice>()
+  if (ingredientIds.length === 0) return prices
+
+  const links = await client.supplieringredient.findMany({
+    where: {
+      ingredientId: { in: [...new Set(ingredientIds)] },
+      ...(source === 'preferred' ? { preferred: true } : {}),
+    },
+    select: {
+      ingredientId: true,
+      supplierId: true,
+      packSize: true,
+      packUnit: true,
+      price: true,
+      updatedAt: true,
+      supplier: { select: { name: true } },
+      ingredient: { select: { unit: true, density: true, ...PACK_SELECT } },
+    },
+    orderBy: { id: 'asc' },
+  })
+
+  const comparablePrices = new Map<number, number>()
+  for (const link of links) {
+    // Not rounded, a large pack priced in a small unit would lose digits that costing multiplies back up
+    const unitPrice = link.price / link.packSize
+    // Pack units of one ingredient can differ, compare prices per ingredient unit
+    const ingredientUnitsPerPackUnit = ingredientUnitsPer(
+      link.packUnit,
+      link.ingredient.unit,
+      link.ingredient.packs,
+      link.ingredient.density
+    )
+    if (!ingredientUnitsPerPackUnit) continue
+
+    const comparablePrice = unitPrice / ingredientUnitsPerPackUnit
+    const best = comparablePrices.get(link.ingredientId)
+    if (best !== undefined && (source === 'preferred' || best <= comparablePrice)) continue
+
+    comparablePrices.set(link.ingredientId, comparablePrice)
+    prices.set(link.ingredientId, {
+      price: unitPrice,
+      unit: link.packUnit,
+      effectiveFrom: link.updatedAt,
+      supplierId: link.supplierId,
+      supplierName: link.supplier.name,
+      ...(findPack(link.ingredient.packs, link.packUnit)
+        ? { pack: { quantity: ingredientUnitsPerPackUnit, unit: link.ingredient.unit } }
+        : {}),
+    })
+  }
+  return prices
+}
+
+// An ingredient has at most one preferred supplier
+export async function clearPreferredSupplier(
+  tx: Prisma.TransactionClient,
+  ingredientId: number,
+  exceptSupplierId: number
+): Promise<void> {
+  await tx.supplieringredient.updateMany({
+    where: { ingredientId, preferred: true, supplierId: { not: exceptSupplierId } },
+    data: { preferred: false, updatedAt: new Date() },
+  })
+}
+
+// Adds the price per pack unit to a supplier ingredient row, rounded for display
+export function withUnitPrice<T extends { price: number; packSize: number }>(link: T): T & { unitPrice: number } {
+  return { ...link, unitPrice: roundAmount(link.price / link.packSize) }
+}
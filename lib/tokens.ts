@@ -0,0 +1,11 @@
+// Random one-time tokens which are only ever stored hashed
+
+import { createHash, randomBytes } from 'crypto'
+
+export function generateToken(bytes: number = 32): string {
+  return randomBytes(bytes).toString('base64url')
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
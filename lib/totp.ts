@@ -0,0 +1,100 @@
+// RFC 6238 time-based one-time passwords (HMAC-SHA1, 6 digits, 30 second steps)
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+const TOTP_DIGITS = 6
+const TOTP_STEP_SECONDS = 30
+
+export const TOTP_ISSUER = 'Dish Management System'
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+  return output
+}
+
+export function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '')
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`)
+    }
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return Buffer.from(bytes)
+}
+
+// 160-bit secret as recommended by RFC 4226
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20))
+}
+
+export function getTimeStep(time: number = Date.now()): number {
+  return Math.floor(time / 1000 / TOTP_STEP_SECONDS)
+}
+
+export function generateTotp(secret: string, step: number = getTimeStep()): string {
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(step))
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3]
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0')
+}
+
+// Returns the matched time step (allowing one step of clock drift) or null
+export function verifyTotp(secret: string, code: string, window: number = 1): number | null {
+  const normalized = code.replace(/\s/g, '')
+  if (!/^\d{6}$/.test(normalized)) return null
+
+  const currentStep = getTimeStep()
+  for (let step = currentStep - window; step <= currentStep + window; step++) {
+    const expected = Buffer.from(generateTotp(secret, step))
+    if (timingSafeEqual(expected, Buffer.from(normalized))) {
+      return step
+    }
+  }
+  return null
+}
+
+export function buildOtpauthUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: 'SHA1',
+    digits: TOTP_DIGITS.toString(),
+    period: TOTP_STEP_SECONDS.toString(),
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
@@ -0,0 +1,72 @@
+// Second login factor: TOTP codes with replay protection and single-use recovery codes
+
+import { randomBytes } from 'crypto'
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { hashToken } from './tokens'
+import { verifyTotp } from './totp'
+
+export const RECOVERY_CODE_COUNT = 10
+
+// Recovery codes are shown as xxxxx-xxxxx and compared without case or separators
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toLowerCase()
+}
+
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const code = randomBytes(5).toString('hex')
+    return `${code.slice(0, 5)}-${code.slice(5)}`
+  })
+}
+
+// Replace all recovery codes of the chef, only the hashes are stored
+export async function replaceRecoveryCodes(
+  tx: Prisma.TransactionClient,
+  chefId: number,
+  codes: string[]
+): Promise<void> {
+  const now = new Date()
+  await tx.recoverycode.deleteMany({ where: { chefId } })
+  await tx.recoverycode.createMany({
+    data: codes.map((code) => ({
+      chefId,
+      codeHash: hashToken(normalizeRecoveryCode(code)),
+      createdAt: now,
+    })),
+  })
+}
+
+// Accept a TOTP code that has not been used before, or consume an unused recovery code
+export async function verifySecondFactor(
+  chef: { id: number; totpSecret: string | null; totpLastUsedStep: number | null },
+  code: string
+): Promise<boolean> {
+  if (chef.totpSecret) {
+    const step = verifyTotp(chef.totpSecret, code)
+    if (step !== null) {
+      // Conditional update so a code can not be replayed, even by a concurrent request
+      const result = await prisma.chef.updateMany({
+        where: {
+          id: chef.id,
+          OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+        },
+        data: { totpLastUsedStep: step },
+      })
+      return result.count === 1
+    }
+  }
+
+  const normalized = normalizeRecoveryCode(code)
+  if (!normalized) return false
+
+  const result = await prisma.recoverycode.updateMany({
+    where: {
+      chefId: chef.id,
+      codeHash: hashToken(normalized),
+      usedAt: null,
+    },
+    data: { usedAt: new Date() },
+  })
+  return result.count === 1
+}
@@ -0,0 +1,98 @@
+// Unit catalog shared by the API and the UI, amounts are only comparable within one dimension
+
+export type UnitDimension = 'mass' | 'volume' | 'count'
+
+export interface UnitDefinition {
+  code: string
+  label: string
+  dimension: UnitDimension
+  // How many base units (g, ml, pcs) one of this unit is
+  factor: number
+  aliases: string[]
+}
+
+export const BASE_UNITS: Record<UnitDimension, string> = {
+  mass: 'g',
+  volume: 'ml',
+  count: 'pcs',
+}
+
+export const UNITS: UnitDefinition[] = [
+  { code: 'mg', label: 'Milligram', dimension: 'mass', factor: 0.001, aliases: ['milligram', 'milligrams'] },
+  { code: 'g', label: 'Gram', dimension: 'mass', factor: 1, aliases: ['gram', 'grams', 'gr', 'gm'] },
+  { code: 'kg', label: 'Kilogram', dimension: 'mass', factor: 1000, aliases: ['kilogram', 'kilograms', 'kgs', 'kilo', 'kilos'] },
+  { code: 'oz', label: 'Ounce', dimension: 'mass', factor: 28.349523125, aliases: ['ounce', 'ounces'] },
+  { code: 'lb', label: 'Pound', dimension: 'mass', factor: 453.59237, aliases: ['pound', 'pounds', 'lbs'] },
+  { code: 'ml', label: 'Milliliter', dimension: 'volume', factor: 1, aliases: ['milliliter', 'milliliters', 'millilitre', 'millilitres', 'mls'] },
+  { code: 'l', label: 'Liter', dimension: 'volume', factor: 1000, aliases: ['liter', 'liters', 'litre', 'litres', 'ltr'] },
+  { code: 'tsp', label: 'Teaspoon', dimension: 'volume', factor: 4.92892159375, aliases: ['teaspoon', 'teaspoons'] },
+  { code: 'tbsp', label: 'Tablespoon', dimension: 'volume', factor: 14.78676478125, aliases: ['tablespoon', 'tablespoons', 'tbs'] },
+  { code: 'fl_oz', label: 'Fluid Ounce', dimension: 'volume', factor: 29.5735295625, aliases: ['fl oz', 'floz', 'fluid ounce', 'fluid ounces'] },
+  { code: 'cup', label: 'Cup', dimension: 'volume', factor: 240, aliases: ['cups'] },
+  { code: 'pcs', label: 'Piece', dimension: 'count', factor: 1, aliases: ['pc', 'piece', 'pieces', 'unit', 'units', 'ea', 'each'] },
+  { code: 'dozen', label: 'Dozen', dimension: 'count', factor: 12, aliases: ['dz', 'doz', 'dozens'] },
+]
+
+const UNIT_LOOKUP = new Map<string, UnitDefinition>()
+for (const unit of UNITS) {
+  UNIT_LOOKUP.set(unit.code, unit)
+  for (const alias of unit.aliases) {
+    UNIT_LOOKUP.set(alias, unit)
+  }
+}
+
+// Accepts the code or any alias, case and surrounding whitespace are ignored
+export function findUnit(input: string | null | undefined): UnitDefinition | undefined {
+  if (!input) return undefined
+  return UNIT_LOOKUP.get(input.trim().toLowerCase().replace(/\s+/g, ' '))
+}
+
+export function isKnownUnit(input: string): boolean {
+  return findUnit(input) !== undefined
+}
+
+export function normalizeUnitCode(input: string): string | null {
+  return findUnit(input)?.code ?? null
+}
+
+// With the ingredient's density, mass and volume units are compatible with each other
+export function getCompatibleUnits(input: string, density?: number | null): UnitDefinition[] {
+  const unit = findUnit(input)
+  if (!unit) return []
+  return UNITS.filter(
+    (candidate) =>
+      candidate.dimension === unit.dimension || (!!density && isMassVolumePair(candidate.dimension, unit.dimension))
+  )
+}
+
+function isMassVolumePair(a: UnitDimension, b: UnitDimension): boolean {
+  return (a === 'mass' && b === 'volume') || (a === 'volume' && b === 'mass')
+}
+
+// Mass and volume only convert into each other with the density of the ingredient
+export function needsDensity(fromUnit: string, toUnit: string): boolean {
+  const from = findUnit(fromUnit)
+  const to = findUnit(toUnit)
+  return !!from && !!to && isMassVolumePair(from.dimension, to.dimension)
+}
+
+// Avoid floating point noise such as 0.30000000000000004 in stored and derived amounts, quantities and prices
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 1e6) / 1e6
+}
+
+// Returns null when either unit is unknown or the dimensions differ. density is the ingredient's
+// grams per milliliter, with it mass and volume convert into each other.
+export function convertAmount(amount: number, fromUnit: string, toUnit: string, density?: number | null): number | null {
+  const from = findUnit(fromUnit)
+  const to = findUnit(toUnit)
+  if (!from || !to) return null
+  if (from.code === to.code) return amount
+  if (from.dimension === to.dimension) return roundAmount((amount * from.factor) / to.factor)
+  if (!density || !isMassVolumePair(from.dimension, to.dimension)) return null
+
+  // Base units are g and ml
+  const baseAmount = amount * from.factor
+  const converted = from.dimension === 'volume' ? baseAmount * density : baseAmount / density
+  return roundAmount(converted / to.factor)
+}
@@ -1,4 +1,13 @@
 import { z } from 'zod'
+import { UNITS, isKnownUnit, normalizeUnitCode } from './units'
+import { ALLERGEN_CODES } from './allergens'
+import { NUTRITION_BASES } from './nutrition'
+import { RECORDABLE_STOCK_MOVEMENT_TYPES } from './stock'
+import { cleanIngredientName } from './ingredient-names'
+import { isReservedPackName } from './packs'
+
+// Number of servings the dish yields, used for per-serving nutrition
+const dishServingsSchema = z.number().int().positive('Servings must be at least 1').max(1000, 'Too many servings')
 
 export const updateDishIngredientsSchema = z.object({
   dishId: z.number().int().positive(),
@@ -8,9 +17,12 @@ export const updateDishIngredientsSchema = z.object({
       z.object({
         ingredientId: z.number().int().positive(),
         ingredientAmount: z.number().min(0, 'Ingredient amount must be non-negative'),
+        // Unit the amount was entered in, defaults to the ingredient's unit
+        unit: z.string().max(50, 'Unit is too long').optional(),
       })
     )
     .min(1, 'At least one ingredient is required'),
+  servings: dishServingsSchema.optional(),
 })
 
 export type UpdateDishIngredientsInput = z.infer<typeof updateDishIngredientsSchema>
@@ -22,28 +34,63 @@ export const createDishSchema = z.object({
       z.object({
         ingredientId: z.number().int().positive(),
         ingredientAmount: z.number().min(0, 'Ingredient amount must be non-negative'),
+        // Unit the amount was entered in, defaults to the ingredient's unit
+        unit: z.string().max(50, 'Unit is too long').optional(),
       })
     )
     .min(1, 'At least one ingredient is required'),
+  servings: dishServingsSchema.optional(),
 })
 
 export type CreateDishInput = z.infer<typeof createDishSchema>
 
+// Dish transfer schema, onConflict decides what happens when the target chef already has a dish with the same name
+export const transferDishSchema = z.object({
+  toChefId: z.number().int().positive(),
+  onConflict: z.enum(['fail', 'rename']).default('fail'),
+})
+
+export type TransferDishInput = z.infer<typeof transferDishSchema>
+
 // Chef schemas
+export const chefRoleSchema = z.enum(['admin', 'head_chef', 'cook'])
+
 export const createChefSchema = z.object({
   name: z.string().min(1, 'Chef name is required').max(255, 'Chef name is too long'),
   username: z.string().min(1, 'Username is required').max(255, 'Username is too long'),
   password: z.string().min(6, 'Password must be at least 6 characters').max(255, 'Password is too long'),
+  role: chefRoleSchema.optional(),
 })
 
 export type CreateChefInput = z.infer<typeof createChefSchema>
 
 export const updateChefSchema = z.object({
   name: z.string().min(1, 'Chef name is required').max(255, 'Chef name is too long'),
+  role: chefRoleSchema.optional(),
 })
 
 export type UpdateChefInput = z.infer<typeof updateChefSchema>
 
+// Password schemas
+const newPasswordSchema = z
+  .string()
+  .min(6, 'Password must be at least 6 characters')
+  .max(255, 'Password is too long')
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: newPasswordSchema,
+})
+
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  newPassword: newPasswordSchema,
+})
+
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>
+
 // Login schema
 export const loginChefSchema = z.object({
   username: z.string().min(1, 'Username is required'),
@@ -52,22 +99,324 @@ export const loginChefSchema = z.object({
 
 export type LoginChefInput = z.infer<typeof loginChefSchema>
 
-// Ingredient schemas
+// Two-factor schemas, the code is either a 6 digit TOTP code or a recovery code
+const twoFactorCodeValueSchema = z
+  .string()
+  .trim()
+  .min(1, 'Verification code is required')
+  .max(64, 'Verification code is too long')
+
+export const loginTwoFactorSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: twoFactorCodeValueSchema,
+})
+
+export type LoginTwoFactorInput = z.infer<typeof loginTwoFactorSchema>
+
+export const verifyTwoFactorSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .regex(/^\d{6}$/, 'Verification code must be 6 digits'),
+})
+
+export type VerifyTwoFactorInput = z.infer<typeof verifyTwoFactorSchema>
+
+export const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+})
+
+export type DisableTwoFactorInput = z.infer<typeof disableTwoFactorSchema>
+
+// Ingredient schemas, units must be in the catalog and are stored by their code
+const ingredientUnitSchema = z
+  .string()
+  .min(1, 'Ingredient unit is required')
+  .max(50, 'Ingredient unit is too long')
+  .refine(isKnownUnit, {
+    message: `Unknown unit, supported units: ${UNITS.map((unit) => unit.code).join(', ')}`,
+  })
+  .transform((unit) => normalizeUnitCode(unit)!)
+
+// null leaves the ingredient uncategorized
+const ingredientCategoryIdSchema = z.number().int().positive().nullable()
+
+// The full set of allergens the ingredient contains, an empty list clears them
+const ingredientAllergensSchema = z.array(z.enum(ALLERGEN_CODES))
+
+// Nutrition values per 100 g or 100 ml (nutritionBasis), null clears a value
+const nutrientValueSchema = z.number().min(0, 'Nutrition values must be non-negative').nullable().optional()
+
+const ingredientNutritionSchema = {
+  nutritionBasis: z.enum(NUTRITION_BASES).optional(),
+  energyKcal: nutrientValueSchema,
+  proteinG: nutrientValueSchema,
+  fatG: nutrientValueSchema,
+  carbsG: nutrientValueSchema,
+  sodiumMg: nutrientValueSchema,
+}
+
+// Grams per milliliter, lets amounts of the ingredient convert between mass and volume. null removes it.
+const densitySchema = z
+  .number()
+  .positive('Density must be greater than 0')
+  .max(100, 'Density is too high')
+  .nullable()
+  .optional()
+
+// Hours the ingredient keeps under each storage condition, null removes a value
+const shelfLifeHoursSchema = z
+  .number()
+  .int('Shelf life must be a whole number of hours')
+  .positive('Shelf life must be at least 1 hour')
+  .max(24 * 365 * 5, 'Shelf life is too long')
+  .nullable()
+  .optional()
+
+const ingredientShelfLifeSchema = {
+  shelfLifeAmbientHours: shelfLifeHoursSchema,
+  shelfLifeChilledHours: shelfLifeHoursSchema,
+  shelfLifeFrozenHours: shelfLifeHoursSchema,
+  storageNotes: z.string().trim().max(1000, 'Storage notes are too long').nullable().optional(),
+}
+
+// Months the ingredient is in season, optionally per region. The full set is replaced, [] makes it available all year.
+const seasonMonthSchema = z.number().int().min(1, 'Months are numbered 1 to 12').max(12, 'Months are numbered 1 to 12')
+
+const ingredientSeasonsSchema = z
+  .array(
+    z.object({
+      startMonth: seasonMonthSchema,
+      endMonth: seasonMonthSchema,
+      region: z
+        .string()
+        .trim()
+        .max(100, 'Region is too long')
+        .nullable()
+        .optional()
+        .transform((region) => region || null),
+    })
+  )
+  .max(24, 'At most 24 seasons are allowed')
+
+// Stock level in the ingredient's unit at which it is reported as low, null removes the threshold
+const lowStockThresholdSchema = z.number().min(0, 'Low stock threshold must be non-negative').nullable().optional()
+
+// Names are stored with surrounding and repeated whitespace removed
+const ingredientNameSchema = z
+  .string()
+  .transform(cleanIngredientName)
+  .pipe(z.string().min(1, 'Ingredient name is required').max(255, 'Ingredient name is too long'))
+
+// Other names cooks use for the ingredient, they are matched like the name
+const ingredientAliasesSchema = z.array(ingredientNameSchema).max(20, 'At most 20 aliases are allowed')
+
 export const createIngredientSchema = z.object({
-  name: z.string().min(1, 'Ingredient name is required').max(255, 'Ingredient name is too long'),
-  unit: z.string().min(1, 'Ingredient unit is required').max(50, 'Ingredient unit is too long'),
+  name: ingredientNameSchema,
+  aliases: ingredientAliasesSchema.optional(),
+  unit: ingredientUnitSchema,
+  categoryId: ingredientCategoryIdSchema.optional(),
+  allergens: ingredientAllergensSchema.optional(),
+  ...ingredientNutritionSchema,
+  lowStockThreshold: lowStockThresholdSchema,
+  density: densitySchema,
+  ...ingredientShelfLifeSchema,
+  seasons: ingredientSeasonsSchema.optional(),
 })
 
 export type CreateIngredientInput = z.infer<typeof createIngredientSchema>
 
 export const updateIngredientSchema = z
   .object({
-    name: z.string().min(1, 'Ingredient name is required').max(255, 'Ingredient name is too long').optional(),
-    unit: z.string().min(1, 'Ingredient unit is required').max(50, 'Ingredient unit is too long').optional(),
-  })
-  .refine((data) => data.name !== undefined || data.unit !== undefined, {
-    message: 'At least one field (name or unit) must be provided',
+    name: ingredientNameSchema.optional(),
+    aliases: ingredientAliasesSchema.optional(),
+    unit: ingredientUnitSchema.optional(),
+    categoryId: ingredientCategoryIdSchema.optional(),
+    allergens: ingredientAllergensSchema.optional(),
+    ...ingredientNutritionSchema,
+    lowStockThreshold: lowStockThresholdSchema,
+    density: densitySchema,
+    ...ingredientShelfLifeSchema,
+    seasons: ingredientSeasonsSchema.optional(),
+    // What to do with dishes using the ingredient when the unit changes
+    unitChange: z.enum(['reject', 'convert']).default('reject'),
   })
+  .refine(
+    (data) => Object.entries(data).some(([key, value]) => key !== 'unitChange' && value !== undefined),
+    {
+      message: 'At least one field (name, aliases, unit, categoryId, allergens, nutrition, lowStockThreshold, density, shelf life, storageNotes or seasons) must be provided',
+    }
+  )
 
 export type UpdateIngredientInput = z.infer<typeof updateIngredientSchema>
 
+
+// Category schemas, parentId null places the category at the top level
+export const createCategorySchema = z.object({
+  name: z.string().trim().min(1, 'Category name is required').max(255, 'Category name is too long'),
+  parentId: z.number().int().positive().nullable().default(null),
+})
+
+export type CreateCategoryInput = z.infer<typeof createCategorySchema>
+
+export const updateCategorySchema = z
+  .object({
+    name: z.string().trim().min(1, 'Category name is required').max(255, 'Category name is too long').optional(),
+    parentId: z.number().int().positive().nullable().optional(),
+  })
+  .refine((data) => data.name !== undefined || data.parentId !== undefined, {
+    message: 'At least one field (name or parentId) must be provided',
+  })
+
+export type UpdateCategoryInput = z.infer<typeof updateCategorySchema>
+
+// The ingredient in the path is kept, the source ingredient is folded into it
+export const mergeIngredientSchema = z.object({
+  sourceIngredientId: z.number().int().positive(),
+})
+
+export type MergeIngredientInput = z.infer<typeof mergeIngredientSchema>
+
+// Price per unit of an ingredient, the unit defaults to the ingredient's unit and effectiveFrom to now
+export const createIngredientPriceSchema = z.object({
+  price: z.number().min(0, 'Price must be non-negative'),
+  unit: z.string().max(50, 'Unit is too long').optional(),
+  effectiveFrom: z
+    .string()
+    .refine((value) => !isNaN(Date.parse(value)), { message: 'Invalid effectiveFrom date' })
+    .transform((value) => new Date(value))
+    .optional(),
+})
+
+export type CreateIngredientPriceInput = z.infer<typeof createIngredientPriceSchema>
+
+// substituteId stands in for the ingredient, ratio scales the amount (1 tbsp butter -> 0.75 tbsp oil)
+const substituteRatioSchema = z.number().positive('Ratio must be greater than 0')
+
+const substituteNotesSchema = z.string().trim().max(1000, 'Notes are too long').nullable().optional()
+
+export const createIngredientSubstituteSchema = z.object({
+  substituteId: z.number().int().positive(),
+  ratio: substituteRatioSchema,
+  notes: substituteNotesSchema,
+})
+
+export type CreateIngredientSubstituteInput = z.infer<typeof createIngredientSubstituteSchema>
+
+export const updateIngredientSubstituteSchema = z
+  .object({
+    ratio: substituteRatioSchema.optional(),
+    notes: substituteNotesSchema,
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'At least one field must be provided',
+  })
+
+export type UpdateIngredientSubstituteInput = z.infer<typeof updateIngredientSubstituteSchema>
+
+// A pack holds quantity of the contained pack, or of the ingredient's unit when containsPackId is null
+const packNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Pack name is required')
+  .max(50, 'Pack name is too long')
+  .refine((name) => !isReservedPackName(name), 'Pack name cannot be a unit')
+
+const packQuantitySchema = z.number().positive('Pack quantity must be greater than 0')
+
+export const createIngredientPackSchema = z.object({
+  name: packNameSchema,
+  quantity: packQuantitySchema,
+  containsPackId: z.number().int().positive().nullable().default(null),
+})
+
+export type CreateIngredientPackInput = z.infer<typeof createIngredientPackSchema>
+
+export const updateIngredientPackSchema = z
+  .object({
+    name: packNameSchema.optional(),
+    quantity: packQuantitySchema.optional(),
+    containsPackId: z.number().int().positive().nullable().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'At least one field must be provided',
+  })
+
+export type UpdateIngredientPackInput = z.infer<typeof updateIngredientPackSchema>
+
+// Supplier schemas, contact details are optional and null clears them
+const supplierTextSchema = (label: string, max: number) =>
+  z.string().trim().max(max, `${label} is too long`).nullable().optional()
+
+const supplierFields = {
+  name: z.string().trim().min(1, 'Supplier name is required').max(255, 'Supplier name is too long'),
+  contactName: supplierTextSchema('Contact name', 255),
+  email: z.email('Invalid email address').max(255, 'Email is too long').nullable().optional(),
+  phone: supplierTextSchema('Phone', 50),
+  address: supplierTextSchema('Address', 500),
+  notes: supplierTextSchema('Notes', 2000),
+}
+
+export const createSupplierSchema = z.object(supplierFields)
+
+export type CreateSupplierInput = z.infer<typeof createSupplierSchema>
+
+export const updateSupplierSchema = z
+  .object({ ...supplierFields, name: supplierFields.name.optional() })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'At least one field must be provided',
+  })
+
+export type UpdateSupplierInput = z.infer<typeof updateSupplierSchema>
+
+// An ingredient sold by a supplier: price is per pack of packSize packUnit, packUnit defaults to the ingredient's unit
+// and may be one of the ingredient's packs
+const supplierIngredientFields = {
+  packSize: z.number().positive('Pack size must be greater than 0'),
+  packUnit: z.string().max(50, 'Unit is too long').optional(),
+  price: z.number().min(0, 'Price must be non-negative'),
+  leadTimeDays: z.number().int().min(0, 'Lead time must be non-negative').nullable().optional(),
+  preferred: z.boolean().optional(),
+}
+
+export const createSupplierIngredientSchema = z.object({
+  ingredientId: z.number().int().positive(),
+  ...supplierIngredientFields,
+})
+
+export type CreateSupplierIngredientInput = z.infer<typeof createSupplierIngredientSchema>
+
+export const updateSupplierIngredientSchema = z
+  .object({
+    packSize: supplierIngredientFields.packSize.optional(),
+    packUnit: supplierIngredientFields.packUnit,
+    price: supplierIngredientFields.price.optional(),
+    leadTimeDays: supplierIngredientFields.leadTimeDays,
+    preferred: supplierIngredientFields.preferred,
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'At least one field must be provided',
+  })
+
+export type UpdateSupplierIngredientInput = z.infer<typeof updateSupplierIngredientSchema>
+
+// A stock movement, quantity is in unit which defaults to the ingredient's unit
+export const createStockMovementSchema = z
+  .object({
+    ingredientId: z.number().int().positive(),
+    type: z.enum(RECORDABLE_STOCK_MOVEMENT_TYPES),
+    quantity: z.number(),
+    unit: z.string().max(50, 'Unit is too long').optional(),
+    note: z.string().trim().max(1000, 'Note is too long').optional(),
+  })
+  .refine(
+    (data) => {
+      // Adjustments are signed, a count is the quantity found on hand
+      if (data.type === 'adjustment') return data.quantity !== 0
+      if (data.type === 'count') return data.quantity >= 0
+      return data.quantity > 0
+    },
+    { message: 'Quantity must be greater than 0, adjustments must not be 0', path: ['quantity'] }
+  )
+
+export type CreateStockMovementInput = z.infer<typeof createStockMovementSchema>